@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  Tab,
+  Tabs,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import DownloadIcon from '@mui/icons-material/Download';
+import { MarkdownEditor } from './MarkdownEditor';
+import type { SwaggerDocument } from '../../types/swagger';
+import type { ApiChange, ApiChangeType } from '../../types/apiDiff';
+import { listSnapshots, type DocumentSnapshot } from '../../utils/documentStore';
+import { importYamlDocument } from '../../utils/yamlImporter';
+import { diffDocuments } from '../../utils/apiDiff';
+import { generateChangelog } from '../../utils/changelog';
+import { downloadFile } from '../../utils/download';
+
+interface CompareDialogProps {
+  open: boolean;
+  projectId: string;
+  currentDocument: SwaggerDocument;
+  onClose: () => void;
+  onAppendToDescription: (markdown: string) => void;
+}
+
+type CompareSource = 'history' | 'yaml';
+type CompareView = 'changes' | 'changelog';
+
+const TYPE_COLORS: Record<ApiChangeType, 'success' | 'error' | 'info' | 'warning'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'info',
+  deprecated: 'warning',
+};
+
+// Group changes by location, keeping the order in which locations first appear
+const groupByLocation = (changes: ApiChange[]): Array<[string, ApiChange[]]> => {
+  const groups = new Map<string, ApiChange[]>();
+  changes.forEach((item) => {
+    groups.set(item.location, [...(groups.get(item.location) || []), item]);
+  });
+  return Array.from(groups);
+};
+
+/**
+ * Compares the current document with an older snapshot or another spec
+ * and lists what changed, flagging changes that break existing clients
+ */
+export const CompareDialog: React.FC<CompareDialogProps> = ({
+  open,
+  projectId,
+  currentDocument,
+  onClose,
+  onAppendToDescription,
+}) => {
+  const [source, setSource] = useState<CompareSource>('history');
+  const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
+  const [selectedSnapshotId, setSelectedSnapshotId] = useState<number | ''>('');
+  const [yamlContent, setYamlContent] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importedDocument, setImportedDocument] = useState<SwaggerDocument | null>(null);
+  const [currentIsBase, setCurrentIsBase] = useState(false);
+  const [breakingOnly, setBreakingOnly] = useState(false);
+  const [view, setView] = useState<CompareView>('changes');
+  // Hand edits to the generated changelog, dropped whenever the compared versions change
+  const [changelogEdits, setChangelogEdits] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    listSnapshots(projectId)
+      .then((list) => {
+        if (cancelled) return;
+        setSnapshots(list);
+        setError(null);
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(`Could not load snapshots: ${e.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId]);
+
+  const handleClose = () => {
+    setSelectedSnapshotId('');
+    setYamlContent('');
+    setImportErrors([]);
+    setImportedDocument(null);
+    setChangelogEdits(null);
+    onClose();
+  };
+
+  const loadYaml = (content: string) => {
+    setYamlContent(content);
+    setChangelogEdits(null);
+    if (!content.trim()) {
+      setImportErrors([]);
+      setImportedDocument(null);
+      return;
+    }
+    const result = importYamlDocument(content);
+    setImportErrors(result.errors);
+    setImportedDocument(result.document || null);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => loadYaml(e.target?.result as string);
+    reader.readAsText(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const otherDocument =
+    source === 'history'
+      ? snapshots.find((snapshot) => snapshot.id === selectedSnapshotId)?.document
+      : importedDocument;
+  const [baseDocument, revisedDocument] = currentIsBase
+    ? [currentDocument, otherDocument]
+    : [otherDocument, currentDocument];
+  const changes = baseDocument && revisedDocument ? diffDocuments(baseDocument, revisedDocument) : [];
+  const breakingCount = changes.filter((item) => item.breaking).length;
+  const visibleChanges = breakingOnly ? changes.filter((item) => item.breaking) : changes;
+  const otherLabel = source === 'history' ? 'Snapshot' : 'Other spec';
+  const changelog =
+    changelogEdits ??
+    (view === 'changelog' && baseDocument && revisedDocument ? generateChangelog(baseDocument, revisedDocument) : '');
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Compare API versions</DialogTitle>
+      <DialogContent dividers sx={{ minHeight: 420 }}>
+        <Tabs
+          value={source}
+          onChange={(_, value: CompareSource) => {
+            setSource(value);
+            setChangelogEdits(null);
+          }}
+          sx={{ mb: 2 }}
+        >
+          <Tab value="history" label="From history" />
+          <Tab value="yaml" label="From YAML" />
+        </Tabs>
+
+        {source === 'history' ? (
+          <Box sx={{ mb: 2 }}>
+            {error && <Alert severity="error">{error}</Alert>}
+            {!error && (
+              <TextField
+                select
+                label="Snapshot"
+                value={selectedSnapshotId}
+                onChange={(e) => {
+                  setSelectedSnapshotId(Number(e.target.value));
+                  setChangelogEdits(null);
+                }}
+                size="small"
+                fullWidth
+                disabled={snapshots.length === 0}
+                helperText={snapshots.length === 0 ? 'No snapshots yet. Save the document to create one.' : undefined}
+              >
+                {snapshots.map((snapshot) => (
+                  <MenuItem key={snapshot.id} value={snapshot.id}>
+                    {new Date(snapshot.createdAt).toLocaleString()} - {snapshot.document.info?.title || 'Untitled'}{' '}
+                    (v{snapshot.document.info?.version})
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Box>
+        ) : (
+          <Box sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+              <input
+                type="file"
+                accept=".yaml,.yml,.json"
+                ref={fileInputRef}
+                onChange={handleFileUpload}
+                style={{ display: 'none' }}
+              />
+              <Button size="small" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()}>
+                Upload File
+              </Button>
+            </Box>
+            <TextField
+              value={yamlContent}
+              onChange={(e) => loadYaml(e.target.value)}
+              placeholder="Paste the OpenAPI YAML or JSON to compare with"
+              multiline
+              minRows={6}
+              maxRows={12}
+              fullWidth
+              sx={{ '& .MuiInputBase-input': { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+            />
+            {importErrors.length > 0 && (
+              <Alert severity="error" sx={{ mt: 1 }}>
+                {importErrors.join('; ')}
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {otherDocument && (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+              <Typography variant="body2" sx={{ color: '#6b7280' }}>
+                {currentIsBase ? `Current → ${otherLabel}` : `${otherLabel} → Current`}
+              </Typography>
+              <Button
+                size="small"
+                startIcon={<SwapHorizIcon />}
+                onClick={() => {
+                  setCurrentIsBase(!currentIsBase);
+                  setChangelogEdits(null);
+                }}
+              >
+                Swap
+              </Button>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={view}
+                onChange={(_, value: CompareView | null) => value && setView(value)}
+              >
+                <ToggleButton value="changes" sx={{ py: 0.25, textTransform: 'none' }}>
+                  Changes
+                </ToggleButton>
+                <ToggleButton value="changelog" sx={{ py: 0.25, textTransform: 'none' }}>
+                  Changelog
+                </ToggleButton>
+              </ToggleButtonGroup>
+              <Box sx={{ flex: 1 }} />
+              <Chip label={`${breakingCount} breaking`} color={breakingCount > 0 ? 'error' : 'default'} size="small" />
+              <Chip label={`${changes.length - breakingCount} non-breaking`} size="small" variant="outlined" />
+              <FormControlLabel
+                control={<Switch size="small" checked={breakingOnly} onChange={(e) => setBreakingOnly(e.target.checked)} />}
+                label="Breaking only"
+              />
+            </Box>
+
+            {view === 'changelog' ? (
+              <MarkdownEditor
+                label="Changelog"
+                value={changelog}
+                onChange={setChangelogEdits}
+                rows={14}
+              />
+            ) : visibleChanges.length === 0 ? (
+              <Typography variant="body2" sx={{ color: '#6b7280' }}>
+                {changes.length === 0 ? 'No API changes found.' : 'No breaking changes.'}
+              </Typography>
+            ) : (
+              groupByLocation(visibleChanges).map(([location, items]) => (
+                <Box key={location} sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2" sx={{ fontFamily: 'monospace', fontWeight: 600, mb: 0.5 }}>
+                    {location}
+                  </Typography>
+                  {items.map((item, index) => (
+                    <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25, pl: 1 }}>
+                      <Chip label={item.type} color={TYPE_COLORS[item.type]} size="small" variant="outlined" sx={{ minWidth: 76 }} />
+                      <Typography variant="body2" sx={{ flex: 1 }}>
+                        {item.message}
+                      </Typography>
+                      {item.breaking && <Chip label="Breaking" color="error" size="small" />}
+                    </Box>
+                  ))}
+                </Box>
+              ))
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {otherDocument && view === 'changelog' && (
+          <>
+            <Button
+              startIcon={<DownloadIcon />}
+              onClick={() => downloadFile(changelog, 'CHANGELOG.md', 'text/markdown')}
+            >
+              Download
+            </Button>
+            <Button
+              onClick={() => {
+                onAppendToDescription(changelog);
+                handleClose();
+              }}
+            >
+              Append to description
+            </Button>
+          </>
+        )}
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
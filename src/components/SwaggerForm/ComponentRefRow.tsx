@@ -0,0 +1,73 @@
+import React from 'react';
+import { Box, Chip, FormControl, IconButton, InputLabel, MenuItem, Select, Typography } from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { ComponentKind } from '../../types/swagger';
+
+interface ComponentRefRowProps {
+  kind: ComponentKind;
+  name: string;
+  names: string[]; // Components of this kind available to pick from
+  label?: string; // e.g. the status code of a referenced response
+  children?: React.ReactNode; // Fields kept next to the $ref, e.g. the status code select
+  onChange: (name: string) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Row for a parameter, response, request body or header that references a reusable component.
+ * Refs to other documents are shown as-is.
+ */
+export const ComponentRefRow: React.FC<ComponentRefRowProps> = ({
+  kind,
+  name,
+  names,
+  label,
+  children,
+  onChange,
+  onRemove,
+}) => {
+  const isExternal = name.includes('/');
+  const isMissing = !isExternal && !names.includes(name);
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        gap: 1,
+        alignItems: 'center',
+        p: 1.5,
+        bgcolor: '#fff',
+        borderRadius: 1,
+        border: '1px dashed #d1d5db',
+      }}
+    >
+      {label && <Chip label={label} size="small" />}
+      {children}
+      <Chip label="$ref" size="small" color="secondary" variant="outlined" />
+      {isExternal ? (
+        <Typography variant="body2" sx={{ fontFamily: 'monospace', color: '#374151' }}>
+          {name}
+        </Typography>
+      ) : (
+        <FormControl size="small" sx={{ minWidth: 200 }} error={isMissing}>
+          <InputLabel>{`#/components/${kind}`}</InputLabel>
+          <Select value={name} label={`#/components/${kind}`} onChange={(e) => onChange(e.target.value)}>
+            {names.map((n) => (
+              <MenuItem key={n} value={n}>{n}</MenuItem>
+            ))}
+            {isMissing && <MenuItem value={name}>{name || '(none)'}</MenuItem>}
+          </Select>
+        </FormControl>
+      )}
+      {isMissing && (
+        <Typography variant="caption" sx={{ color: '#b91c1c' }}>
+          Component not found
+        </Typography>
+      )}
+      <Box sx={{ flex: 1 }} />
+      <IconButton onClick={onRemove} color="error" size="small">
+        <DeleteIcon sx={{ fontSize: 18 }} />
+      </IconButton>
+    </Box>
+  );
+};
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  Tab,
+  Tabs,
+  TextField,
+  Typography,
+} from '@mui/material';
+import yaml from 'yaml';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DescriptionIcon from '@mui/icons-material/Description';
+import type { ComponentKind, SwaggerComponents, SwaggerSchema } from '../../types/swagger';
+import { CONTENT_TYPES, DEFAULT_RESPONSE_CONTENT_TYPE, HEADER_TYPES } from '../../constants/contentTypes';
+import { getComponentNames } from '../../utils/componentRefs';
+import { ExampleRefsSelect } from './ExampleRefsSelect';
+
+interface ComponentsTabProps {
+  components: SwaggerComponents;
+  schemas: SwaggerSchema[];
+  onAdd: (kind: ComponentKind) => void;
+  onUpdate: <K extends ComponentKind>(
+    kind: K,
+    index: number,
+    field: keyof SwaggerComponents[K][number],
+    value: unknown
+  ) => void;
+  onRemove: (kind: ComponentKind, index: number) => void;
+}
+
+const KINDS: { kind: ComponentKind; label: string; singular: string }[] = [
+  { kind: 'parameters', label: 'Parameters', singular: 'Parameter' },
+  { kind: 'responses', label: 'Responses', singular: 'Response' },
+  { kind: 'requestBodies', label: 'Request Bodies', singular: 'Request Body' },
+  { kind: 'headers', label: 'Headers', singular: 'Header' },
+  { kind: 'examples', label: 'Examples', singular: 'Example' },
+];
+
+// Example values are edited as JSON or YAML text
+const isValidExampleValue = (value: string): boolean => {
+  try {
+    yaml.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Edits the reusable parameters, responses, request bodies, headers and examples
+ * that operations can point at with $ref
+ */
+export const ComponentsTab: React.FC<ComponentsTabProps> = ({ components, schemas, onAdd, onUpdate, onRemove }) => {
+  const [activeKind, setActiveKind] = useState(0);
+  const { kind, label, singular } = KINDS[activeKind];
+  const exampleNames = getComponentNames(components, 'examples');
+
+  const schemaSelect = (value: string, onChange: (value: string) => void, disabled?: boolean) => (
+    <FormControl size="small" sx={{ width: 150 }} disabled={disabled}>
+      <InputLabel>Schema</InputLabel>
+      <Select value={value} label="Schema" onChange={(e) => onChange(e.target.value)}>
+        <MenuItem value="">None</MenuItem>
+        {schemas.map((s) => (
+          <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const contentTypeSelect = (value: string, onChange: (value: string) => void, disabled?: boolean) => (
+    <FormControl size="small" sx={{ width: 200 }} disabled={disabled}>
+      <InputLabel>Content Type</InputLabel>
+      <Select value={value} label="Content Type" onChange={(e) => onChange(e.target.value)}>
+        {CONTENT_TYPES.map((ct) => (
+          <MenuItem key={ct} value={ct}>{ct}</MenuItem>
+        ))}
+        {!(CONTENT_TYPES as readonly string[]).includes(value) && <MenuItem value={value}>{value}</MenuItem>}
+      </Select>
+    </FormControl>
+  );
+
+  const nameField = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <TextField
+      label="Component Name"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      required
+      error={!value}
+      size="small"
+      sx={{ width: 200 }}
+    />
+  );
+
+  const removeButton = (index: number) => (
+    <IconButton onClick={() => onRemove(kind, index)} color="error" size="small">
+      <DeleteIcon />
+    </IconButton>
+  );
+
+  const renderItems = () => {
+    switch (kind) {
+      case 'parameters':
+        return components.parameters.map((param, index) => (
+          <Card key={index} variant="outlined" sx={{ p: 2 }}>
+            <Stack spacing={1.5}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                {nameField(param.key, (value) => onUpdate('parameters', index, 'key', value), 'e.g., PageSize')}
+                <TextField
+                  label="Name"
+                  value={param.name}
+                  onChange={(e) => onUpdate('parameters', index, 'name', e.target.value)}
+                  placeholder="e.g., pageSize"
+                  size="small"
+                  sx={{ flex: 1 }}
+                />
+                <FormControl size="small" sx={{ width: 110 }}>
+                  <InputLabel>In</InputLabel>
+                  <Select
+                    value={param.in}
+                    label="In"
+                    onChange={(e) => onUpdate('parameters', index, 'in', e.target.value)}
+                  >
+                    <MenuItem value="path">path</MenuItem>
+                    <MenuItem value="query">query</MenuItem>
+                    <MenuItem value="header">header</MenuItem>
+                    <MenuItem value="cookie">cookie</MenuItem>
+                  </Select>
+                </FormControl>
+                {removeButton(index)}
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <FormControl size="small" sx={{ width: 110 }}>
+                  <InputLabel>Type</InputLabel>
+                  <Select
+                    value={param.type || 'string'}
+                    label="Type"
+                    onChange={(e) => onUpdate('parameters', index, 'type', e.target.value)}
+                  >
+                    {[...HEADER_TYPES, 'array'].map((type) => (
+                      <MenuItem key={type} value={type}>{type}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Description"
+                  value={param.description}
+                  onChange={(e) => onUpdate('parameters', index, 'description', e.target.value)}
+                  size="small"
+                  sx={{ flex: 1 }}
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={param.required}
+                      onChange={(e) => onUpdate('parameters', index, 'required', e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label="Required"
+                />
+              </Box>
+            </Stack>
+          </Card>
+        ));
+      case 'responses':
+        return components.responses.map((resp, index) => (
+          <Card key={index} variant="outlined" sx={{ p: 2 }}>
+            <Stack spacing={1.5}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                {nameField(resp.name, (value) => onUpdate('responses', index, 'name', value), 'e.g., NotFound')}
+                {contentTypeSelect(
+                  resp.contentType || DEFAULT_RESPONSE_CONTENT_TYPE,
+                  (value) => onUpdate('responses', index, 'contentType', value),
+                  resp.noContent
+                )}
+                {schemaSelect(resp.schemaRef, (value) => onUpdate('responses', index, 'schemaRef', value), resp.noContent)}
+                <ExampleRefsSelect
+                  value={resp.exampleRefs || []}
+                  names={exampleNames}
+                  disabled={resp.noContent}
+                  onChange={(value) => onUpdate('responses', index, 'exampleRefs', value)}
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={resp.noContent || false}
+                      onChange={(e) => onUpdate('responses', index, 'noContent', e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label="No body"
+                />
+                <Box sx={{ flex: 1 }} />
+                {removeButton(index)}
+              </Box>
+              <TextField
+                label="Description"
+                value={resp.description}
+                onChange={(e) => onUpdate('responses', index, 'description', e.target.value)}
+                placeholder="e.g., The resource was not found"
+                size="small"
+                fullWidth
+              />
+            </Stack>
+          </Card>
+        ));
+      case 'requestBodies':
+        return components.requestBodies.map((body, index) => (
+          <Card key={index} variant="outlined" sx={{ p: 2 }}>
+            <Stack spacing={1.5}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                {nameField(body.name, (value) => onUpdate('requestBodies', index, 'name', value), 'e.g., PetBody')}
+                {contentTypeSelect(body.contentType, (value) => onUpdate('requestBodies', index, 'contentType', value))}
+                {schemaSelect(body.schemaRef, (value) => onUpdate('requestBodies', index, 'schemaRef', value))}
+                <ExampleRefsSelect
+                  value={body.exampleRefs || []}
+                  names={exampleNames}
+                  onChange={(value) => onUpdate('requestBodies', index, 'exampleRefs', value)}
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={body.required}
+                      onChange={(e) => onUpdate('requestBodies', index, 'required', e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label="Required"
+                />
+                <Box sx={{ flex: 1 }} />
+                {removeButton(index)}
+              </Box>
+              <TextField
+                label="Description"
+                value={body.description}
+                onChange={(e) => onUpdate('requestBodies', index, 'description', e.target.value)}
+                size="small"
+                fullWidth
+              />
+            </Stack>
+          </Card>
+        ));
+      case 'headers':
+        return components.headers.map((header, index) => (
+          <Card key={index} variant="outlined" sx={{ p: 2 }}>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              {nameField(header.name, (value) => onUpdate('headers', index, 'name', value), 'e.g., RateLimit')}
+              <FormControl size="small" sx={{ width: 110 }}>
+                <InputLabel>Type</InputLabel>
+                <Select
+                  value={header.schema.type || 'string'}
+                  label="Type"
+                  onChange={(e) => onUpdate('headers', index, 'schema', { ...header.schema, type: e.target.value })}
+                >
+                  {HEADER_TYPES.map((type) => (
+                    <MenuItem key={type} value={type}>{type}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <TextField
+                label="Description"
+                value={header.description}
+                onChange={(e) => onUpdate('headers', index, 'description', e.target.value)}
+                size="small"
+                sx={{ flex: 1 }}
+              />
+              {removeButton(index)}
+            </Box>
+          </Card>
+        ));
+      case 'examples':
+        return components.examples.map((example, index) => (
+          <Card key={index} variant="outlined" sx={{ p: 2 }}>
+            <Stack spacing={1.5}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                {nameField(example.name, (value) => onUpdate('examples', index, 'name', value), 'e.g., CatExample')}
+                <TextField
+                  label="Summary"
+                  value={example.summary}
+                  onChange={(e) => onUpdate('examples', index, 'summary', e.target.value)}
+                  size="small"
+                  sx={{ flex: 1 }}
+                />
+                {removeButton(index)}
+              </Box>
+              <TextField
+                label="Description"
+                value={example.description}
+                onChange={(e) => onUpdate('examples', index, 'description', e.target.value)}
+                size="small"
+                fullWidth
+              />
+              <TextField
+                label="Value"
+                value={example.value}
+                onChange={(e) => onUpdate('examples', index, 'value', e.target.value)}
+                placeholder={'{\n  "id": 1\n}'}
+                error={!isValidExampleValue(example.value)}
+                helperText={isValidExampleValue(example.value) ? 'JSON or YAML' : 'Not valid JSON or YAML - exported as plain text'}
+                size="small"
+                fullWidth
+                multiline
+                minRows={3}
+                slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.85rem' } } }}
+              />
+            </Stack>
+          </Card>
+        ));
+    }
+  };
+
+  const items = components[kind];
+
+  return (
+    <Stack spacing={3}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, color: '#374151' }}>
+          Reusable Components
+        </Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => onAdd(kind)} sx={{ bgcolor: '#1976d2' }}>
+          Add {singular}
+        </Button>
+      </Box>
+      <Tabs
+        value={activeKind}
+        onChange={(_, value) => setActiveKind(value)}
+        variant="scrollable"
+        sx={{ borderBottom: 1, borderColor: 'divider' }}
+      >
+        {KINDS.map((k) => (
+          <Tab key={k.kind} label={`${k.label} (${components[k.kind].length})`} />
+        ))}
+      </Tabs>
+      {items.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 4, color: '#6b7280' }}>
+          <DescriptionIcon sx={{ fontSize: 48, opacity: 0.5 }} />
+          <Typography>{`No ${label.toLowerCase()} yet. Click "Add ${singular}" to create one.`}</Typography>
+        </Box>
+      ) : (
+        <Stack spacing={2}>{renderItems()}</Stack>
+      )}
+    </Stack>
+  );
+};
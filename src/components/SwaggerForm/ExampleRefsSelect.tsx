@@ -0,0 +1,42 @@
+import React from 'react';
+import { Box, Chip, FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+
+interface ExampleRefsSelectProps {
+  value: string[];
+  names: string[]; // Names of components.examples
+  disabled?: boolean;
+  onChange: (value: string[] | undefined) => void;
+}
+
+/**
+ * Picks the reusable examples attached to a response or request body
+ */
+export const ExampleRefsSelect: React.FC<ExampleRefsSelectProps> = ({ value, names, disabled, onChange }) => {
+  if (names.length === 0 && value.length === 0) return null;
+
+  return (
+    <FormControl size="small" sx={{ minWidth: 150 }} disabled={disabled}>
+      <InputLabel>Examples</InputLabel>
+      <Select
+        multiple
+        value={value}
+        label="Examples"
+        onChange={(e) => {
+          const selected = typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value;
+          onChange(selected.length > 0 ? selected : undefined);
+        }}
+        renderValue={(values) => (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {values.map((v) => (
+              <Chip key={v} label={v} size="small" color={names.includes(v) ? 'default' : 'error'} />
+            ))}
+          </Box>
+        )}
+      >
+        {names.map((name) => (
+          <MenuItem key={name} value={name}>{name}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
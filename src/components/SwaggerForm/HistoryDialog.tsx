@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import RestoreIcon from '@mui/icons-material/Restore';
+import type { SwaggerDocument } from '../../types/swagger';
+import { listSnapshots, type DocumentSnapshot, type SnapshotReason } from '../../utils/documentStore';
+import { buildYamlDocument } from '../../utils/yamlGenerator';
+import { diffLines, type DiffLine } from '../../utils/lineDiff';
+
+interface HistoryDialogProps {
+  open: boolean;
+  projectId: string;
+  currentDocument: SwaggerDocument;
+  onClose: () => void;
+  onRestore: (snapshot: DocumentSnapshot) => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  auto: 'Auto',
+  manual: 'Saved',
+  restore: 'Before restore',
+};
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'gap'; count: number };
+
+// Collapse long runs of unchanged lines, keeping some context around changes
+const collapseUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const nearChange = lines.map((_, index) =>
+    lines
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some((line) => line.type !== 'same')
+  );
+  const rows: DiffRow[] = [];
+  lines.forEach((line, index) => {
+    if (nearChange[index]) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last?.type === 'gap') {
+      last.count++;
+    } else {
+      rows.push({ type: 'gap', count: 1 });
+    }
+  });
+  return rows;
+};
+
+const LINE_STYLES: Record<DiffLine['type'], { prefix: string; bgcolor: string; color: string }> = {
+  same: { prefix: ' ', bgcolor: 'transparent', color: '#374151' },
+  added: { prefix: '+', bgcolor: '#dcfce7', color: '#166534' },
+  removed: { prefix: '-', bgcolor: '#fee2e2', color: '#991b1b' },
+};
+
+/**
+ * Browses the saved snapshots of the open project, shows what changed since
+ * each one and restores it
+ */
+export const HistoryDialog: React.FC<HistoryDialogProps> = ({
+  open,
+  projectId,
+  currentDocument,
+  onClose,
+  onRestore,
+}) => {
+  const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    listSnapshots(projectId)
+      .then((list) => {
+        if (cancelled) return;
+        setSnapshots(list);
+        setError(null);
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(`Could not load snapshots: ${e.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId]);
+
+  const handleClose = () => {
+    setSelectedId(null);
+    onClose();
+  };
+
+  const selected = snapshots.find((snapshot) => snapshot.id === selectedId);
+  const diff = selected
+    ? collapseUnchanged(diffLines(buildYamlDocument(selected.document), buildYamlDocument(currentDocument)))
+    : [];
+  const hasChanges = diff.some((row) => row.type === 'added' || row.type === 'removed');
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>History</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, minHeight: 420 }}>
+        <Box sx={{ width: 260, flexShrink: 0, overflowY: 'auto', maxHeight: '60vh' }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          {!error && snapshots.length === 0 && (
+            <Typography variant="body2" sx={{ color: '#6b7280', p: 1 }}>
+              No snapshots yet. One is taken every hour while you edit and whenever you save.
+            </Typography>
+          )}
+          <List dense disablePadding>
+            {snapshots.map((snapshot) => (
+              <ListItemButton
+                key={snapshot.id}
+                selected={snapshot.id === selectedId}
+                onClick={() => setSelectedId(snapshot.id)}
+              >
+                <ListItemText
+                  primary={new Date(snapshot.createdAt).toLocaleString()}
+                  secondary={snapshot.document.info?.title || 'Untitled'}
+                />
+                <Chip label={REASON_LABELS[snapshot.reason]} size="small" variant="outlined" />
+              </ListItemButton>
+            ))}
+          </List>
+        </Box>
+        <Box sx={{ flex: 1, minWidth: 0, overflow: 'auto', maxHeight: '60vh' }}>
+          {!selected ? (
+            <Typography variant="body2" sx={{ color: '#6b7280', p: 1 }}>
+              Select a snapshot to see how it differs from the current document.
+            </Typography>
+          ) : !hasChanges ? (
+            <Typography variant="body2" sx={{ color: '#6b7280', p: 1 }}>
+              This snapshot matches the current document.
+            </Typography>
+          ) : (
+            <Box component="pre" sx={{ m: 0, fontFamily: 'monospace', fontSize: '0.8rem' }}>
+              {diff.map((row, index) =>
+                row.type === 'gap' ? (
+                  <Box key={index} sx={{ color: '#9ca3af', bgcolor: '#f9fafb', px: 1 }}>
+                    {`… ${row.count} unchanged line${row.count === 1 ? '' : 's'}`}
+                  </Box>
+                ) : (
+                  <Box key={index} sx={{ bgcolor: LINE_STYLES[row.type].bgcolor, color: LINE_STYLES[row.type].color, px: 1 }}>
+                    {`${LINE_STYLES[row.type].prefix} ${row.text}`}
+                  </Box>
+                )
+              )}
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {selected && (
+          <Typography variant="caption" sx={{ color: '#6b7280', mr: 'auto', pl: 2 }}>
+            Red lines are only in the snapshot, green lines only in the current document
+          </Typography>
+        )}
+        <Button onClick={handleClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={<RestoreIcon />}
+          disabled={!selected || !hasChanges}
+          onClick={() => {
+            if (selected) {
+              onRestore(selected);
+              handleClose();
+            }
+          }}
+        >
+          Restore
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
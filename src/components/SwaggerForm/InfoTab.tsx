@@ -7,11 +7,13 @@ import {
   Button,
   Divider,
   FormControl,
+  FormControlLabel,
   IconButton,
   InputLabel,
   MenuItem,
   Select,
   Stack,
+  Switch,
   TextField,
   Typography,
 } from '@mui/material';
@@ -22,38 +24,62 @@ import DnsIcon from '@mui/icons-material/Dns';
 import SecurityIcon from '@mui/icons-material/Security';
 import ContactMailIcon from '@mui/icons-material/ContactMail';
 import GavelIcon from '@mui/icons-material/Gavel';
-import type { SwaggerServer, SwaggerSecurityScheme, SwaggerInfo } from '../../types/swagger';
+import type { SwaggerServer, SwaggerServerVariable, SwaggerSecurityScheme, SwaggerInfo, OAuthFlowType, OAuthScope, SecurityRequirement } from '../../types/swagger';
+import { OAUTH_FLOWS, OAUTH_FLOW_URL_LABELS } from '../../constants/oauthFlows';
+import { formFieldId } from '../../utils/formLocation';
+import { SecurityRequirementsEditor } from './SecurityRequirementsEditor';
 
 interface InfoTabProps {
   info: SwaggerInfo;
   servers: SwaggerServer[];
   securitySchemes: SwaggerSecurityScheme[];
+  security: SecurityRequirement[];
   onUpdate: (field: string, value: string) => void;
   onUpdateContact: (field: string, value: string) => void;
   onUpdateLicense: (field: string, value: string) => void;
   onAddServer: () => void;
-  onUpdateServer: (index: number, field: keyof SwaggerServer, value: string) => void;
+  onUpdateServer: (index: number, field: 'url' | 'description', value: string) => void;
+  onUpdateServerVariable: (
+    serverIndex: number,
+    name: string,
+    field: keyof SwaggerServerVariable,
+    value: string | string[]
+  ) => void;
   onRemoveServer: (index: number) => void;
   onAddSecurityScheme: () => void;
   onAddCognitoSecurityScheme: () => void;
   onUpdateSecurityScheme: (index: number, field: keyof SwaggerSecurityScheme, value: string) => void;
   onRemoveSecurityScheme: (index: number) => void;
+  onToggleOAuthFlow: (schemeIndex: number, flowType: OAuthFlowType, enabled: boolean) => void;
+  onUpdateOAuthFlow: (schemeIndex: number, flowType: OAuthFlowType, field: 'authorizationUrl' | 'tokenUrl' | 'refreshUrl', value: string) => void;
+  onAddOAuthScope: (schemeIndex: number, flowType: OAuthFlowType) => void;
+  onUpdateOAuthScope: (schemeIndex: number, flowType: OAuthFlowType, scopeIndex: number, field: keyof OAuthScope, value: string) => void;
+  onRemoveOAuthScope: (schemeIndex: number, flowType: OAuthFlowType, scopeIndex: number) => void;
+  onUpdateGlobalSecurity: (requirements: SecurityRequirement[]) => void;
 }
 
 export const InfoTab: React.FC<InfoTabProps> = ({
   info,
   servers,
   securitySchemes,
+  security,
   onUpdate,
   onUpdateContact,
   onUpdateLicense,
   onAddServer,
   onUpdateServer,
+  onUpdateServerVariable,
   onRemoveServer,
   onAddSecurityScheme,
   onAddCognitoSecurityScheme,
   onUpdateSecurityScheme,
   onRemoveSecurityScheme,
+  onToggleOAuthFlow,
+  onUpdateOAuthFlow,
+  onAddOAuthScope,
+  onUpdateOAuthScope,
+  onRemoveOAuthScope,
+  onUpdateGlobalSecurity,
 }) => {
   return (
     <Stack spacing={3}>
@@ -62,6 +88,7 @@ export const InfoTab: React.FC<InfoTabProps> = ({
       </Typography>
       <TextField
         fullWidth
+        id={formFieldId('info', 'title')}
         label="API Title"
         value={info.title}
         onChange={(e) => onUpdate('title', e.target.value)}
@@ -71,6 +98,7 @@ export const InfoTab: React.FC<InfoTabProps> = ({
       />
       <TextField
         fullWidth
+        id={formFieldId('info', 'description')}
         label="Description"
         value={info.description}
         onChange={(e) => onUpdate('description', e.target.value)}
@@ -83,6 +111,7 @@ export const InfoTab: React.FC<InfoTabProps> = ({
       <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
         <TextField
           fullWidth
+          id={formFieldId('info', 'version')}
           label="Version"
           value={info.version}
           onChange={(e) => onUpdate('version', e.target.value)}
@@ -92,6 +121,7 @@ export const InfoTab: React.FC<InfoTabProps> = ({
         />
         <TextField
           fullWidth
+          id={formFieldId('info', 'termsOfService')}
           label="Terms of Service URL"
           value={info.termsOfService || ''}
           onChange={(e) => onUpdate('termsOfService', e.target.value)}
@@ -202,38 +232,89 @@ export const InfoTab: React.FC<InfoTabProps> = ({
               <Box
                 key={index}
                 sx={{
-                  display: 'flex',
-                  gap: 2,
-                  alignItems: 'flex-start',
                   p: 2,
                   border: '1px solid #e5e7eb',
                   borderRadius: 1,
                   backgroundColor: '#f9fafb',
                 }}
               >
-                <TextField
-                  label="URL"
-                  value={server.url}
-                  onChange={(e) => onUpdateServer(index, 'url', e.target.value)}
-                  placeholder="https://api.example.com/v1"
-                  size="small"
-                  sx={{ flex: 2 }}
-                />
-                <TextField
-                  label="Description"
-                  value={server.description}
-                  onChange={(e) => onUpdateServer(index, 'description', e.target.value)}
-                  placeholder="Production server"
-                  size="small"
-                  sx={{ flex: 2 }}
-                />
-                <IconButton
-                  onClick={() => onRemoveServer(index)}
-                  color="error"
-                  size="small"
-                >
-                  <DeleteIcon />
-                </IconButton>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+                  <TextField
+                    label="URL"
+                    value={server.url}
+                    onChange={(e) => onUpdateServer(index, 'url', e.target.value)}
+                    placeholder="https://{region}.api.example.com/{stage}"
+                    helperText="Use {name} placeholders for server variables"
+                    size="small"
+                    sx={{ flex: 2 }}
+                  />
+                  <TextField
+                    label="Description"
+                    value={server.description}
+                    onChange={(e) => onUpdateServer(index, 'description', e.target.value)}
+                    placeholder="Production server"
+                    size="small"
+                    sx={{ flex: 2 }}
+                  />
+                  <IconButton
+                    onClick={() => onRemoveServer(index)}
+                    color="error"
+                    size="small"
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </Box>
+
+                {/* Variables are derived from the URL placeholders */}
+                {server.variables && Object.keys(server.variables).length > 0 && (
+                  <Stack spacing={1.5} sx={{ mt: 2, pl: 2, borderLeft: '3px solid #e5e7eb' }}>
+                    <Typography variant="subtitle2" sx={{ fontWeight: 600, color: '#374151' }}>
+                      Variables
+                    </Typography>
+                    {Object.entries(server.variables).map(([name, variable]) => (
+                      <Box key={name} sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+                        <Typography
+                          variant="body2"
+                          sx={{ fontFamily: 'monospace', minWidth: 100, pt: 1, color: '#374151' }}
+                        >
+                          {`{${name}}`}
+                        </Typography>
+                        <TextField
+                          label="Default"
+                          value={variable.default}
+                          onChange={(e) => onUpdateServerVariable(index, name, 'default', e.target.value)}
+                          required
+                          error={!variable.default}
+                          size="small"
+                          sx={{ flex: 1 }}
+                        />
+                        <TextField
+                          label="Allowed Values"
+                          value={(variable.enum || []).join(', ')}
+                          onChange={(e) =>
+                            onUpdateServerVariable(
+                              index,
+                              name,
+                              'enum',
+                              e.target.value ? e.target.value.split(',').map((v) => v.trim()) : []
+                            )
+                          }
+                          placeholder="eu-west-1, us-east-1"
+                          helperText="Comma-separated, optional"
+                          size="small"
+                          sx={{ flex: 1 }}
+                        />
+                        <TextField
+                          label="Description"
+                          value={variable.description || ''}
+                          onChange={(e) => onUpdateServerVariable(index, name, 'description', e.target.value)}
+                          size="small"
+                          sx={{ flex: 1 }}
+                        />
+                      </Box>
+                    ))}
+                  </Stack>
+                )}
               </Box>
             ))}
           </Stack>
@@ -366,9 +447,131 @@ export const InfoTab: React.FC<InfoTabProps> = ({
                       />
                     </Box>
                   )}
+
+                  {/* OAuth2-specific fields */}
+                  {scheme.type === 'oauth2' && (
+                    <Stack spacing={1.5}>
+                      {OAUTH_FLOWS.map(({ type, label, urls }) => {
+                        const flow = scheme.flows?.[type];
+                        return (
+                          <Box
+                            key={type}
+                            sx={{ p: 1.5, border: '1px solid #e5e7eb', borderRadius: 1, backgroundColor: '#fff' }}
+                          >
+                            <FormControlLabel
+                              control={
+                                <Switch
+                                  checked={!!flow}
+                                  onChange={(e) => onToggleOAuthFlow(index, type, e.target.checked)}
+                                  size="small"
+                                />
+                              }
+                              label={label}
+                            />
+                            {flow && (
+                              <Stack spacing={1.5} sx={{ mt: 1 }}>
+                                <Box sx={{ display: 'flex', gap: 2 }}>
+                                  {urls.map((field) => (
+                                    <TextField
+                                      key={field}
+                                      label={OAUTH_FLOW_URL_LABELS[field]}
+                                      value={flow[field] || ''}
+                                      onChange={(e) => onUpdateOAuthFlow(index, type, field, e.target.value)}
+                                      placeholder="https://auth.example.com/oauth2/..."
+                                      size="small"
+                                      required
+                                      sx={{ flex: 1 }}
+                                    />
+                                  ))}
+                                  <TextField
+                                    label="Refresh URL"
+                                    value={flow.refreshUrl || ''}
+                                    onChange={(e) => onUpdateOAuthFlow(index, type, 'refreshUrl', e.target.value)}
+                                    size="small"
+                                    sx={{ flex: 1 }}
+                                  />
+                                </Box>
+                                <Box>
+                                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                                    <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                                      Scopes ({flow.scopes.length})
+                                    </Typography>
+                                    <Button size="small" startIcon={<AddIcon />} onClick={() => onAddOAuthScope(index, type)}>
+                                      Add Scope
+                                    </Button>
+                                  </Box>
+                                  <Stack spacing={1}>
+                                    {flow.scopes.map((scope, scopeIndex) => (
+                                      <Box key={scopeIndex} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                                        <TextField
+                                          label="Scope"
+                                          value={scope.name}
+                                          onChange={(e) => onUpdateOAuthScope(index, type, scopeIndex, 'name', e.target.value)}
+                                          placeholder="read:orders"
+                                          size="small"
+                                          sx={{ flex: 1 }}
+                                        />
+                                        <TextField
+                                          label="Description"
+                                          value={scope.description}
+                                          onChange={(e) => onUpdateOAuthScope(index, type, scopeIndex, 'description', e.target.value)}
+                                          placeholder="Read access to orders"
+                                          size="small"
+                                          sx={{ flex: 2 }}
+                                        />
+                                        <IconButton
+                                          onClick={() => onRemoveOAuthScope(index, type, scopeIndex)}
+                                          color="error"
+                                          size="small"
+                                        >
+                                          <DeleteIcon sx={{ fontSize: 18 }} />
+                                        </IconButton>
+                                      </Box>
+                                    ))}
+                                  </Stack>
+                                </Box>
+                              </Stack>
+                            )}
+                          </Box>
+                        );
+                      })}
+                    </Stack>
+                  )}
+
+                  {/* OpenID Connect-specific fields */}
+                  {scheme.type === 'openIdConnect' && (
+                    <TextField
+                      label="OpenID Connect URL"
+                      value={scheme.openIdConnectUrl || ''}
+                      onChange={(e) => onUpdateSecurityScheme(index, 'openIdConnectUrl', e.target.value)}
+                      placeholder="https://auth.example.com/.well-known/openid-configuration"
+                      size="small"
+                      required
+                      fullWidth
+                    />
+                  )}
                 </Stack>
               </Box>
             ))}
+
+            {securitySchemes.length > 0 && (
+              <>
+                <Divider />
+                <Box>
+                  <Typography variant="subtitle2" sx={{ fontWeight: 600, color: '#374151' }}>
+                    Global Security
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: '#6b7280', display: 'block', mb: 1 }}>
+                    Applies to every operation that doesn't set its own security. Leave empty for no global auth.
+                  </Typography>
+                  <SecurityRequirementsEditor
+                    requirements={security}
+                    securitySchemes={securitySchemes}
+                    onChange={onUpdateGlobalSecurity}
+                  />
+                </Box>
+              </>
+            )}
           </Stack>
         </AccordionDetails>
       </Accordion>
@@ -0,0 +1,143 @@
+import React, { useRef } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { LintRule, LintRuleSettings, LintSeverity } from '../../types/lint';
+import type { SpectralImportResult } from '../../utils/spectralRuleset';
+import { BUILT_IN_RULES } from '../../utils/lintRules';
+
+interface LintRulesDialogProps {
+  open: boolean;
+  settings: LintRuleSettings;
+  importedRuleset: SpectralImportResult | null;
+  onClose: () => void;
+  onChange: (ruleId: string, severity: LintSeverity) => void;
+  onReset: () => void;
+  onImportRuleset: (content: string) => void;
+  onRemoveRuleset: () => void;
+}
+
+const SEVERITY_OPTIONS: Array<{ value: LintSeverity; label: string }> = [
+  { value: 'error', label: 'Error' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'off', label: 'Off' },
+];
+
+/**
+ * Turns the style guide rules on or off and sets their severity for the current document,
+ * and imports an organization's Spectral ruleset to run alongside them
+ */
+export const LintRulesDialog: React.FC<LintRulesDialogProps> = ({
+  open,
+  settings,
+  importedRuleset,
+  onClose,
+  onChange,
+  onReset,
+  onImportRuleset,
+  onRemoveRuleset,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => onImportRuleset(e.target?.result as string);
+    reader.readAsText(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const renderRule = (rule: LintRule) => (
+    <Box key={rule.id} sx={{ display: 'flex', alignItems: 'center', gap: 2, py: 1, borderBottom: '1px solid #f3f4f6' }}>
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Typography variant="body2" sx={{ fontFamily: 'monospace', fontWeight: 600 }}>
+          {rule.id}
+        </Typography>
+        <Typography variant="caption" sx={{ color: '#6b7280' }}>
+          {rule.description}
+        </Typography>
+      </Box>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={settings[rule.id] ?? rule.severity}
+        onChange={(_, value: LintSeverity | null) => value && onChange(rule.id, value)}
+      >
+        {SEVERITY_OPTIONS.map((option) => (
+          <ToggleButton key={option.value} value={option.value} sx={{ py: 0.25, textTransform: 'none' }}>
+            {option.label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Style guide rules</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+          Built-in
+        </Typography>
+        {BUILT_IN_RULES.map(renderRule)}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 3 }}>
+          <Typography variant="subtitle2" sx={{ fontWeight: 600, flex: 1 }}>
+            Spectral ruleset
+          </Typography>
+          <input
+            type="file"
+            accept=".yaml,.yml,.json"
+            ref={fileInputRef}
+            onChange={handleFileUpload}
+            style={{ display: 'none' }}
+          />
+          <Button size="small" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()}>
+            {importedRuleset ? 'Replace' : 'Import'}
+          </Button>
+          {importedRuleset && (
+            <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={onRemoveRuleset}>
+              Remove
+            </Button>
+          )}
+        </Box>
+        {!importedRuleset && (
+          <Typography variant="body2" sx={{ color: '#6b7280', py: 1 }}>
+            Import a .spectral.yaml file to check the API against your own style guide.
+          </Typography>
+        )}
+        {importedRuleset?.errors.map((error) => (
+          <Alert key={error} severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        ))}
+        {importedRuleset?.warnings.map((warning) => (
+          <Alert key={warning} severity="warning" sx={{ mt: 1 }}>
+            {warning}
+          </Alert>
+        ))}
+        {importedRuleset?.rules.map(renderRule)}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onReset} sx={{ mr: 'auto' }}>
+          Reset to defaults
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
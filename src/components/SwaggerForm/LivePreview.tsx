@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, Suspense, lazy } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, Suspense, lazy } from 'react';
 import {
   Box,
   Typography,
@@ -10,6 +10,12 @@ import {
   CircularProgress,
   IconButton,
   Tooltip,
+  Menu,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  Divider,
 } from '@mui/material';
 import CodeIcon from '@mui/icons-material/Code';
 import VisibilityIcon from '@mui/icons-material/Visibility';
@@ -18,9 +24,21 @@ import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import AddIcon from '@mui/icons-material/Add';
 import RemoveIcon from '@mui/icons-material/Remove';
-import type { ValidationResult } from '../../types/validation';
+import DownloadIcon from '@mui/icons-material/Download';
+import type { ValidationResult, ValidationError } from '../../types/validation';
+import type { LintRule, LintRuleSettings, LintSeverity } from '../../types/lint';
+import type { SwaggerDocument } from '../../types/swagger';
 import { validateOpenApiSpec } from '../../utils/openApiValidator';
+import { parseSpectralRuleset } from '../../utils/spectralRuleset';
+import { importYamlDocument } from '../../utils/yamlImporter';
+import { generateClient } from '../../utils/clientGenerator';
+import { downloadFile } from '../../utils/download';
+import { generateJsonSchemaBundle } from '../../utils/jsonSchemaGenerator';
+import { generateServerStubs, type ServerFramework } from '../../utils/serverStubGenerator';
+import { createZip } from '../../utils/zip';
+import type { OutputFormat } from '../../utils/yamlGenerator';
 import { ValidationPanel } from './ValidationPanel';
+import { LintRulesDialog } from './LintRulesDialog';
 import { YamlHighlighter } from './YamlHighlighter';
 
 // Lazy load SwaggerUIPreview for better performance
@@ -32,6 +50,8 @@ const MAX_FONT_SIZE = 24;
 const DEFAULT_FONT_SIZE = 14;
 const FONT_SIZE_STEP = 2;
 const FONT_SIZE_STORAGE_KEY = 'openapi-builder-yaml-font-size';
+// Edits in the output pane are applied to the form once typing pauses this long
+const EDIT_DEBOUNCE_MS = 600;
 
 // Load font size from localStorage
 const getStoredFontSize = (): number => {
@@ -49,14 +69,64 @@ const getStoredFontSize = (): number => {
   return DEFAULT_FONT_SIZE;
 };
 
+const OUTPUT_FILES: Record<OutputFormat, { filename: string; mimeType: string }> = {
+  yaml: { filename: 'openapi.yaml', mimeType: 'application/yaml' },
+  json: { filename: 'openapi.json', mimeType: 'application/json' },
+};
+
+const CLIENT_FILENAME = 'api-client.ts';
+const JSON_SCHEMAS_FILENAME = 'json-schemas.zip';
+const SERVER_STUB_FILES: Record<ServerFramework, { label: string; filename: string }> = {
+  express: { label: 'Express server stubs', filename: 'express-server.zip' },
+  fastify: { label: 'Fastify server stubs', filename: 'fastify-server.zip' },
+};
+
 interface LivePreviewProps {
+  document: SwaggerDocument;
   yamlContent: string;
+  jsonContent: string;
+  lintRules?: LintRuleSettings;
+  spectralRuleset?: string;
+  onLintRuleChange: (ruleId: string, severity: LintSeverity) => void;
+  onResetLintRules: () => void;
+  onSpectralRulesetChange: (content: string | undefined) => void;
+  onIssueClick?: (issue: ValidationError) => void;
+  onEdit: (document: SwaggerDocument) => void;
 }
 
-export const LivePreview: React.FC<LivePreviewProps> = ({ yamlContent }) => {
+// "... at line 3, column 5" in messages from the yaml parser
+const getErrorLine = (errors: string[]): number | undefined => {
+  const match = errors.join('\n').match(/at line (\d+)/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export const LivePreview: React.FC<LivePreviewProps> = ({
+  document,
+  yamlContent,
+  jsonContent,
+  lintRules,
+  spectralRuleset,
+  onLintRuleChange,
+  onResetLintRules,
+  onSpectralRulesetChange,
+  onIssueClick,
+  onEdit,
+}) => {
   const [activeTab, setActiveTab] = useState(0);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('yaml');
+  const [downloadAnchorEl, setDownloadAnchorEl] = useState<HTMLElement | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [lintRulesOpen, setLintRulesOpen] = useState(false);
+  const [highlightedLine, setHighlightedLine] = useState<number | undefined>();
+  // Text typed into the output pane; null shows the generated output
+  const [draft, setDraft] = useState<string | null>(null);
+  const [draftErrors, setDraftErrors] = useState<string[]>([]);
+  const editTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const importedRuleset = useMemo(
+    () => (spectralRuleset ? parseSpectralRuleset(spectralRuleset) : null),
+    [spectralRuleset]
+  );
   const [fontSize, setFontSize] = useState(getStoredFontSize);
 
   // Save font size to localStorage when it changes
@@ -77,10 +147,10 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ yamlContent }) => {
   };
 
   // Debounced validation
-  const runValidation = useCallback(async (content: string) => {
+  const runValidation = useCallback(async (content: string, settings?: LintRuleSettings, customRules?: LintRule[]) => {
     setIsValidating(true);
     try {
-      const result = await validateOpenApiSpec(content);
+      const result = await validateOpenApiSpec(content, settings, customRules);
       setValidationResult(result);
     } catch (error) {
       setValidationResult({
@@ -96,15 +166,89 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ yamlContent }) => {
   useEffect(() => {
     const timeoutId = setTimeout(() => {
       if (yamlContent) {
-        runValidation(yamlContent);
+        runValidation(yamlContent, lintRules, importedRuleset?.rules);
       }
     }, 500); // Debounce validation by 500ms
 
     return () => clearTimeout(timeoutId);
-  }, [yamlContent, runValidation]);
+  }, [yamlContent, lintRules, importedRuleset, runValidation]);
+
+  useEffect(() => () => clearTimeout(editTimeoutRef.current), []);
+
+  const generatedContent = outputFormat === 'json' ? jsonContent : yamlContent;
+  const outputContent = draft ?? generatedContent;
+
+  // Apply the edited text to the form, leaving the form as it was while the text doesn't parse
+  const applyDraft = (content: string): boolean => {
+    const result = importYamlDocument(content);
+    setDraftErrors(result.errors);
+    if (result.success && result.document) {
+      onEdit(result.document);
+      return true;
+    }
+    return false;
+  };
+
+  const handleEdit = (content: string) => {
+    setDraft(content);
+    clearTimeout(editTimeoutRef.current);
+    editTimeoutRef.current = setTimeout(() => applyDraft(content), EDIT_DEBOUNCE_MS);
+  };
+
+  // Once applied, show the regenerated output again; invalid text stays until it's fixed or discarded
+  const handleEditorBlur = () => {
+    if (draft === null) return;
+    clearTimeout(editTimeoutRef.current);
+    if (applyDraft(draft)) {
+      setDraft(null);
+    }
+  };
+
+  const discardDraft = () => {
+    clearTimeout(editTimeoutRef.current);
+    setDraft(null);
+    setDraftErrors([]);
+  };
+
+  const handleFormatChange = (format: OutputFormat) => {
+    discardDraft();
+    setOutputFormat(format);
+  };
+
+  // Show the issue's line in the YAML output and let the form reveal the field
+  const handleIssueClick = (issue: ValidationError) => {
+    if (issue.line) {
+      setHighlightedLine(issue.line);
+      if (outputFormat !== 'yaml') handleFormatChange('yaml');
+      setActiveTab(1);
+    }
+    onIssueClick?.(issue);
+  };
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(yamlContent);
+    navigator.clipboard.writeText(outputContent);
+  };
+
+  const handleDownload = (format: OutputFormat) => {
+    const { filename, mimeType } = OUTPUT_FILES[format];
+    downloadFile(format === 'json' ? jsonContent : yamlContent, filename, mimeType);
+    setDownloadAnchorEl(null);
+  };
+
+  const handleDownloadClient = () => {
+    downloadFile(generateClient(document), CLIENT_FILENAME, 'text/typescript');
+    setDownloadAnchorEl(null);
+  };
+
+  const handleDownloadJsonSchemas = () => {
+    downloadFile(createZip(generateJsonSchemaBundle(document)), JSON_SCHEMAS_FILENAME, 'application/zip');
+    setDownloadAnchorEl(null);
+  };
+
+  const handleDownloadServerStubs = (framework: ServerFramework) => {
+    const zip = createZip(generateServerStubs(document, framework));
+    downloadFile(zip, SERVER_STUB_FILES[framework].filename, 'application/zip');
+    setDownloadAnchorEl(null);
   };
 
   const getStatusIcon = (): React.ReactElement | undefined => {
@@ -186,8 +330,35 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ yamlContent }) => {
             sx={{ color: '#fff', borderColor: '#fff', '&:hover': { borderColor: '#ddd', bgcolor: 'rgba(255,255,255,0.1)' } }}
             onClick={handleCopy}
           >
-            Copy YAML
+            Copy {outputFormat.toUpperCase()}
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<DownloadIcon />}
+            sx={{ color: '#fff', borderColor: '#fff', '&:hover': { borderColor: '#ddd', bgcolor: 'rgba(255,255,255,0.1)' } }}
+            onClick={(e) => setDownloadAnchorEl(e.currentTarget)}
+          >
+            Download
           </Button>
+          <Menu
+            anchorEl={downloadAnchorEl}
+            open={Boolean(downloadAnchorEl)}
+            onClose={() => setDownloadAnchorEl(null)}
+          >
+            <MenuItem onClick={() => handleDownload('yaml')}>{OUTPUT_FILES.yaml.filename}</MenuItem>
+            <MenuItem onClick={() => handleDownload('json')}>{OUTPUT_FILES.json.filename}</MenuItem>
+            <Divider />
+            <MenuItem onClick={handleDownloadClient}>TypeScript client ({CLIENT_FILENAME})</MenuItem>
+            <MenuItem onClick={handleDownloadJsonSchemas} disabled={document.schemas.every((schema) => !schema.name)}>
+              JSON Schemas ({JSON_SCHEMAS_FILENAME})
+            </MenuItem>
+            {(Object.keys(SERVER_STUB_FILES) as ServerFramework[]).map((framework) => (
+              <MenuItem key={framework} onClick={() => handleDownloadServerStubs(framework)}>
+                {SERVER_STUB_FILES[framework].label} ({SERVER_STUB_FILES[framework].filename})
+              </MenuItem>
+            ))}
+          </Menu>
         </Box>
       </Box>
       
@@ -218,7 +389,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ yamlContent }) => {
             sx={{ gap: 0.5 }}
           />
           <Tab 
-            label="YAML Output" 
+            label={`${outputFormat.toUpperCase()} Output`} 
             icon={<CodeIcon sx={{ fontSize: 18 }} />} 
             iconPosition="start"
             sx={{ gap: 0.5 }}
@@ -266,23 +437,82 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ yamlContent }) => {
       )}
 
       {activeTab === 1 && (
-        <Box
-          sx={{
-            bgcolor: '#011627',
-            overflow: 'auto',
-            maxHeight: 'calc(100vh - 280px)',
-            minHeight: 400,
-          }}
-        >
-          <YamlHighlighter code={yamlContent} fontSize={fontSize} />
+        <Box sx={{ bgcolor: '#011627' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', px: 2, pt: 1.5 }}>
+            <ToggleButtonGroup
+              value={outputFormat}
+              exclusive
+              size="small"
+              onChange={(_, value: OutputFormat | null) => value && handleFormatChange(value)}
+              sx={{
+                '& .MuiToggleButton-root': {
+                  color: '#9ca3af',
+                  borderColor: '#4b5563',
+                  px: 1.5,
+                  py: 0.25,
+                  '&.Mui-selected': { color: '#fff', bgcolor: 'rgba(59,130,246,0.3)' },
+                },
+              }}
+            >
+              <ToggleButton value="yaml">YAML</ToggleButton>
+              <ToggleButton value="json">JSON</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+          {draftErrors.length > 0 && (
+            <Alert
+              severity="error"
+              sx={{ mx: 2, mt: 1.5, py: 0, '& .MuiAlert-message': { whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '0.75rem' } }}
+              action={
+                <Button color="inherit" size="small" onClick={discardDraft}>
+                  Discard edits
+                </Button>
+              }
+            >
+              {draftErrors.join('\n')}
+              {'\nThe form keeps its last valid state until this is fixed.'}
+            </Alert>
+          )}
+          <Box
+            sx={{
+              overflow: 'auto',
+              maxHeight: 'calc(100vh - 330px)',
+              minHeight: 400,
+            }}
+            onBlur={handleEditorBlur}
+          >
+            <YamlHighlighter
+              code={outputContent}
+              fontSize={fontSize}
+              language={outputFormat}
+              highlightLine={outputFormat === 'yaml' && draft === null ? highlightedLine : undefined}
+              errorLine={draft !== null ? getErrorLine(draftErrors) : undefined}
+              onChange={handleEdit}
+            />
+          </Box>
         </Box>
       )}
 
       {activeTab === 2 && (
         <Box sx={{ maxHeight: 'calc(100vh - 280px)', overflow: 'auto' }}>
-          <ValidationPanel validationResult={validationResult} isValidating={isValidating} />
+          <ValidationPanel
+            validationResult={validationResult}
+            isValidating={isValidating}
+            onErrorClick={handleIssueClick}
+            onConfigureRules={() => setLintRulesOpen(true)}
+          />
         </Box>
       )}
+
+      <LintRulesDialog
+        open={lintRulesOpen}
+        settings={lintRules || {}}
+        importedRuleset={importedRuleset}
+        onClose={() => setLintRulesOpen(false)}
+        onChange={onLintRuleChange}
+        onReset={onResetLintRules}
+        onImportRuleset={onSpectralRulesetChange}
+        onRemoveRuleset={() => onSpectralRulesetChange(undefined)}
+      />
     </Card>
   );
 };
\ No newline at end of file
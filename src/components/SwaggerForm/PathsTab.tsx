@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   DndContext,
   closestCenter,
@@ -19,12 +19,10 @@ import {
   AccordionSummary,
   Box,
   Button,
-  Checkbox,
   Chip,
   Divider,
   FormControl,
   FormControlLabel,
-  FormGroup,
   IconButton,
   InputLabel,
   MenuItem,
@@ -41,18 +39,26 @@ import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import DescriptionIcon from '@mui/icons-material/Description';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
-import type { SwaggerPath, PathOperation, SwaggerSchema, PathParameter, PathResponse, RequestBody, SwaggerSecurityScheme } from '../../types/swagger';
+import type { SwaggerPath, PathOperation, SwaggerSchema, PathParameter, PathResponse, ResponseHeader, RequestBody, SwaggerSecurityScheme, SecurityRequirement, SwaggerComponents } from '../../types/swagger';
 import { getMethodColor } from '../../constants/httpMethods';
+import { CONTENT_TYPES, DEFAULT_RESPONSE_CONTENT_TYPE, HEADER_TYPES } from '../../constants/contentTypes';
 import { SortableItem } from './SortableItem';
 import { MarkdownEditor } from './MarkdownEditor';
+import { SecurityRequirementsEditor } from './SecurityRequirementsEditor';
+import { ComponentRefRow } from './ComponentRefRow';
+import { ExampleRefsSelect } from './ExampleRefsSelect';
+import { getComponentNames } from '../../utils/componentRefs';
+import { formFieldId, type FormLocation } from '../../utils/formLocation';
 
 interface PathsTabProps {
   paths: SwaggerPath[];
   schemas: SwaggerSchema[];
   securitySchemes: SwaggerSecurityScheme[];
+  components: SwaggerComponents;
   onAdd: () => void;
   onUpdate: (index: number, field: string, value: unknown) => void;
   onRemove: (index: number) => void;
+  onUpdateOperation: (pathIndex: number, operationIndex: number, field: keyof PathOperation, value: unknown) => void;
   onAddOperation: (pathIndex: number, method: PathOperation['method']) => void;
   onRemoveOperation: (pathIndex: number, operationIndex: number) => void;
   onDuplicate: (pathIndex: number, operationIndex: number) => void;
@@ -60,24 +66,54 @@ interface PathsTabProps {
   onAddParameter: (pathIndex: number, operationIndex: number) => void;
   onUpdateParameter: (pathIndex: number, operationIndex: number, paramIndex: number, field: keyof PathParameter, value: unknown) => void;
   onRemoveParameter: (pathIndex: number, operationIndex: number, paramIndex: number) => void;
+  onAddParameterRef: (pathIndex: number, operationIndex: number, name: string) => void;
   onAddResponse: (pathIndex: number, operationIndex: number) => void;
-  onUpdateResponse: (pathIndex: number, operationIndex: number, respIndex: number, field: keyof PathResponse, value: string) => void;
+  onUpdateResponse: (pathIndex: number, operationIndex: number, respIndex: number, field: keyof PathResponse, value: unknown) => void;
   onRemoveResponse: (pathIndex: number, operationIndex: number, respIndex: number) => void;
   onAddCommonErrorResponses: (pathIndex: number, operationIndex: number) => void;
+  onAddResponseRef: (pathIndex: number, operationIndex: number, name: string) => void;
+  onAddResponseHeader: (pathIndex: number, operationIndex: number, respIndex: number) => void;
+  onUpdateResponseHeader: (pathIndex: number, operationIndex: number, respIndex: number, headerIndex: number, field: keyof ResponseHeader, value: unknown) => void;
+  onRemoveResponseHeader: (pathIndex: number, operationIndex: number, respIndex: number, headerIndex: number) => void;
+  onAddResponseHeaderRef: (pathIndex: number, operationIndex: number, respIndex: number, name: string) => void;
   onAddRequestBody: (pathIndex: number, operationIndex: number) => void;
   onUpdateRequestBody: (pathIndex: number, operationIndex: number, field: keyof RequestBody, value: unknown) => void;
   onRemoveRequestBody: (pathIndex: number, operationIndex: number) => void;
+  focusLocation?: FormLocation | null; // Path/operation to expand when a validation issue is clicked
 }
 
 const HTTP_METHODS: PathOperation['method'][] = ['get', 'post', 'put', 'delete', 'patch'];
 
+const STATUS_CODES = ['200', '201', '204', '400', '401', '403', '404', '500'];
+
+type SecurityMode = 'inherit' | 'none' | 'custom';
+
+const getSecurityMode = (operation: PathOperation): SecurityMode => {
+  if (operation.security === undefined) return 'inherit';
+  return operation.security.length === 0 ? 'none' : 'custom';
+};
+
+const getSecurityForMode = (
+  mode: SecurityMode,
+  securitySchemes: SwaggerSecurityScheme[]
+): SecurityRequirement[] | undefined => {
+  if (mode === 'inherit') return undefined;
+  const firstScheme = securitySchemes.find((scheme) => scheme.name);
+  if (mode === 'custom' && firstScheme) {
+    return [{ [firstScheme.name]: [] }];
+  }
+  return [];
+};
+
 export const PathsTab: React.FC<PathsTabProps> = ({
   paths,
   schemas,
   securitySchemes,
+  components,
   onAdd,
   onUpdate,
   onRemove,
+  onUpdateOperation,
   onAddOperation,
   onRemoveOperation,
   onDuplicate,
@@ -85,14 +121,40 @@ export const PathsTab: React.FC<PathsTabProps> = ({
   onAddParameter,
   onUpdateParameter,
   onRemoveParameter,
+  onAddParameterRef,
   onAddResponse,
   onUpdateResponse,
   onRemoveResponse,
   onAddCommonErrorResponses,
+  onAddResponseRef,
+  onAddResponseHeader,
+  onUpdateResponseHeader,
+  onRemoveResponseHeader,
+  onAddResponseHeaderRef,
   onAddRequestBody,
   onUpdateRequestBody,
   onRemoveRequestBody,
+  focusLocation,
 }) => {
+  // Accordions the user opened or closed; the rest keep their default state
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [revealedLocation, setRevealedLocation] = useState<FormLocation | null | undefined>(null);
+  if (focusLocation !== revealedLocation) {
+    setRevealedLocation(focusLocation);
+    if (focusLocation?.pathIndex !== undefined) {
+      const { pathIndex, operationIndex } = focusLocation;
+      setExpanded((prev) => ({
+        ...prev,
+        [`path-${pathIndex}`]: true,
+        ...(operationIndex !== undefined ? { [`operation-${pathIndex}-${operationIndex}`]: true } : {}),
+      }));
+    }
+  }
+
+  const toggleExpanded = (key: string) => (_: React.SyntheticEvent, isExpanded: boolean) => {
+    setExpanded((prev) => ({ ...prev, [key]: isExpanded }));
+  };
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -100,6 +162,12 @@ export const PathsTab: React.FC<PathsTabProps> = ({
     })
   );
 
+  const parameterNames = getComponentNames(components, 'parameters');
+  const responseNames = getComponentNames(components, 'responses');
+  const requestBodyNames = getComponentNames(components, 'requestBodies');
+  const headerNames = getComponentNames(components, 'headers');
+  const exampleNames = getComponentNames(components, 'examples');
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     if (over && active.id !== over.id) {
@@ -131,7 +199,8 @@ export const PathsTab: React.FC<PathsTabProps> = ({
               {paths.map((path, pathIndex) => (
                 <SortableItem key={`path-${pathIndex}`} id={`path-${pathIndex}`}>
                   <Accordion
-                    defaultExpanded
+                    expanded={expanded[`path-${pathIndex}`] ?? true}
+                    onChange={toggleExpanded(`path-${pathIndex}`)}
                     sx={{
                       borderLeft: '4px solid #1976d2',
                       '&:before': { display: 'none' },
@@ -157,6 +226,7 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                         {/* Path Management */}
                         <Box>
                           <TextField
+                            id={formFieldId('paths', pathIndex, 'path')}
                             label="Path"
                             value={path.path}
                             onChange={(e) => onUpdate(pathIndex, 'path', e.target.value)}
@@ -191,7 +261,8 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                             {path.operations.map((operation, opIndex) => (
                               <Accordion
                                 key={`${pathIndex}-${opIndex}`}
-                                defaultExpanded={path.operations.length === 1}
+                                expanded={expanded[`operation-${pathIndex}-${opIndex}`] ?? path.operations.length === 1}
+                                onChange={toggleExpanded(`operation-${pathIndex}-${opIndex}`)}
                                 sx={{
                                   borderLeft: `4px solid ${getMethodColor(operation.method)}`,
                                   bgcolor: '#f9fafb',
@@ -210,29 +281,29 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                   <Stack spacing={2}>
                                     <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
                                       <TextField
+                                        id={formFieldId('paths', pathIndex, opIndex, 'summary')}
                                         label="Summary"
                                         value={operation.summary}
-                                        onChange={() => {
-                                          // TODO: Add dedicated handler to update operation fields in hook
-                                          // For now, summary is displayed but not editable inline
-                                        }}
+                                        onChange={(e) => onUpdateOperation(pathIndex, opIndex, 'summary', e.target.value)}
                                         placeholder="Short summary"
                                         size="small"
-                                        disabled
                                       />
                                       <TextField
+                                        id={formFieldId('paths', pathIndex, opIndex, 'operationId')}
                                         label="Operation ID"
                                         value={operation.operationId}
+                                        onChange={(e) => onUpdateOperation(pathIndex, opIndex, 'operationId', e.target.value)}
                                         placeholder="getPaymentPlans"
                                         size="small"
-                                        disabled
                                       />
                                     </Box>
 
                                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
                                       <TextField
+                                        id={formFieldId('paths', pathIndex, opIndex, 'description')}
                                         label="Description"
                                         value={operation.description}
+                                        onChange={(e) => onUpdateOperation(pathIndex, opIndex, 'description', e.target.value)}
                                         placeholder="Detailed description..."
                                         size="small"
                                         fullWidth
@@ -240,7 +311,14 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                         rows={2}
                                       />
                                       <FormControlLabel
-                                        control={<Switch checked={operation.deprecated || false} size="small" color="warning" />}
+                                        control={
+                                          <Switch
+                                            checked={operation.deprecated || false}
+                                            onChange={(e) => onUpdateOperation(pathIndex, opIndex, 'deprecated', e.target.checked)}
+                                            size="small"
+                                            color="warning"
+                                          />
+                                        }
                                         label="Deprecated"
                                         sx={{ minWidth: 120 }}
                                       />
@@ -249,16 +327,29 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                     {/* Security */}
                                     {securitySchemes.length > 0 && (
                                       <Box>
-                                        <Typography variant="caption" sx={{ fontWeight: 600 }}>Security</Typography>
-                                        <FormGroup row>
-                                          {securitySchemes.map((scheme) => (
-                                            <FormControlLabel
-                                              key={scheme.name}
-                                              control={<Checkbox checked={operation.security?.includes(scheme.name) || false} size="small" />}
-                                              label={`${scheme.name}`}
-                                            />
-                                          ))}
-                                        </FormGroup>
+                                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+                                          <Typography variant="caption" sx={{ fontWeight: 600 }}>Security</Typography>
+                                          <FormControl size="small" sx={{ width: 220 }}>
+                                            <Select
+                                              value={getSecurityMode(operation)}
+                                              onChange={(e) => {
+                                                const security = getSecurityForMode(e.target.value as SecurityMode, securitySchemes);
+                                                onUpdateOperation(pathIndex, opIndex, 'security', security);
+                                              }}
+                                            >
+                                              <MenuItem value="inherit">Inherit global security</MenuItem>
+                                              <MenuItem value="none">No auth (public)</MenuItem>
+                                              <MenuItem value="custom">Custom</MenuItem>
+                                            </Select>
+                                          </FormControl>
+                                        </Box>
+                                        {getSecurityMode(operation) === 'custom' && (
+                                          <SecurityRequirementsEditor
+                                            requirements={operation.security || []}
+                                            securitySchemes={securitySchemes}
+                                            onChange={(requirements) => onUpdateOperation(pathIndex, opIndex, 'security', requirements)}
+                                          />
+                                        )}
                                       </Box>
                                     )}
 
@@ -268,12 +359,30 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                     <Box>
                                       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                                         <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>Parameters</Typography>
-                                        <Button size="small" startIcon={<AddIcon />} onClick={() => onAddParameter(pathIndex, opIndex)}>
-                                          Add
-                                        </Button>
+                                        <Box sx={{ display: 'flex', gap: 1 }}>
+                                          <Button
+                                            size="small"
+                                            disabled={parameterNames.length === 0}
+                                            onClick={() => onAddParameterRef(pathIndex, opIndex, parameterNames[0])}
+                                          >
+                                            Add $ref
+                                          </Button>
+                                          <Button size="small" startIcon={<AddIcon />} onClick={() => onAddParameter(pathIndex, opIndex)}>
+                                            Add
+                                          </Button>
+                                        </Box>
                                       </Box>
                                       <Stack spacing={1}>
-                                        {operation.parameters.map((param, paramIndex) => (
+                                        {operation.parameters.map((param, paramIndex) => param.$ref ? (
+                                          <ComponentRefRow
+                                            key={paramIndex}
+                                            kind="parameters"
+                                            name={param.$ref}
+                                            names={parameterNames}
+                                            onChange={(name) => onUpdateParameter(pathIndex, opIndex, paramIndex, '$ref', name)}
+                                            onRemove={() => onRemoveParameter(pathIndex, opIndex, paramIndex)}
+                                          />
+                                        ) : (
                                           <Box
                                             key={paramIndex}
                                             sx={{
@@ -288,6 +397,7 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                             }}
                                           >
                                             <TextField
+                                              id={formFieldId('paths', pathIndex, opIndex, 'parameters', paramIndex)}
                                               label="Name"
                                               value={param.name}
                                               onChange={(e) => onUpdateParameter(pathIndex, opIndex, paramIndex, 'name', e.target.value)}
@@ -338,11 +448,32 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                         <Box>
                                           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                                             <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>Request Body</Typography>
-                                            <Button size="small" startIcon={<AddIcon />} onClick={() => onAddRequestBody(pathIndex, opIndex)}>
-                                              Add
-                                            </Button>
+                                            <Box sx={{ display: 'flex', gap: 1 }}>
+                                              <Button
+                                                size="small"
+                                                disabled={requestBodyNames.length === 0}
+                                                onClick={() => {
+                                                  onAddRequestBody(pathIndex, opIndex);
+                                                  onUpdateRequestBody(pathIndex, opIndex, '$ref', requestBodyNames[0]);
+                                                }}
+                                              >
+                                                Add $ref
+                                              </Button>
+                                              <Button size="small" startIcon={<AddIcon />} onClick={() => onAddRequestBody(pathIndex, opIndex)}>
+                                                Add
+                                              </Button>
+                                            </Box>
                                           </Box>
-                                          {operation.requestBody && (
+                                          {operation.requestBody?.$ref && (
+                                            <ComponentRefRow
+                                              kind="requestBodies"
+                                              name={operation.requestBody.$ref}
+                                              names={requestBodyNames}
+                                              onChange={(name) => onUpdateRequestBody(pathIndex, opIndex, '$ref', name)}
+                                              onRemove={() => onRemoveRequestBody(pathIndex, opIndex)}
+                                            />
+                                          )}
+                                          {operation.requestBody && !operation.requestBody.$ref && (
                                             <Box sx={{ p: 1.5, bgcolor: '#fff', borderRadius: 1, border: '1px solid #e5e7eb' }}>
                                               <Box sx={{ display: 'flex', gap: 1, mb: 1.5 }}>
                                                 <TextField
@@ -365,6 +496,11 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                                     ))}
                                                   </Select>
                                                 </FormControl>
+                                                <ExampleRefsSelect
+                                                  value={operation.requestBody.exampleRefs || []}
+                                                  names={exampleNames}
+                                                  onChange={(value) => onUpdateRequestBody(pathIndex, opIndex, 'exampleRefs', value)}
+                                                />
                                                 <IconButton onClick={() => onRemoveRequestBody(pathIndex, opIndex)} color="error" size="small">
                                                   <DeleteIcon />
                                                 </IconButton>
@@ -392,13 +528,46 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                               Errors
                                             </Button>
                                           </Tooltip>
+                                          <Button
+                                            size="small"
+                                            disabled={responseNames.length === 0}
+                                            onClick={() => onAddResponseRef(pathIndex, opIndex, responseNames[0])}
+                                          >
+                                            Add $ref
+                                          </Button>
                                           <Button size="small" startIcon={<AddIcon />} onClick={() => onAddResponse(pathIndex, opIndex)}>
                                             Add
                                           </Button>
                                         </Box>
                                       </Box>
                                       <Stack spacing={1.5}>
-                                        {operation.responses.map((resp, respIndex) => (
+                                        {operation.responses.map((resp, respIndex) => resp.$ref ? (
+                                          <ComponentRefRow
+                                            key={respIndex}
+                                            kind="responses"
+                                            name={resp.$ref}
+                                            names={responseNames}
+                                            onChange={(name) => onUpdateResponse(pathIndex, opIndex, respIndex, '$ref', name)}
+                                            onRemove={() => onRemoveResponse(pathIndex, opIndex, respIndex)}
+                                          >
+                                            <FormControl size="small" sx={{ width: 100 }}>
+                                              <InputLabel>Status</InputLabel>
+                                              <Select
+                                                id={formFieldId('paths', pathIndex, opIndex, 'responses', respIndex)}
+                                                value={resp.statusCode}
+                                                label="Status"
+                                                onChange={(e) => onUpdateResponse(pathIndex, opIndex, respIndex, 'statusCode', e.target.value)}
+                                              >
+                                                {STATUS_CODES.map((code) => (
+                                                  <MenuItem key={code} value={code}>{code}</MenuItem>
+                                                ))}
+                                                {!STATUS_CODES.includes(resp.statusCode) && (
+                                                  <MenuItem value={resp.statusCode}>{resp.statusCode}</MenuItem>
+                                                )}
+                                              </Select>
+                                            </FormControl>
+                                          </ComponentRefRow>
+                                        ) : (
                                           <Box
                                             key={respIndex}
                                             sx={{ p: 1.5, bgcolor: '#fff', borderRadius: 1, border: '1px solid #e5e7eb' }}
@@ -407,21 +576,35 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                               <FormControl size="small" sx={{ width: 100 }}>
                                                 <InputLabel>Status</InputLabel>
                                                 <Select
+                                                  id={formFieldId('paths', pathIndex, opIndex, 'responses', respIndex)}
                                                   value={resp.statusCode}
                                                   label="Status"
                                                   onChange={(e) => onUpdateResponse(pathIndex, opIndex, respIndex, 'statusCode', e.target.value)}
                                                 >
-                                                  <MenuItem value="200">200</MenuItem>
-                                                  <MenuItem value="201">201</MenuItem>
-                                                  <MenuItem value="204">204</MenuItem>
-                                                  <MenuItem value="400">400</MenuItem>
-                                                  <MenuItem value="401">401</MenuItem>
-                                                  <MenuItem value="403">403</MenuItem>
-                                                  <MenuItem value="404">404</MenuItem>
-                                                  <MenuItem value="500">500</MenuItem>
+                                                  {STATUS_CODES.map((code) => (
+                                                    <MenuItem key={code} value={code}>{code}</MenuItem>
+                                                  ))}
+                                                  {!STATUS_CODES.includes(resp.statusCode) && (
+                                                    <MenuItem value={resp.statusCode}>{resp.statusCode}</MenuItem>
+                                                  )}
+                                                </Select>
+                                              </FormControl>
+                                              <FormControl size="small" sx={{ width: 200 }} disabled={resp.noContent}>
+                                                <InputLabel>Content Type</InputLabel>
+                                                <Select
+                                                  value={resp.contentType || DEFAULT_RESPONSE_CONTENT_TYPE}
+                                                  label="Content Type"
+                                                  onChange={(e) => onUpdateResponse(pathIndex, opIndex, respIndex, 'contentType', e.target.value)}
+                                                >
+                                                  {CONTENT_TYPES.map((ct) => (
+                                                    <MenuItem key={ct} value={ct}>{ct}</MenuItem>
+                                                  ))}
+                                                  {resp.contentType && !(CONTENT_TYPES as readonly string[]).includes(resp.contentType) && (
+                                                    <MenuItem value={resp.contentType}>{resp.contentType}</MenuItem>
+                                                  )}
                                                 </Select>
                                               </FormControl>
-                                              <FormControl size="small" sx={{ width: 150 }}>
+                                              <FormControl size="small" sx={{ width: 150 }} disabled={resp.noContent}>
                                                 <InputLabel>Schema</InputLabel>
                                                 <Select
                                                   value={resp.schemaRef}
@@ -434,11 +617,101 @@ export const PathsTab: React.FC<PathsTabProps> = ({
                                                   ))}
                                                 </Select>
                                               </FormControl>
+                                              <ExampleRefsSelect
+                                                value={resp.exampleRefs || []}
+                                                names={exampleNames}
+                                                disabled={resp.noContent}
+                                                onChange={(value) => onUpdateResponse(pathIndex, opIndex, respIndex, 'exampleRefs', value)}
+                                              />
+                                              <Tooltip title="Response has no body (e.g. 204 No Content)">
+                                                <FormControlLabel
+                                                  control={
+                                                    <Switch
+                                                      checked={resp.noContent || false}
+                                                      onChange={(e) => onUpdateResponse(pathIndex, opIndex, respIndex, 'noContent', e.target.checked)}
+                                                      size="small"
+                                                    />
+                                                  }
+                                                  label="No body"
+                                                  sx={{ whiteSpace: 'nowrap' }}
+                                                />
+                                              </Tooltip>
                                               <Box sx={{ flex: 1 }} />
                                               <IconButton onClick={() => onRemoveResponse(pathIndex, opIndex, respIndex)} color="error" size="small">
                                                 <DeleteIcon />
                                               </IconButton>
                                             </Box>
+                                            <Box sx={{ mb: 1.5 }}>
+                                              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                                                <Typography variant="caption" sx={{ fontWeight: 600 }}>Headers</Typography>
+                                                <Box sx={{ display: 'flex', gap: 1 }}>
+                                                  <Button
+                                                    size="small"
+                                                    disabled={headerNames.length === 0}
+                                                    onClick={() => onAddResponseHeaderRef(pathIndex, opIndex, respIndex, headerNames[0])}
+                                                  >
+                                                    Add $ref
+                                                  </Button>
+                                                  <Button size="small" startIcon={<AddIcon />} onClick={() => onAddResponseHeader(pathIndex, opIndex, respIndex)}>
+                                                    Add Header
+                                                  </Button>
+                                                </Box>
+                                              </Box>
+                                              <Stack spacing={1}>
+                                                {(resp.headers || []).map((header, headerIndex) => header.$ref ? (
+                                                  <ComponentRefRow
+                                                    key={headerIndex}
+                                                    kind="headers"
+                                                    name={header.$ref}
+                                                    names={headerNames}
+                                                    onChange={(name) => onUpdateResponseHeader(pathIndex, opIndex, respIndex, headerIndex, '$ref', name)}
+                                                    onRemove={() => onRemoveResponseHeader(pathIndex, opIndex, respIndex, headerIndex)}
+                                                  >
+                                                    <TextField
+                                                      label="Name"
+                                                      value={header.name}
+                                                      onChange={(e) => onUpdateResponseHeader(pathIndex, opIndex, respIndex, headerIndex, 'name', e.target.value)}
+                                                      placeholder="X-Request-Id"
+                                                      size="small"
+                                                      sx={{ width: 170 }}
+                                                    />
+                                                  </ComponentRefRow>
+                                                ) : (
+                                                  <Box key={headerIndex} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                                                    <TextField
+                                                      label="Name"
+                                                      value={header.name}
+                                                      onChange={(e) => onUpdateResponseHeader(pathIndex, opIndex, respIndex, headerIndex, 'name', e.target.value)}
+                                                      placeholder="X-Request-Id"
+                                                      size="small"
+                                                      sx={{ width: 170 }}
+                                                    />
+                                                    <FormControl size="small" sx={{ width: 110 }}>
+                                                      <InputLabel>Type</InputLabel>
+                                                      <Select
+                                                        value={header.schema.type || 'string'}
+                                                        label="Type"
+                                                        onChange={(e) => onUpdateResponseHeader(pathIndex, opIndex, respIndex, headerIndex, 'schema', { ...header.schema, type: e.target.value })}
+                                                      >
+                                                        {HEADER_TYPES.map((type) => (
+                                                          <MenuItem key={type} value={type}>{type}</MenuItem>
+                                                        ))}
+                                                      </Select>
+                                                    </FormControl>
+                                                    <TextField
+                                                      label="Description"
+                                                      value={header.description}
+                                                      onChange={(e) => onUpdateResponseHeader(pathIndex, opIndex, respIndex, headerIndex, 'description', e.target.value)}
+                                                      size="small"
+                                                      sx={{ flex: 1 }}
+                                                    />
+                                                    <IconButton onClick={() => onRemoveResponseHeader(pathIndex, opIndex, respIndex, headerIndex)} color="error" size="small">
+                                                      <DeleteIcon sx={{ fontSize: 18 }} />
+                                                    </IconButton>
+                                                  </Box>
+                                                ))}
+                                              </Stack>
+                                            </Box>
                                             <MarkdownEditor
                                               value={resp.description}
                                               onChange={(value) => onUpdateResponse(pathIndex, opIndex, respIndex, 'description', value)}
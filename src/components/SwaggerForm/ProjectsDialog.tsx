@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import CheckIcon from '@mui/icons-material/Check';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { ProjectMeta } from '../../utils/localStorage';
+
+interface ProjectsDialogProps {
+  open: boolean;
+  projects: ProjectMeta[];
+  currentProjectId?: string;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Lists the projects saved in browser storage and manages them
+ */
+export const ProjectsDialog: React.FC<ProjectsDialogProps> = ({
+  open,
+  projects,
+  currentProjectId,
+  onClose,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setEditing(null);
+    setPendingDeleteId(null);
+    onClose();
+  };
+
+  const handleCreate = () => {
+    onCreate(newName.trim() || 'Untitled API');
+    setNewName('');
+    handleClose();
+  };
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) {
+      onRename(editing.id, editing.name.trim());
+    }
+    setEditing(null);
+  };
+
+  const sortedProjects = [...projects].sort((a, b) => (b.lastSaved || b.createdAt).localeCompare(a.lastSaved || a.createdAt));
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Projects</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            label="New project name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="e.g., Payments API"
+            size="small"
+            fullWidth
+          />
+          <Button variant="contained" startIcon={<AddIcon />} onClick={handleCreate} sx={{ whiteSpace: 'nowrap' }}>
+            Create
+          </Button>
+        </Box>
+        <List dense disablePadding>
+          {sortedProjects.map((project) => {
+            const isCurrent = project.id === currentProjectId;
+            const isEditing = editing?.id === project.id;
+            return (
+              <ListItem
+                key={project.id}
+                disablePadding
+                secondaryAction={
+                  pendingDeleteId === project.id ? (
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <Button size="small" onClick={() => setPendingDeleteId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="small"
+                        color="error"
+                        variant="contained"
+                        onClick={() => {
+                          onDelete(project.id);
+                          setPendingDeleteId(null);
+                        }}
+                      >
+                        Delete
+                      </Button>
+                    </Box>
+                  ) : (
+                    <Box>
+                      <Tooltip title={isEditing ? 'Save name' : 'Rename'}>
+                        <IconButton
+                          size="small"
+                          onClick={() => (isEditing ? commitRename() : setEditing({ id: project.id, name: project.name }))}
+                        >
+                          {isEditing ? <CheckIcon fontSize="small" /> : <EditIcon fontSize="small" />}
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Duplicate">
+                        <IconButton size="small" onClick={() => onDuplicate(project.id)}>
+                          <ContentCopyIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => setPendingDeleteId(project.id)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  )
+                }
+              >
+                {isEditing ? (
+                  <Box sx={{ py: 1, pl: 2, pr: 16, width: '100%' }}>
+                    <TextField
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      size="small"
+                      autoFocus
+                      fullWidth
+                    />
+                  </Box>
+                ) : (
+                  <ListItemButton
+                    selected={isCurrent}
+                    onClick={() => {
+                      onOpen(project.id);
+                      handleClose();
+                    }}
+                    sx={{ pr: 16 }}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {project.name}
+                          {isCurrent && <Chip label="Open" size="small" color="primary" />}
+                        </Box>
+                      }
+                      secondary={
+                        project.lastSaved
+                          ? `Last saved ${new Date(project.lastSaved).toLocaleString()}`
+                          : 'Not saved yet'
+                      }
+                    />
+                  </ListItemButton>
+                )}
+              </ListItem>
+            );
+          })}
+        </List>
+        {projects.length === 0 && (
+          <Typography variant="body2" sx={{ color: '#6b7280', textAlign: 'center', py: 2 }}>
+            No saved projects
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import {
   Box,
+  Button,
+  Checkbox,
   FormControl,
   FormControlLabel,
   IconButton,
@@ -14,26 +16,35 @@ import {
   Tooltip,
   Divider,
 } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import SettingsIcon from '@mui/icons-material/Settings';
 import type { SchemaProperty, SwaggerSchema } from '../../types/swagger';
+import { getChildProperties, hasInlineProperties, type PropertyPath } from '../../utils/schemaPropertyTree';
+import { formFieldId } from '../../utils/formLocation';
 
 interface PropertyRowProps {
   prop: SchemaProperty;
-  propIndex: number;
+  path: PropertyPath;
   schemaIndex: number;
   schema: SwaggerSchema;
   schemas: SwaggerSchema[];
-  onUpdateProperty: (schemaIndex: number, propIndex: number, field: keyof SchemaProperty, value: unknown) => void;
-  onRemoveProperty: (schemaIndex: number, propIndex: number) => void;
+  onAddProperty: (schemaIndex: number, parentPath: PropertyPath) => void;
+  onUpdateProperty: (schemaIndex: number, path: PropertyPath, field: keyof SchemaProperty, value: unknown) => void;
+  onRemoveProperty: (schemaIndex: number, path: PropertyPath) => void;
 }
 
+/**
+ * A single schema property. Inline objects (and arrays of inline objects)
+ * render their nested properties recursively as an indented tree.
+ */
 export const PropertyRow: React.FC<PropertyRowProps> = ({
   prop,
-  propIndex,
+  path,
   schemaIndex,
   schema,
   schemas,
+  onAddProperty,
   onUpdateProperty,
   onRemoveProperty,
 }) => {
@@ -51,254 +62,312 @@ export const PropertyRow: React.FC<PropertyRowProps> = ({
   const showOptionsButton = prop.type && !['object', 'array'].includes(prop.type);
   const hasOptionalValues = prop.format || prop.example || prop.enumValues || prop.nullable || prop.deprecated || prop.default || prop.pattern || prop.minLength || prop.maxLength || prop.minimum || prop.maximum;
 
-  return (
-    <Box
-      sx={{
-        display: 'flex',
-        gap: 1,
-        alignItems: 'center',
-        p: 1.5,
-        bgcolor: prop.deprecated ? '#fef3c7' : '#f9fafb',
-        borderRadius: 1,
-        border: prop.deprecated ? '1px dashed #f59e0b' : 'none',
-      }}
-    >
-      <TextField
-        label="Name"
-        value={prop.name}
-        onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'name', e.target.value)}
-        size="small"
-        sx={{ width: 130 }}
-      />
-      <FormControl size="small" sx={{ width: 110 }}>
-        <InputLabel>Type</InputLabel>
-        <Select
-          value={prop.type}
-          label="Type"
-          onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'type', e.target.value)}
-        >
-          <MenuItem value="" disabled>Select a type</MenuItem>
-          <MenuItem value="string">string</MenuItem>
-          <MenuItem value="number">number</MenuItem>
-          <MenuItem value="integer">integer</MenuItem>
-          <MenuItem value="boolean">boolean</MenuItem>
-          <MenuItem value="array">array</MenuItem>
-          <MenuItem value="object">object</MenuItem>
-        </Select>
-      </FormControl>
+  const children = getChildProperties(prop);
 
-      {prop.type === 'object' && (
-        <FormControl size="small" sx={{ width: 130 }}>
-          <InputLabel>Schema Ref</InputLabel>
+  return (
+    <Stack spacing={1}>
+      <Box
+        sx={{
+          display: 'flex',
+          gap: 1,
+          alignItems: 'center',
+          p: 1.5,
+          bgcolor: prop.deprecated ? '#fef3c7' : '#f9fafb',
+          borderRadius: 1,
+          border: prop.deprecated ? '1px dashed #f59e0b' : 'none',
+        }}
+      >
+        <TextField
+          id={formFieldId('schemas', schemaIndex, 'properties', ...path)}
+          label="Name"
+          value={prop.name}
+          onChange={(e) => onUpdateProperty(schemaIndex, path, 'name', e.target.value)}
+          size="small"
+          sx={{ width: 130 }}
+        />
+        <FormControl size="small" sx={{ width: 110 }}>
+          <InputLabel>Type</InputLabel>
           <Select
-            value={prop.$ref || ''}
-            label="Schema Ref"
-            onChange={(e) => onUpdateProperty(schemaIndex, propIndex, '$ref', e.target.value)}
+            value={prop.type}
+            label="Type"
+            onChange={(e) => onUpdateProperty(schemaIndex, path, 'type', e.target.value)}
           >
-            <MenuItem value="">None (inline)</MenuItem>
-            {schemas.filter((s) => s.name !== schema.name).map((s) => (
-              <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
-            ))}
+            <MenuItem value="" disabled>Select a type</MenuItem>
+            <MenuItem value="string">string</MenuItem>
+            <MenuItem value="number">number</MenuItem>
+            <MenuItem value="integer">integer</MenuItem>
+            <MenuItem value="boolean">boolean</MenuItem>
+            <MenuItem value="array">array</MenuItem>
+            <MenuItem value="object">object</MenuItem>
           </Select>
         </FormControl>
-      )}
 
-      {prop.type === 'array' && (
-        <FormControl size="small" sx={{ width: 130 }}>
-          <InputLabel>Items Ref</InputLabel>
-          <Select
-            value={prop.items?.$ref || ''}
-            label="Items Ref"
-            onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'items', { ...prop.items, $ref: e.target.value })}
-          >
-            <MenuItem value="">None (inline)</MenuItem>
-            {schemas.filter((s) => s.name !== schema.name).map((s) => (
-              <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
-            ))}
-          </Select>
-        </FormControl>
-      )}
+        {prop.type === 'object' && (
+          <FormControl size="small" sx={{ width: 130 }}>
+            <InputLabel>Schema Ref</InputLabel>
+            <Select
+              value={prop.$ref || ''}
+              label="Schema Ref"
+              onChange={(e) => onUpdateProperty(schemaIndex, path, '$ref', e.target.value)}
+            >
+              <MenuItem value="">None (inline)</MenuItem>
+              {schemas.filter((s) => s.name !== schema.name).map((s) => (
+                <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        {prop.type === 'array' && !prop.items?.$ref && (
+          <FormControl size="small" sx={{ width: 110 }}>
+            <InputLabel>Items Type</InputLabel>
+            <Select
+              value={prop.items?.type || 'string'}
+              label="Items Type"
+              onChange={(e) => onUpdateProperty(schemaIndex, path, 'items', { ...prop.items, type: e.target.value })}
+            >
+              <MenuItem value="string">string</MenuItem>
+              <MenuItem value="number">number</MenuItem>
+              <MenuItem value="integer">integer</MenuItem>
+              <MenuItem value="boolean">boolean</MenuItem>
+              <MenuItem value="object">object</MenuItem>
+            </Select>
+          </FormControl>
+        )}
 
-      <TextField
-        label="Description"
-        value={prop.description}
-        onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'description', e.target.value)}
-        size="small"
-        sx={{ flex: 1, minWidth: 120 }}
-      />
+        {prop.type === 'array' && (
+          <FormControl size="small" sx={{ width: 130 }}>
+            <InputLabel>Items Ref</InputLabel>
+            <Select
+              value={prop.items?.$ref || ''}
+              label="Items Ref"
+              onChange={(e) => onUpdateProperty(schemaIndex, path, 'items', { ...prop.items, $ref: e.target.value })}
+            >
+              <MenuItem value="">None (inline)</MenuItem>
+              {schemas.filter((s) => s.name !== schema.name).map((s) => (
+                <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
 
-      {showOptionsButton && (
-        <>
-          <Tooltip title="Format, Example, Enum...">
-            <IconButton
-              onClick={handleOpenOptions}
+        <TextField
+          label="Description"
+          value={prop.description}
+          onChange={(e) => onUpdateProperty(schemaIndex, path, 'description', e.target.value)}
+          size="small"
+          sx={{ flex: 1, minWidth: 120 }}
+        />
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={prop.required || false}
+              onChange={(e) => onUpdateProperty(schemaIndex, path, 'required', e.target.checked)}
               size="small"
-              sx={{
-                color: hasOptionalValues ? 'primary.main' : 'action.disabled',
-                bgcolor: hasOptionalValues ? 'primary.50' : 'transparent',
+            />
+          }
+          label="Required"
+          slotProps={{ typography: { variant: 'body2' } }}
+          sx={{ mr: 0 }}
+        />
+
+        {showOptionsButton && (
+          <>
+            <Tooltip title="Format, Example, Enum...">
+              <IconButton
+                onClick={handleOpenOptions}
+                size="small"
+                sx={{
+                  color: hasOptionalValues ? 'primary.main' : 'action.disabled',
+                  bgcolor: hasOptionalValues ? 'primary.50' : 'transparent',
+                }}
+              >
+                <SettingsIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Popover
+              open={open}
+              anchorEl={anchorEl}
+              onClose={handleCloseOptions}
+              anchorOrigin={{
+                vertical: 'bottom',
+                horizontal: 'right',
+              }}
+              transformOrigin={{
+                vertical: 'top',
+                horizontal: 'right',
               }}
             >
-              <SettingsIcon fontSize="small" />
-            </IconButton>
-          </Tooltip>
-          <Popover
-            open={open}
-            anchorEl={anchorEl}
-            onClose={handleCloseOptions}
-            anchorOrigin={{
-              vertical: 'bottom',
-              horizontal: 'right',
-            }}
-            transformOrigin={{
-              vertical: 'top',
-              horizontal: 'right',
-            }}
-          >
-            <Stack spacing={2} sx={{ p: 2, width: 320 }}>
-              <TextField
-                label="Format"
-                value={prop.format || ''}
-                onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'format', e.target.value)}
-                size="small"
-                fullWidth
-                placeholder="e.g., date, date-time, email, uuid"
-                helperText="OpenAPI format hint"
-              />
-              <TextField
-                label="Default Value"
-                value={prop.default || ''}
-                onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'default', e.target.value)}
-                size="small"
-                fullWidth
-                placeholder="Default value"
-              />
-              <TextField
-                label="Example"
-                value={prop.example}
-                onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'example', e.target.value)}
-                size="small"
-                fullWidth
-                placeholder="e.g., john@example.com"
-              />
-              {['string', 'number', 'integer'].includes(prop.type) && (
+              <Stack spacing={2} sx={{ p: 2, width: 320 }}>
                 <TextField
-                  label="Enum Values"
-                  value={prop.enumValues || ''}
-                  onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'enumValues', e.target.value)}
+                  label="Format"
+                  value={prop.format || ''}
+                  onChange={(e) => onUpdateProperty(schemaIndex, path, 'format', e.target.value)}
                   size="small"
                   fullWidth
-                  placeholder="active, inactive, pending"
-                  helperText="Comma-separated allowed values"
+                  placeholder="e.g., date, date-time, email, uuid"
+                  helperText="OpenAPI format hint"
                 />
-              )}
-              
-              {/* String constraints */}
-              {prop.type === 'string' && (
-                <>
+                <TextField
+                  label="Default Value"
+                  value={prop.default || ''}
+                  onChange={(e) => onUpdateProperty(schemaIndex, path, 'default', e.target.value)}
+                  size="small"
+                  fullWidth
+                  placeholder="Default value"
+                />
+                <TextField
+                  label="Example"
+                  value={prop.example}
+                  onChange={(e) => onUpdateProperty(schemaIndex, path, 'example', e.target.value)}
+                  size="small"
+                  fullWidth
+                  placeholder="e.g., john@example.com"
+                />
+                {['string', 'number', 'integer'].includes(prop.type) && (
                   <TextField
-                    label="Pattern (Regex)"
-                    value={prop.pattern || ''}
-                    onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'pattern', e.target.value)}
+                    label="Enum Values"
+                    value={prop.enumValues || ''}
+                    onChange={(e) => onUpdateProperty(schemaIndex, path, 'enumValues', e.target.value)}
                     size="small"
                     fullWidth
-                    placeholder="^[a-zA-Z]+$"
+                    placeholder="active, inactive, pending"
+                    helperText="Comma-separated allowed values"
                   />
+                )}
+              
+                {/* String constraints */}
+                {prop.type === 'string' && (
+                  <>
+                    <TextField
+                      label="Pattern (Regex)"
+                      value={prop.pattern || ''}
+                      onChange={(e) => onUpdateProperty(schemaIndex, path, 'pattern', e.target.value)}
+                      size="small"
+                      fullWidth
+                      placeholder="^[a-zA-Z]+$"
+                    />
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <TextField
+                        label="Min Length"
+                        type="number"
+                        value={prop.minLength ?? ''}
+                        onChange={(e) => onUpdateProperty(schemaIndex, path, 'minLength', e.target.value ? parseInt(e.target.value) : undefined)}
+                        size="small"
+                        sx={{ flex: 1 }}
+                      />
+                      <TextField
+                        label="Max Length"
+                        type="number"
+                        value={prop.maxLength ?? ''}
+                        onChange={(e) => onUpdateProperty(schemaIndex, path, 'maxLength', e.target.value ? parseInt(e.target.value) : undefined)}
+                        size="small"
+                        sx={{ flex: 1 }}
+                      />
+                    </Box>
+                  </>
+                )}
+              
+                {/* Number constraints */}
+                {(prop.type === 'number' || prop.type === 'integer') && (
                   <Box sx={{ display: 'flex', gap: 1 }}>
                     <TextField
-                      label="Min Length"
+                      label="Minimum"
                       type="number"
-                      value={prop.minLength ?? ''}
-                      onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'minLength', e.target.value ? parseInt(e.target.value) : undefined)}
+                      value={prop.minimum ?? ''}
+                      onChange={(e) => onUpdateProperty(schemaIndex, path, 'minimum', e.target.value ? parseFloat(e.target.value) : undefined)}
                       size="small"
                       sx={{ flex: 1 }}
                     />
                     <TextField
-                      label="Max Length"
+                      label="Maximum"
                       type="number"
-                      value={prop.maxLength ?? ''}
-                      onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'maxLength', e.target.value ? parseInt(e.target.value) : undefined)}
+                      value={prop.maximum ?? ''}
+                      onChange={(e) => onUpdateProperty(schemaIndex, path, 'maximum', e.target.value ? parseFloat(e.target.value) : undefined)}
                       size="small"
                       sx={{ flex: 1 }}
                     />
                   </Box>
-                </>
-              )}
+                )}
               
-              {/* Number constraints */}
-              {(prop.type === 'number' || prop.type === 'integer') && (
-                <Box sx={{ display: 'flex', gap: 1 }}>
-                  <TextField
-                    label="Minimum"
-                    type="number"
-                    value={prop.minimum ?? ''}
-                    onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'minimum', e.target.value ? parseFloat(e.target.value) : undefined)}
-                    size="small"
-                    sx={{ flex: 1 }}
+                <Divider />
+              
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={prop.nullable || false}
+                        onChange={(e) => onUpdateProperty(schemaIndex, path, 'nullable', e.target.checked)}
+                        size="small"
+                      />
+                    }
+                    label="Nullable"
                   />
-                  <TextField
-                    label="Maximum"
-                    type="number"
-                    value={prop.maximum ?? ''}
-                    onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'maximum', e.target.value ? parseFloat(e.target.value) : undefined)}
-                    size="small"
-                    sx={{ flex: 1 }}
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={prop.deprecated || false}
+                        onChange={(e) => onUpdateProperty(schemaIndex, path, 'deprecated', e.target.checked)}
+                        size="small"
+                        color="warning"
+                      />
+                    }
+                    label="Deprecated"
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={prop.readOnly || false}
+                        onChange={(e) => onUpdateProperty(schemaIndex, path, 'readOnly', e.target.checked)}
+                        size="small"
+                      />
+                    }
+                    label="Read Only"
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={prop.writeOnly || false}
+                        onChange={(e) => onUpdateProperty(schemaIndex, path, 'writeOnly', e.target.checked)}
+                        size="small"
+                      />
+                    }
+                    label="Write Only"
                   />
                 </Box>
-              )}
-              
-              <Divider />
-              
-              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={prop.nullable || false}
-                      onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'nullable', e.target.checked)}
-                      size="small"
-                    />
-                  }
-                  label="Nullable"
-                />
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={prop.deprecated || false}
-                      onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'deprecated', e.target.checked)}
-                      size="small"
-                      color="warning"
-                    />
-                  }
-                  label="Deprecated"
-                />
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={prop.readOnly || false}
-                      onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'readOnly', e.target.checked)}
-                      size="small"
-                    />
-                  }
-                  label="Read Only"
-                />
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={prop.writeOnly || false}
-                      onChange={(e) => onUpdateProperty(schemaIndex, propIndex, 'writeOnly', e.target.checked)}
-                      size="small"
-                    />
-                  }
-                  label="Write Only"
-                />
-              </Box>
-            </Stack>
-          </Popover>
-        </>
-      )}
+              </Stack>
+            </Popover>
+          </>
+        )}
+
+        <IconButton onClick={() => onRemoveProperty(schemaIndex, path)} color="error" size="small">
+          <DeleteIcon />
+        </IconButton>
+      </Box>
 
-      <IconButton onClick={() => onRemoveProperty(schemaIndex, propIndex)} color="error" size="small">
-        <DeleteIcon />
-      </IconButton>
-    </Box>
+      {hasInlineProperties(prop) && (
+        <Stack spacing={1} sx={{ pl: 3, borderLeft: '2px solid #e5e7eb', ml: 1.5 }}>
+          {children.map((child, childIndex) => (
+            <PropertyRow
+              key={childIndex}
+              prop={child}
+              path={[...path, childIndex]}
+              schemaIndex={schemaIndex}
+              schema={schema}
+              schemas={schemas}
+              onAddProperty={onAddProperty}
+              onUpdateProperty={onUpdateProperty}
+              onRemoveProperty={onRemoveProperty}
+            />
+          ))}
+          <Box>
+            <Button size="small" startIcon={<AddIcon />} onClick={() => onAddProperty(schemaIndex, path)}>
+              {prop.type === 'array' ? 'Add Item Property' : 'Add Nested Property'}
+            </Button>
+          </Box>
+        </Stack>
+      )}
+    </Stack>
   );
 };
\ No newline at end of file
@@ -0,0 +1,190 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { SwaggerSchema, SchemaComposition, DiscriminatorMapping } from '../../types/swagger';
+
+interface SchemaCompositionEditorProps {
+  schema: SwaggerSchema;
+  schemaIndex: number;
+  schemas: SwaggerSchema[];
+  onUpdate: (index: number, field: keyof SwaggerSchema, value: unknown) => void;
+}
+
+const COMPOSITION_OPTIONS: { value: SchemaComposition; label: string; help: string }[] = [
+  { value: 'allOf', label: 'allOf (extends)', help: 'Combines the selected schemas with the properties below' },
+  { value: 'oneOf', label: 'oneOf', help: 'Matches exactly one of the selected schemas' },
+  { value: 'anyOf', label: 'anyOf', help: 'Matches at least one of the selected schemas' },
+];
+
+/**
+ * Edits allOf/oneOf/anyOf composition and the optional discriminator of a schema
+ */
+export const SchemaCompositionEditor: React.FC<SchemaCompositionEditorProps> = ({
+  schema,
+  schemaIndex,
+  schemas,
+  onUpdate,
+}) => {
+  const otherSchemas = schemas.filter((s, i) => i !== schemaIndex && s.name);
+  const refs = schema.compositionRefs || [];
+  const discriminator = schema.discriminator;
+  const selectedOption = COMPOSITION_OPTIONS.find((option) => option.value === schema.composition);
+
+  const updateMapping = (mapping: DiscriminatorMapping[]) => {
+    if (discriminator) {
+      onUpdate(schemaIndex, 'discriminator', { ...discriminator, mapping });
+    }
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+        <FormControl size="small" sx={{ width: 180 }}>
+          <InputLabel>Composition</InputLabel>
+          <Select
+            value={schema.composition || ''}
+            label="Composition"
+            onChange={(e) => onUpdate(schemaIndex, 'composition', e.target.value || undefined)}
+          >
+            <MenuItem value="">None</MenuItem>
+            {COMPOSITION_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {schema.composition && (
+          <FormControl size="small" fullWidth>
+            <InputLabel>Schemas</InputLabel>
+            <Select
+              multiple
+              value={refs}
+              label="Schemas"
+              onChange={(e) => {
+                const value = e.target.value;
+                onUpdate(schemaIndex, 'compositionRefs', typeof value === 'string' ? value.split(',') : value);
+              }}
+              renderValue={(values) => (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {values.map((value) => (
+                    <Chip key={value} label={value} size="small" />
+                  ))}
+                </Box>
+              )}
+            >
+              {otherSchemas.map((s) => (
+                <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+      </Box>
+      {selectedOption && (
+        <Typography variant="caption" sx={{ color: '#6b7280' }}>
+          {selectedOption.help}
+        </Typography>
+      )}
+
+      {schema.composition && (
+        <Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={Boolean(discriminator)}
+                onChange={(e) =>
+                  onUpdate(
+                    schemaIndex,
+                    'discriminator',
+                    e.target.checked ? { propertyName: '', mapping: [] } : undefined
+                  )
+                }
+                size="small"
+              />
+            }
+            label="Discriminator"
+          />
+          {discriminator && (
+            <Stack spacing={1} sx={{ mt: 1, pl: 2, borderLeft: '3px solid #e5e7eb' }}>
+              <TextField
+                label="Property Name"
+                value={discriminator.propertyName}
+                onChange={(e) =>
+                  onUpdate(schemaIndex, 'discriminator', { ...discriminator, propertyName: e.target.value })
+                }
+                placeholder="e.g., type"
+                required
+                error={!discriminator.propertyName}
+                size="small"
+                sx={{ width: 250 }}
+              />
+              {discriminator.mapping.map((entry, mappingIndex) => (
+                <Box key={mappingIndex} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <TextField
+                    label="Value"
+                    value={entry.value}
+                    onChange={(e) =>
+                      updateMapping(
+                        discriminator.mapping.map((m, i) => (i === mappingIndex ? { ...m, value: e.target.value } : m))
+                      )
+                    }
+                    placeholder="e.g., card"
+                    size="small"
+                    sx={{ width: 180 }}
+                  />
+                  <FormControl size="small" sx={{ flex: 1 }}>
+                    <InputLabel>Schema</InputLabel>
+                    <Select
+                      value={entry.schemaRef}
+                      label="Schema"
+                      onChange={(e) =>
+                        updateMapping(
+                          discriminator.mapping.map((m, i) =>
+                            i === mappingIndex ? { ...m, schemaRef: e.target.value } : m
+                          )
+                        )
+                      }
+                    >
+                      {otherSchemas.map((s) => (
+                        <MenuItem key={s.name} value={s.name}>{s.name}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <IconButton
+                    onClick={() => updateMapping(discriminator.mapping.filter((_, i) => i !== mappingIndex))}
+                    color="error"
+                    size="small"
+                  >
+                    <DeleteIcon sx={{ fontSize: 18 }} />
+                  </IconButton>
+                </Box>
+              ))}
+              <Box>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={() => updateMapping([...discriminator.mapping, { value: '', schemaRef: refs[0] || '' }])}
+                >
+                  Add Mapping
+                </Button>
+              </Box>
+            </Stack>
+          )}
+        </Box>
+      )}
+    </Stack>
+  );
+};
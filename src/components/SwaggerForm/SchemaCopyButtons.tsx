@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Box, Button, Tooltip } from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import type { SwaggerSchema } from '../../types/swagger';
+import { withSchemaDependencies } from '../../utils/schemaDependencies';
+import { generateTypeScriptTypes } from '../../utils/typeScriptGenerator';
+import { generateZodSchemas } from '../../utils/zodGenerator';
+
+type CopyFormat = 'typescript' | 'zod';
+
+interface SchemaCopyButtonsProps {
+  schemas: SwaggerSchema[];
+  schemaName?: string; // Copy this schema and the schemas it references instead of all of them
+}
+
+const COPY_FORMATS: Record<CopyFormat, { label: string; generate: (schemas: SwaggerSchema[]) => string }> = {
+  typescript: { label: 'TypeScript', generate: generateTypeScriptTypes },
+  zod: { label: 'Zod', generate: generateZodSchemas },
+};
+
+const COPIED_FEEDBACK_MS = 1500;
+
+export const SchemaCopyButtons: React.FC<SchemaCopyButtonsProps> = ({ schemas, schemaName }) => {
+  const [copied, setCopied] = useState<CopyFormat | null>(null);
+
+  const handleCopy = (format: CopyFormat) => {
+    const selected = schemaName ? withSchemaDependencies(schemas, schemaName) : schemas;
+    navigator.clipboard.writeText(`${COPY_FORMATS[format].generate(selected)}\n`);
+    setCopied(format);
+    setTimeout(() => setCopied((current) => (current === format ? null : current)), COPIED_FEEDBACK_MS);
+  };
+
+  const tooltip = schemaName
+    ? `Includes the schemas ${schemaName} references`
+    : 'All component schemas';
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {(Object.keys(COPY_FORMATS) as CopyFormat[]).map((format) => (
+        <Tooltip key={format} title={tooltip}>
+          <span>
+            <Button
+              size="small"
+              startIcon={<ContentCopyIcon />}
+              disabled={schemaName === '' || schemas.every((schema) => !schema.name)}
+              onClick={() => handleCopy(format)}
+            >
+              {copied === format ? 'Copied' : `Copy as ${COPY_FORMATS[format].label}`}
+            </Button>
+          </span>
+        </Tooltip>
+      ))}
+    </Box>
+  );
+};
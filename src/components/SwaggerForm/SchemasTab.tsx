@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   DndContext,
   closestCenter,
@@ -34,6 +34,10 @@ import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
 import type { SwaggerSchema, SchemaProperty } from '../../types/swagger';
 import { SortableItem } from './SortableItem';
 import { PropertyRow } from './PropertyRow';
+import { SchemaCompositionEditor } from './SchemaCompositionEditor';
+import { SchemaCopyButtons } from './SchemaCopyButtons';
+import type { PropertyPath } from '../../utils/schemaPropertyTree';
+import { formFieldId, type FormLocation } from '../../utils/formLocation';
 
 interface SchemasTabProps {
   schemas: SwaggerSchema[];
@@ -42,9 +46,10 @@ interface SchemasTabProps {
   onUpdate: (index: number, field: keyof SwaggerSchema, value: unknown) => void;
   onRemove: (index: number) => void;
   onReorder: (oldIndex: number, newIndex: number) => void;
-  onAddProperty: (schemaIndex: number) => void;
-  onUpdateProperty: (schemaIndex: number, propIndex: number, field: keyof SchemaProperty, value: unknown) => void;
-  onRemoveProperty: (schemaIndex: number, propIndex: number) => void;
+  onAddProperty: (schemaIndex: number, parentPath?: PropertyPath) => void;
+  onUpdateProperty: (schemaIndex: number, path: PropertyPath, field: keyof SchemaProperty, value: unknown) => void;
+  onRemoveProperty: (schemaIndex: number, path: PropertyPath) => void;
+  focusLocation?: FormLocation | null; // Schema to expand when a validation issue is clicked
 }
 
 export const SchemasTab: React.FC<SchemasTabProps> = ({
@@ -57,7 +62,19 @@ export const SchemasTab: React.FC<SchemasTabProps> = ({
   onAddProperty,
   onUpdateProperty,
   onRemoveProperty,
+  focusLocation,
 }) => {
+  // Accordions the user opened or closed; the rest keep their default state
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+  const [revealedLocation, setRevealedLocation] = useState<FormLocation | null | undefined>(null);
+  if (focusLocation !== revealedLocation) {
+    setRevealedLocation(focusLocation);
+    if (focusLocation?.schemaIndex !== undefined) {
+      const { schemaIndex } = focusLocation;
+      setExpanded((prev) => ({ ...prev, [schemaIndex]: true }));
+    }
+  }
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -81,6 +98,7 @@ export const SchemasTab: React.FC<SchemasTabProps> = ({
           Component Schemas
         </Typography>
         <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          {schemas.length > 0 && <SchemaCopyButtons schemas={schemas} />}
           <Tooltip title="Add empty schema">
             <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={onAdd} sx={{ bgcolor: '#1976d2' }}>
               Add Schema
@@ -113,16 +131,20 @@ export const SchemasTab: React.FC<SchemasTabProps> = ({
             <Stack spacing={2} sx={{ pl: 4 }}>
               {schemas.map((schema, schemaIndex) => (
                 <SortableItem key={`schema-${schemaIndex}`} id={`schema-${schemaIndex}`}>
-                  <Accordion defaultExpanded={!schema.isTemplate}>
+                  <Accordion
+                    expanded={expanded[schemaIndex] ?? !schema.isTemplate}
+                    onChange={(_, isExpanded) => setExpanded((prev) => ({ ...prev, [schemaIndex]: isExpanded }))}
+                  >
                     <AccordionSummary expandIcon={<ExpandMoreIcon />}>
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-                        <Chip label="object" size="small" color="secondary" />
+                        <Chip label={schema.composition || 'object'} size="small" color="secondary" />
                         <Typography sx={{ fontWeight: 600 }}>{schema.name || 'Unnamed Schema'}</Typography>
                       </Box>
                     </AccordionSummary>
                     <AccordionDetails>
                       <Stack spacing={3}>
                         <TextField
+                          id={formFieldId('schemas', schemaIndex, 'name')}
                           label="Schema Name"
                           value={schema.name}
                           onChange={(e) => onUpdate(schemaIndex, 'name', e.target.value)}
@@ -130,30 +152,43 @@ export const SchemasTab: React.FC<SchemasTabProps> = ({
                           size="small"
                           fullWidth
                         />
-                        <Divider />
-                        <Box>
-                          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-                            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>Properties</Typography>
-                            <Button size="small" startIcon={<AddIcon />} onClick={() => onAddProperty(schemaIndex)}>
-                              Add Property
-                            </Button>
-                          </Box>
-                          <Stack spacing={1}>
-                            {schema.properties.map((prop, propIndex) => (
-                              <PropertyRow
-                                key={propIndex}
-                                prop={prop}
-                                propIndex={propIndex}
-                                schemaIndex={schemaIndex}
-                                schema={schema}
-                                schemas={schemas}
-                                onUpdateProperty={onUpdateProperty}
-                                onRemoveProperty={onRemoveProperty}
-                              />
-                            ))}
-                          </Stack>
-                        </Box>
-                        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+                        <SchemaCompositionEditor
+                          schema={schema}
+                          schemaIndex={schemaIndex}
+                          schemas={schemas}
+                          onUpdate={onUpdate}
+                        />
+                        {/* oneOf/anyOf schemas are defined entirely by their members */}
+                        {(!schema.composition || schema.composition === 'allOf') && (
+                          <>
+                            <Divider />
+                            <Box>
+                              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                                <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>Properties</Typography>
+                                <Button size="small" startIcon={<AddIcon />} onClick={() => onAddProperty(schemaIndex)}>
+                                  Add Property
+                                </Button>
+                              </Box>
+                              <Stack spacing={1}>
+                                {schema.properties.map((prop, propIndex) => (
+                                  <PropertyRow
+                                    key={propIndex}
+                                    prop={prop}
+                                    path={[propIndex]}
+                                    schemaIndex={schemaIndex}
+                                    schema={schema}
+                                    schemas={schemas}
+                                    onAddProperty={onAddProperty}
+                                    onUpdateProperty={onUpdateProperty}
+                                    onRemoveProperty={onRemoveProperty}
+                                  />
+                                ))}
+                              </Stack>
+                            </Box>
+                          </>
+                        )}
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 2 }}>
+                          <SchemaCopyButtons schemas={schemas} schemaName={schema.name} />
                           <Button variant="outlined" color="error" startIcon={<DeleteIcon />} onClick={() => onRemove(schemaIndex)}>
                             Delete Schema
                           </Button>
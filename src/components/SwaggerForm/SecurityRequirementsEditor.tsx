@@ -0,0 +1,158 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { SecurityRequirement, SwaggerSecurityScheme } from '../../types/swagger';
+import { getSchemeScopes } from '../../utils/securityRequirements';
+
+interface SecurityRequirementsEditorProps {
+  requirements: SecurityRequirement[];
+  securitySchemes: SwaggerSecurityScheme[];
+  onChange: (requirements: SecurityRequirement[]) => void;
+}
+
+/**
+ * Edits a list of security requirements.
+ * Each box is one alternative (OR); the schemes checked inside a box are
+ * all required together (AND).
+ */
+export const SecurityRequirementsEditor: React.FC<SecurityRequirementsEditorProps> = ({
+  requirements,
+  securitySchemes,
+  onChange,
+}) => {
+  const namedSchemes = securitySchemes.filter((scheme) => scheme.name);
+
+  const updateRequirement = (index: number, requirement: SecurityRequirement) => {
+    onChange(requirements.map((r, i) => (i === index ? requirement : r)));
+  };
+
+  const toggleScheme = (index: number, name: string, checked: boolean) => {
+    const requirement = { ...requirements[index] };
+    if (checked) {
+      requirement[name] = [];
+    } else {
+      delete requirement[name];
+    }
+    updateRequirement(index, requirement);
+  };
+
+  const addAlternative = () => {
+    onChange([...requirements, namedSchemes.length > 0 ? { [namedSchemes[0].name]: [] } : {}]);
+  };
+
+  return (
+    <Stack spacing={1}>
+      {requirements.map((requirement, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && (
+            <Divider>
+              <Chip label="OR" size="small" />
+            </Divider>
+          )}
+          <Box sx={{ p: 1.5, bgcolor: '#fff', borderRadius: 1, border: '1px solid #e5e7eb' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <FormGroup row>
+                {namedSchemes.map((scheme) => (
+                  <FormControlLabel
+                    key={scheme.name}
+                    control={
+                      <Checkbox
+                        checked={scheme.name in requirement}
+                        onChange={(e) => toggleScheme(index, scheme.name, e.target.checked)}
+                        size="small"
+                      />
+                    }
+                    label={scheme.name}
+                  />
+                ))}
+              </FormGroup>
+              <IconButton
+                onClick={() => onChange(requirements.filter((_, i) => i !== index))}
+                color="error"
+                size="small"
+              >
+                <DeleteIcon sx={{ fontSize: 18 }} />
+              </IconButton>
+            </Box>
+            {Object.keys(requirement).length === 0 && (
+              <Typography variant="caption" sx={{ color: '#b45309' }}>
+                No scheme selected - this alternative allows anonymous access
+              </Typography>
+            )}
+
+            {/* Required scopes for checked OAuth2 / OpenID Connect schemes */}
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              {namedSchemes
+                .filter((scheme) =>
+                  (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') && scheme.name in requirement
+                )
+                .map((scheme) => {
+                  const selected = requirement[scheme.name] || [];
+                  const updateScopes = (scopes: string[]) =>
+                    updateRequirement(index, { ...requirement, [scheme.name]: scopes });
+                  return scheme.type === 'oauth2' ? (
+                    <FormControl key={scheme.name} size="small" fullWidth>
+                      <InputLabel>{`${scheme.name} scopes`}</InputLabel>
+                      <Select
+                        multiple
+                        value={selected}
+                        label={`${scheme.name} scopes`}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          updateScopes(typeof value === 'string' ? value.split(',') : value);
+                        }}
+                        renderValue={(values) => (
+                          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                            {values.map((value) => (
+                              <Chip key={value} label={value} size="small" />
+                            ))}
+                          </Box>
+                        )}
+                      >
+                        {getSchemeScopes(scheme).map((scope) => (
+                          <MenuItem key={scope} value={scope}>{scope}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  ) : (
+                    <TextField
+                      key={scheme.name}
+                      label={`${scheme.name} scopes`}
+                      value={selected.join(', ')}
+                      onChange={(e) => updateScopes(e.target.value.split(',').map((v) => v.trim()))}
+                      placeholder="openid, profile, email"
+                      helperText="Comma-separated scopes"
+                      size="small"
+                      fullWidth
+                    />
+                  );
+                })}
+            </Stack>
+          </Box>
+        </React.Fragment>
+      ))}
+      <Box>
+        <Button size="small" startIcon={<AddIcon />} onClick={addAlternative} disabled={namedSchemes.length === 0}>
+          {requirements.length === 0 ? 'Add Requirement' : 'Add Alternative (OR)'}
+        </Button>
+      </Box>
+    </Stack>
+  );
+};
@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Button, Card, Tab, Tabs, Typography, Snackbar, Alert, Chip, Tooltip, IconButton } from '@mui/material';
+import { Box, Button, Card, Tab, Tabs, Typography, Snackbar, Alert, Chip, Tooltip, IconButton, LinearProgress } from '@mui/material';
 import CodeIcon from '@mui/icons-material/Code';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
 import AddIcon from '@mui/icons-material/Add';
 import SaveIcon from '@mui/icons-material/Save';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
+import HistoryIcon from '@mui/icons-material/History';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import { TabPanel } from './TabPanel';
@@ -11,12 +16,22 @@ import { InfoTab } from './InfoTab';
 import { TagsTab } from './TagsTab';
 import { SchemasTab } from './SchemasTab';
 import { PathsTab } from './PathsTab';
+import { ComponentsTab } from './ComponentsTab';
 import { LivePreview } from './LivePreview';
 import { ImportDialog } from './ImportDialog';
+import { ProjectsDialog } from './ProjectsDialog';
+import { HistoryDialog } from './HistoryDialog';
+import { CompareDialog } from './CompareDialog';
 import { useSwaggerDocument } from '../../hooks/useSwaggerDocument';
-import { buildYamlDocument } from '../../utils/yamlGenerator';
+import { toOpenApiObject, serializeOpenApiObject } from '../../utils/yamlGenerator';
 import { saveFormCollapsedState, loadFormCollapsedState } from '../../utils/localStorage';
+import { locateFormField, type FormLocation, type FormTab } from '../../utils/formLocation';
+import type { DocumentSnapshot } from '../../utils/documentStore';
 import type { SwaggerDocument } from '../../types/swagger';
+import type { ValidationError } from '../../types/validation';
+
+// Form tabs in display order
+const FORM_TABS: FormTab[] = ['info', 'tags', 'schemas', 'paths', 'components'];
 
 // Helper to format relative time
 const formatLastSaved = (date: Date | null): string => {
@@ -37,21 +52,44 @@ const formatLastSaved = (date: Date | null): string => {
 export const SwaggerForm: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
   const [isFormCollapsed, setIsFormCollapsed] = useState(loadFormCollapsedState);
-  const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'info' | 'warning' }>({
+  const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'info' | 'warning' | 'error' }>({
     open: false,
     message: '',
     severity: 'success'
   });
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [projectsDialogOpen, setProjectsDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [compareDialogOpen, setCompareDialogOpen] = useState(false);
   const [lastSavedDisplay, setLastSavedDisplay] = useState('');
+  const [focusLocation, setFocusLocation] = useState<FormLocation | null>(null);
 
   const {
     document,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    isLoading,
     lastSaved,
     wasRestored,
+    saveError,
+    saveNow,
+    restoreSnapshot,
     importDocument,
-    resetDocument,
+    applyYamlEdit,
+    projects,
+    projectId,
+    currentProject,
+    openProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
     updateInfo,
+    updateLintRule,
+    resetLintRules,
+    updateSpectralRuleset,
     updateContact,
     updateLicense,
     addTag,
@@ -61,16 +99,24 @@ export const SwaggerForm: React.FC = () => {
     // Servers
     addServer,
     updateServer,
+    updateServerVariable,
     removeServer,
     // Security Schemes
     addSecurityScheme,
     addCognitoSecurityScheme,
     updateSecurityScheme,
     removeSecurityScheme,
+    toggleOAuthFlow,
+    updateOAuthFlow,
+    addOAuthScope,
+    updateOAuthScope,
+    removeOAuthScope,
+    updateGlobalSecurity,
     // Paths
     addPath,
     updatePath,
     removePath,
+    updateOperation,
     addOperation,
     removeOperation,
     duplicatePath,
@@ -78,10 +124,16 @@ export const SwaggerForm: React.FC = () => {
     addParameter,
     updateParameter,
     removeParameter,
+    addParameterRef,
     addResponse,
     updateResponse,
     removeResponse,
     addCommonErrorResponses,
+    addResponseRef,
+    addResponseHeader,
+    updateResponseHeader,
+    removeResponseHeader,
+    addResponseHeaderRef,
     // Request Body
     addRequestBody,
     updateRequestBody,
@@ -95,6 +147,10 @@ export const SwaggerForm: React.FC = () => {
     addSchemaProperty,
     updateSchemaProperty,
     removeSchemaProperty,
+    // Reusable Components
+    addComponent,
+    updateComponent,
+    removeComponent,
   } = useSwaggerDocument();
 
   // Update the last saved display every 10 seconds
@@ -121,7 +177,55 @@ export const SwaggerForm: React.FC = () => {
     }
   }, [wasRestored]);
 
-  const yamlPreview = buildYamlDocument(document);
+  // Undo/redo shortcuts: Ctrl+Z, Ctrl+Shift+Z and Ctrl+Y (Cmd on macOS).
+  // Text fields, editors and dialogs keep the browser's own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target;
+      if (
+        target instanceof HTMLElement &&
+        (target instanceof HTMLInputElement ||
+          target instanceof HTMLTextAreaElement ||
+          target.isContentEditable ||
+          target.closest('[role="dialog"]'))
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const handleSave = async () => {
+    if (await saveNow()) {
+      setSnackbar({ open: true, message: 'Saved - snapshot added to history', severity: 'success' });
+    }
+  };
+
+  // Ctrl+S saves right away instead of the browser's "Save page"
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        void handleSave();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const openApiSpec = toOpenApiObject(document);
+  const yamlPreview = serializeOpenApiObject(openApiSpec, 'yaml');
+  const jsonPreview = serializeOpenApiObject(openApiSpec, 'json');
 
   const handleAddTemplateSchema = (templateKey: string) => {
     addTemplateSchema(templateKey);
@@ -148,8 +252,30 @@ export const SwaggerForm: React.FC = () => {
   };
 
   const handleNewDocument = () => {
-    resetDocument();
-    setSnackbar({ open: true, message: 'Created new document', severity: 'info' });
+    createProject();
+    setSnackbar({ open: true, message: 'Created new project', severity: 'info' });
+  };
+
+  const handleCreateProject = (name: string) => {
+    createProject(name);
+    setSnackbar({ open: true, message: `Created project "${name}"`, severity: 'info' });
+  };
+
+  const handleOpenProject = async (id: string) => {
+    const name = projects.find((p) => p.id === id)?.name || 'project';
+    if (await openProject(id)) {
+      setSnackbar({ open: true, message: `Opened "${name}"`, severity: 'info' });
+    } else {
+      setSnackbar({ open: true, message: `Could not open "${name}"`, severity: 'error' });
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: DocumentSnapshot) => {
+    if (await restoreSnapshot(snapshot)) {
+      setSnackbar({ open: true, message: 'Snapshot restored', severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: 'Could not restore the snapshot', severity: 'error' });
+    }
   };
 
   // Save collapse state to localStorage
@@ -161,6 +287,27 @@ export const SwaggerForm: React.FC = () => {
     });
   };
 
+  // Reveal the form field a validation issue points at
+  const handleValidationIssueClick = (issue: ValidationError) => {
+    const location = issue.pathSegments && locateFormField(document, issue.pathSegments);
+    if (!location) return;
+    if (isFormCollapsed) toggleFormCollapsed();
+    setActiveTab(FORM_TABS.indexOf(location.tab));
+    setFocusLocation(location);
+  };
+
+  // Focus the field once its tab is shown and its accordions have expanded
+  useEffect(() => {
+    const fieldId = focusLocation?.fieldId;
+    if (!fieldId) return;
+    const timeoutId = setTimeout(() => {
+      const field = window.document.getElementById(fieldId);
+      field?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      field?.focus({ preventScroll: true });
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [focusLocation]);
+
   return (
     <Box sx={{ minHeight: '100vh', bgcolor: '#f3f4f6', p: 3 }}>
       <Box sx={{ maxWidth: 1800, mx: 'auto' }}>
@@ -169,6 +316,16 @@ export const SwaggerForm: React.FC = () => {
           <Typography variant="h5" sx={{ fontWeight: 'bold', color: '#1f2937', display: 'flex', alignItems: 'center', gap: 1 }}>
             <CodeIcon sx={{ fontSize: 28 }} />
             Swagger Document Builder
+            <Tooltip title="Switch project">
+              <Button
+                size="small"
+                startIcon={<FolderOpenIcon />}
+                onClick={() => setProjectsDialogOpen(true)}
+                sx={{ ml: 1, textTransform: 'none', color: '#374151' }}
+              >
+                {currentProject?.name || 'Untitled API'}
+              </Button>
+            </Tooltip>
           </Typography>
 
           {/* Action Buttons & Auto-save Indicator */}
@@ -188,6 +345,35 @@ export const SwaggerForm: React.FC = () => {
                 />
               </Tooltip>
             )}
+            <Tooltip title="Save now and add a snapshot (Ctrl+S)">
+              <IconButton size="small" onClick={() => void handleSave()} disabled={isLoading}>
+                <SaveIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="History">
+              <IconButton size="small" onClick={() => setHistoryDialogOpen(true)} disabled={isLoading}>
+                <HistoryIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Compare with another version">
+              <IconButton size="small" onClick={() => setCompareDialogOpen(true)} disabled={isLoading}>
+                <CompareArrowsIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Undo (Ctrl+Z)">
+              <span>
+                <IconButton size="small" onClick={undo} disabled={!canUndo}>
+                  <UndoIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Redo (Ctrl+Shift+Z)">
+              <span>
+                <IconButton size="small" onClick={redo} disabled={!canRedo}>
+                  <RedoIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
             <Button
               variant="outlined"
               size="small"
@@ -209,6 +395,21 @@ export const SwaggerForm: React.FC = () => {
           </Box>
         </Box>
 
+        {/* Save Error */}
+        {saveError && (
+          <Alert
+            severity="error"
+            sx={{ mb: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={() => void handleSave()}>
+                Retry
+              </Button>
+            }
+          >
+            Your changes are not being saved: {saveError}. Export the YAML from the preview to keep a copy.
+          </Alert>
+        )}
+
         {/* Main Layout - Split Screen */}
         <Box sx={{ display: 'flex', gap: 3 }}>
           {/* Collapsed Form Bar */}
@@ -256,6 +457,7 @@ export const SwaggerForm: React.FC = () => {
           {/* Left Side - Form */}
           {!isFormCollapsed && (
             <Card elevation={3} sx={{ borderRadius: 3, overflow: 'hidden', flex: 1, minWidth: 0, position: 'relative' }}>
+              {isLoading && <LinearProgress sx={{ position: 'absolute', top: 0, left: 0, right: 0, zIndex: 11 }} />}
               {/* Collapse Button */}
               <Tooltip title="Collapse Form" placement="right">
                 <IconButton
@@ -292,6 +494,7 @@ export const SwaggerForm: React.FC = () => {
                   <Tab label="🏷️ Tags" />
                   <Tab label="📦 Schemas" />
                   <Tab label="🛤️ Paths" />
+                  <Tab label="🧩 Components" />
                 </Tabs>
               </Box>
 
@@ -303,13 +506,21 @@ export const SwaggerForm: React.FC = () => {
                   onUpdateLicense={updateLicense}
                   servers={document.servers}
                   securitySchemes={document.securitySchemes}
+                  security={document.security}
                   onAddServer={addServer}
                   onUpdateServer={updateServer}
+                  onUpdateServerVariable={updateServerVariable}
                   onRemoveServer={removeServer}
                   onAddSecurityScheme={addSecurityScheme}
                   onAddCognitoSecurityScheme={addCognitoSecurityScheme}
                   onUpdateSecurityScheme={updateSecurityScheme}
                   onRemoveSecurityScheme={removeSecurityScheme}
+                  onToggleOAuthFlow={toggleOAuthFlow}
+                  onUpdateOAuthFlow={updateOAuthFlow}
+                  onAddOAuthScope={addOAuthScope}
+                  onUpdateOAuthScope={updateOAuthScope}
+                  onRemoveOAuthScope={removeOAuthScope}
+                  onUpdateGlobalSecurity={updateGlobalSecurity}
                 />
               </TabPanel>
 
@@ -334,6 +545,7 @@ export const SwaggerForm: React.FC = () => {
                   onAddProperty={addSchemaProperty}
                   onUpdateProperty={updateSchemaProperty}
                   onRemoveProperty={removeSchemaProperty}
+                  focusLocation={focusLocation}
                 />
               </TabPanel>
 
@@ -342,9 +554,11 @@ export const SwaggerForm: React.FC = () => {
                   paths={document.paths}
                   schemas={document.schemas}
                   securitySchemes={document.securitySchemes}
+                  components={document.components}
                   onAdd={addPath}
                   onUpdate={updatePath}
                   onRemove={removePath}
+                  onUpdateOperation={updateOperation}
                   onAddOperation={addOperation}
                   onRemoveOperation={removeOperation}
                   onDuplicate={handleDuplicatePath}
@@ -352,13 +566,30 @@ export const SwaggerForm: React.FC = () => {
                   onAddParameter={addParameter}
                   onUpdateParameter={updateParameter}
                   onRemoveParameter={removeParameter}
+                  onAddParameterRef={addParameterRef}
                   onAddResponse={addResponse}
                   onUpdateResponse={updateResponse}
                   onRemoveResponse={removeResponse}
                   onAddCommonErrorResponses={handleAddCommonErrorResponses}
+                  onAddResponseRef={addResponseRef}
+                  onAddResponseHeader={addResponseHeader}
+                  onUpdateResponseHeader={updateResponseHeader}
+                  onRemoveResponseHeader={removeResponseHeader}
+                  onAddResponseHeaderRef={addResponseHeaderRef}
                   onAddRequestBody={addRequestBody}
                   onUpdateRequestBody={updateRequestBody}
                   onRemoveRequestBody={removeRequestBody}
+                  focusLocation={focusLocation}
+                />
+              </TabPanel>
+
+              <TabPanel value={activeTab} index={4}>
+                <ComponentsTab
+                  components={document.components}
+                  schemas={document.schemas}
+                  onAdd={addComponent}
+                  onUpdate={updateComponent}
+                  onRemove={removeComponent}
                 />
               </TabPanel>
             </Card>
@@ -366,7 +597,18 @@ export const SwaggerForm: React.FC = () => {
 
           {/* Right Side - Live Preview */}
           <Box sx={{ flex: 1, minWidth: 0 }}>
-            <LivePreview yamlContent={yamlPreview} />
+            <LivePreview
+              document={document}
+              yamlContent={yamlPreview}
+              jsonContent={jsonPreview}
+              lintRules={document.lintRules}
+              onLintRuleChange={updateLintRule}
+              spectralRuleset={document.spectralRuleset}
+              onResetLintRules={resetLintRules}
+              onSpectralRulesetChange={updateSpectralRuleset}
+              onIssueClick={handleValidationIssueClick}
+              onEdit={applyYamlEdit}
+            />
           </Box>
         </Box>
       </Box>
@@ -378,6 +620,41 @@ export const SwaggerForm: React.FC = () => {
         onImport={handleImportDocument}
       />
 
+      {/* Projects Dialog */}
+      <ProjectsDialog
+        open={projectsDialogOpen}
+        projects={projects}
+        currentProjectId={currentProject?.id}
+        onClose={() => setProjectsDialogOpen(false)}
+        onOpen={handleOpenProject}
+        onCreate={handleCreateProject}
+        onRename={renameProject}
+        onDuplicate={duplicateProject}
+        onDelete={deleteProject}
+      />
+
+      {/* History Dialog */}
+      <HistoryDialog
+        open={historyDialogOpen}
+        projectId={projectId}
+        currentDocument={document}
+        onClose={() => setHistoryDialogOpen(false)}
+        onRestore={handleRestoreSnapshot}
+      />
+
+      {/* Compare Dialog */}
+      <CompareDialog
+        open={compareDialogOpen}
+        projectId={projectId}
+        currentDocument={document}
+        onClose={() => setCompareDialogOpen(false)}
+        onAppendToDescription={(markdown) => {
+          const description = document.info.description.trim();
+          updateInfo('description', description ? `${description}\n\n${markdown}` : markdown);
+          setSnackbar({ open: true, message: 'Changelog added to the API description', severity: 'success' });
+        }}
+      />
+
       {/* Snackbar for notifications */}
       <Snackbar
         open={snackbar.open}
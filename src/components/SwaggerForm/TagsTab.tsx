@@ -26,6 +26,7 @@ import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import DescriptionIcon from '@mui/icons-material/Description';
 import type { SwaggerTag } from '../../types/swagger';
+import { formFieldId } from '../../utils/formLocation';
 import { SortableItem } from './SortableItem';
 
 interface TagsTabProps {
@@ -82,6 +83,7 @@ export const TagsTab: React.FC<TagsTabProps> = ({ tags, onAdd, onUpdate, onRemov
                   <Card variant="outlined" sx={{ p: 2 }}>
                     <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
                       <TextField
+                        id={formFieldId('tags', index, 'name')}
                         label="Tag Name"
                         value={tag.name}
                         onChange={(e) => onUpdate(index, 'name', e.target.value)}
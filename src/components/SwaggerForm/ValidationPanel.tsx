@@ -10,24 +10,28 @@ import {
   Collapse,
   IconButton,
   CircularProgress,
+  Tooltip,
 } from '@mui/material';
 import ErrorIcon from '@mui/icons-material/Error';
 import WarningIcon from '@mui/icons-material/Warning';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import TuneIcon from '@mui/icons-material/Tune';
 import type { ValidationResult, ValidationError } from '../../types/validation';
 
 interface ValidationPanelProps {
   validationResult: ValidationResult | null;
   isValidating: boolean;
   onErrorClick?: (error: ValidationError) => void;
+  onConfigureRules?: () => void;
 }
 
 export const ValidationPanel: React.FC<ValidationPanelProps> = ({
   validationResult,
   isValidating,
   onErrorClick,
+  onConfigureRules,
 }) => {
   const [expanded, setExpanded] = React.useState(true);
 
@@ -103,11 +107,27 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
             />
           )}
         </Box>
-        {allIssues.length > 0 && (
-          <IconButton size="small" sx={{ color: '#fff', p: 0 }}>
-            {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
-          </IconButton>
-        )}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {onConfigureRules && (
+            <Tooltip title="Style guide rules">
+              <IconButton
+                size="small"
+                sx={{ color: '#fff', p: 0 }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onConfigureRules();
+                }}
+              >
+                <TuneIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {allIssues.length > 0 && (
+            <IconButton size="small" sx={{ color: '#fff', p: 0 }}>
+              {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            </IconButton>
+          )}
+        </Box>
       </Box>
 
       {/* Validation Issues List */}
@@ -163,6 +183,19 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
                           fontFamily: 'monospace',
                         }}
                       />
+                      {issue.ruleId && (
+                        <Chip
+                          size="small"
+                          label={issue.ruleId}
+                          sx={{
+                            bgcolor: 'rgba(16, 185, 129, 0.2)',
+                            color: '#6ee7b7',
+                            fontSize: '0.65rem',
+                            height: 18,
+                            fontFamily: 'monospace',
+                          }}
+                        />
+                      )}
                       {issue.line && (
                         <Typography
                           variant="caption"
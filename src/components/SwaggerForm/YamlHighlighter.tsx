@@ -1,14 +1,51 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Highlight, themes } from 'prism-react-renderer';
 
 interface YamlHighlighterProps {
   code: string;
   fontSize: number;
+  language?: 'yaml' | 'json';
+  highlightLine?: number; // 1-based line to highlight and scroll into view
+  errorLine?: number; // 1-based line of a parse error in the edited code
+  onChange?: (code: string) => void; // Makes the code editable when set
 }
 
-export const YamlHighlighter: React.FC<YamlHighlighterProps> = ({ code, fontSize }) => {
-  return (
-    <Highlight theme={themes.nightOwl} code={code} language="yaml">
+const FONT_FAMILY = '"Fira Code", "Consolas", "Monaco", monospace';
+const INDENT = '  ';
+
+const HIGHLIGHT_STYLES = {
+  highlight: { background: 'rgba(250, 204, 21, 0.2)', boxShadow: 'inset 3px 0 #facc15' },
+  error: { background: 'rgba(239, 68, 68, 0.2)', boxShadow: 'inset 3px 0 #ef4444' },
+};
+
+export const YamlHighlighter: React.FC<YamlHighlighterProps> = ({
+  code,
+  fontSize,
+  language = 'yaml',
+  highlightLine,
+  errorLine,
+  onChange,
+}) => {
+  const highlightedRef = useRef<HTMLDivElement>(null);
+  const editable = Boolean(onChange);
+  // Line numbers take 4em of the smaller gutter font, see the line number span below
+  const gutterWidth = 4 * (fontSize - 2);
+
+  useEffect(() => {
+    highlightedRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlightLine]);
+
+  // Indent with spaces instead of moving focus out of the editor
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey) return;
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    textarea.setRangeText(INDENT, textarea.selectionStart, textarea.selectionEnd, 'end');
+    onChange?.(textarea.value);
+  };
+
+  const highlighted = (
+    <Highlight theme={themes.nightOwl} code={code} language={language}>
       {({ className, style, tokens, getLineProps, getTokenProps }) => (
         <pre
           className={className}
@@ -17,34 +54,85 @@ export const YamlHighlighter: React.FC<YamlHighlighterProps> = ({ code, fontSize
             margin: 0,
             padding: '16px',
             fontSize: `${fontSize}px`,
-            fontFamily: '"Fira Code", "Consolas", "Monaco", monospace',
+            fontFamily: FONT_FAMILY,
             lineHeight: 1.5,
-            overflow: 'auto',
+            // When editing, the wrapper scrolls so the textarea stays aligned with the text
+            overflow: editable ? 'visible' : 'auto',
             background: 'transparent',
           }}
         >
-          {tokens.map((line, i) => (
-            <div key={i} {...getLineProps({ line })}>
-              <span
-                style={{
-                  display: 'inline-block',
-                  width: '3em',
-                  userSelect: 'none',
-                  opacity: 0.4,
-                  textAlign: 'right',
-                  marginRight: '1em',
-                  fontSize: `${fontSize - 2}px`,
-                }}
+          {tokens.map((line, i) => {
+            const lineProps = getLineProps({ line });
+            const lineStyle =
+              i + 1 === errorLine ? HIGHLIGHT_STYLES.error : i + 1 === highlightLine ? HIGHLIGHT_STYLES.highlight : null;
+            return (
+              <div
+                key={i}
+                {...lineProps}
+                ref={i + 1 === highlightLine ? highlightedRef : undefined}
+                style={lineStyle ? { ...lineProps.style, ...lineStyle } : lineProps.style}
               >
-                {i + 1}
-              </span>
-              {line.map((token, key) => (
-                <span key={key} {...getTokenProps({ token })} />
-              ))}
-            </div>
-          ))}
+                <span
+                  style={{
+                    display: 'inline-block',
+                    width: '3em',
+                    userSelect: 'none',
+                    opacity: 0.4,
+                    textAlign: 'right',
+                    marginRight: '1em',
+                    fontSize: `${fontSize - 2}px`,
+                  }}
+                >
+                  {i + 1}
+                </span>
+                {line.map((token, key) => (
+                  <span key={key} {...getTokenProps({ token })} />
+                ))}
+              </div>
+            );
+          })}
         </pre>
       )}
     </Highlight>
   );
+
+  if (!editable) return highlighted;
+
+  // A transparent textarea over the highlighted code: the caret and selection come
+  // from the textarea, the colors from the code underneath
+  return (
+    <div style={{ position: 'relative', display: 'inline-block', minWidth: '100%' }}>
+      {highlighted}
+      <textarea
+        value={code}
+        onChange={(e) => onChange?.(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        wrap="off"
+        aria-label={`${language.toUpperCase()} editor`}
+        style={{
+          position: 'absolute',
+          inset: 0,
+          width: '100%',
+          height: '100%',
+          margin: 0,
+          padding: `16px 16px 16px ${16 + gutterWidth}px`,
+          boxSizing: 'border-box',
+          border: 'none',
+          outline: 'none',
+          resize: 'none',
+          overflow: 'hidden',
+          whiteSpace: 'pre',
+          background: 'transparent',
+          color: 'transparent',
+          caretColor: '#fff',
+          fontSize: `${fontSize}px`,
+          fontFamily: FONT_FAMILY,
+          lineHeight: 1.5,
+        }}
+      />
+    </div>
+  );
 };
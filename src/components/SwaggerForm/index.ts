@@ -4,8 +4,13 @@ export { InfoTab } from './InfoTab';
 export { TagsTab } from './TagsTab';
 export { SchemasTab } from './SchemasTab';
 export { PathsTab } from './PathsTab';
+export { ComponentsTab } from './ComponentsTab';
 export { LivePreview } from './LivePreview';
 export { ImportDialog } from './ImportDialog';
+export { ProjectsDialog } from './ProjectsDialog';
+export { HistoryDialog } from './HistoryDialog';
+export { CompareDialog } from './CompareDialog';
+export { LintRulesDialog } from './LintRulesDialog';
 export { MarkdownEditor } from './MarkdownEditor';
 export { SwaggerUIPreview } from './SwaggerUIPreview';
 export { YamlHighlighter } from './YamlHighlighter';
\ No newline at end of file
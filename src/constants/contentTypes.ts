@@ -0,0 +1,18 @@
+export const DEFAULT_RESPONSE_CONTENT_TYPE = 'application/vnd.api+json';
+export const DEFAULT_REQUEST_CONTENT_TYPE = 'application/json';
+
+export const CONTENT_TYPES = [
+  'application/json',
+  'application/vnd.api+json',
+  'application/problem+json',
+  'application/xml',
+  'text/plain',
+  'text/html',
+  'text/csv',
+  'application/octet-stream',
+  'application/pdf',
+  'multipart/form-data',
+  'application/x-www-form-urlencoded',
+] as const;
+
+export const HEADER_TYPES = ['string', 'integer', 'number', 'boolean'] as const;
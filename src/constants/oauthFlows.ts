@@ -0,0 +1,15 @@
+import type { OAuthFlowType } from '../types/swagger';
+
+type OAuthFlowUrlField = 'authorizationUrl' | 'tokenUrl';
+
+export const OAUTH_FLOWS: { type: OAuthFlowType; label: string; urls: OAuthFlowUrlField[] }[] = [
+  { type: 'authorizationCode', label: 'Authorization Code', urls: ['authorizationUrl', 'tokenUrl'] },
+  { type: 'clientCredentials', label: 'Client Credentials', urls: ['tokenUrl'] },
+  { type: 'implicit', label: 'Implicit', urls: ['authorizationUrl'] },
+  { type: 'password', label: 'Password', urls: ['tokenUrl'] },
+];
+
+export const OAUTH_FLOW_URL_LABELS: Record<OAuthFlowUrlField, string> = {
+  authorizationUrl: 'Authorization URL',
+  tokenUrl: 'Token URL',
+};
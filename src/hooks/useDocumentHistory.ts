@@ -0,0 +1,87 @@
+import { useState, useCallback } from 'react';
+import type { SetStateAction } from 'react';
+import type { SwaggerDocument } from '../types/swagger';
+
+// Oldest undo steps are dropped beyond this many
+const HISTORY_LIMIT = 100;
+// Edits to the same field arriving within this window are undone as one step
+const COALESCE_MS = 1000;
+
+interface HistoryState {
+  past: SwaggerDocument[];
+  present: SwaggerDocument;
+  future: SwaggerDocument[];
+  lastKey?: string;
+  lastEditAt: number;
+}
+
+/**
+ * Document state with a bounded undo/redo stack.
+ * `setDocument` accepts an optional coalesce key (e.g. "info.title"): consecutive
+ * edits with the same key are merged so typing a word is a single undo step.
+ */
+export const useDocumentHistory = (getInitialDocument: () => SwaggerDocument) => {
+  const [history, setHistory] = useState<HistoryState>(() => ({
+    past: [],
+    present: getInitialDocument(),
+    future: [],
+    lastEditAt: 0,
+  }));
+
+  const setDocument = useCallback((action: SetStateAction<SwaggerDocument>, coalesceKey?: string) => {
+    setHistory((prev) => {
+      const next = typeof action === 'function' ? action(prev.present) : action;
+      if (next === prev.present) return prev;
+
+      const now = Date.now();
+      const coalesce =
+        coalesceKey !== undefined && coalesceKey === prev.lastKey && now - prev.lastEditAt < COALESCE_MS;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastKey: coalesceKey,
+        lastEditAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastEditAt: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastEditAt: 0,
+      };
+    });
+  }, []);
+
+  // Replace the document without an undo step, e.g. when switching projects
+  const resetHistory = useCallback((doc: SwaggerDocument) => {
+    setHistory({ past: [], present: doc, future: [], lastEditAt: 0 });
+  }, []);
+
+  return {
+    document: history.present,
+    setDocument,
+    resetHistory,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
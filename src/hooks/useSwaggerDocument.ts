@@ -6,16 +6,52 @@ import type {
   PathOperation,
   PathParameter,
   PathResponse,
+  ResponseHeader,
   SwaggerSchema,
   SchemaProperty,
-  SwaggerServer,
+  SwaggerServerVariable,
   SwaggerSecurityScheme,
+  OAuthFlowType,
+  OAuthFlow,
+  OAuthScope,
+  SecurityRequirement,
   RequestBody,
+  ComponentKind,
+  SwaggerComponents,
+  ComponentResponse,
+  ComponentRequestBody,
 } from '../types/swagger';
+import type { LintSeverity } from '../types/lint';
 import { generateOperationId } from '../utils/operationIdGenerator';
 import { schemaTemplates } from '../utils/schemaTemplates';
 import { syncPathParameters } from '../utils/pathParameterParser';
-import { saveDocument, loadDocument, clearDocument } from '../utils/localStorage';
+import { syncServerVariables } from '../utils/serverVariableParser';
+import { mapPropertyList, mapPropertyAtPath, type PropertyPath } from '../utils/schemaPropertyTree';
+import {
+  loadProjects,
+  setActiveProjectId,
+  addProject,
+  updateProject,
+  removeProject,
+  loadLegacyDocument,
+  clearLegacyDocument,
+  type ProjectMeta,
+} from '../utils/localStorage';
+import {
+  saveDocument,
+  loadDocument,
+  deleteProjectData,
+  addSnapshot,
+  getLatestSnapshotTime,
+  type DocumentSnapshot,
+  type SnapshotReason,
+} from '../utils/documentStore';
+import { renameSchemeInRequirements, removeSchemeFromRequirements } from '../utils/securityRequirements';
+import { createEmptyComponents, getComponentName, renameComponentRefs } from '../utils/componentRefs';
+import { DEFAULT_REQUEST_CONTENT_TYPE, DEFAULT_RESPONSE_CONTENT_TYPE } from '../constants/contentTypes';
+import { applyContentEdit } from '../utils/passthrough';
+import { mergeImportedDocument } from '../utils/yamlEdit';
+import { useDocumentHistory } from './useDocumentHistory';
 
 const initialDocument: SwaggerDocument = {
   openapi: '3.0.0',
@@ -26,102 +62,192 @@ const initialDocument: SwaggerDocument = {
   },
   servers: [],
   securitySchemes: [],
+  security: [],
   tags: [],
   paths: [],
   schemas: [],
+  components: createEmptyComponents(),
 };
 
-// Migrate old path format to new format if needed
-// Migrate old path format to new format if needed
-const migrateDocument = (doc: SwaggerDocument): SwaggerDocument => {
-  return {
-    ...doc,
-    paths: doc.paths.map((path) => {
-      // If operations array already exists, return as-is
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      if (Array.isArray((path as any).operations)) {
-        return path;
-      }
-      // Migrate old format to new format (old format had method property)
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const oldPath = path as any;
-      if (oldPath.method && typeof oldPath.method === 'string') {
-        const operation: PathOperation = {
-          method: oldPath.method as PathOperation['method'],
-          tags: (oldPath.tags as string[]) || [],
-          summary: (oldPath.summary as string) || '',
-          operationId: (oldPath.operationId as string) || '',
-          description: (oldPath.description as string) || '',
-          parameters: (oldPath.parameters as PathParameter[]) || [],
-          responses: (oldPath.responses as PathResponse[]) || [],
-          requestBody: oldPath.requestBody as RequestBody | undefined,
-          security: (oldPath.security as string[]) || undefined,
-          deprecated: oldPath.deprecated as boolean | undefined,
-        };
-        return {
-          path: oldPath.path as string,
-          operations: [operation],
-        };
+// Apply an update to a single operation, leaving the rest of the paths untouched
+const mapOperation = (
+  paths: SwaggerPath[],
+  pathIndex: number,
+  operationIndex: number,
+  updater: (operation: PathOperation) => PathOperation
+): SwaggerPath[] =>
+  paths.map((path, i) =>
+    i === pathIndex
+      ? {
+        ...path,
+        operations: path.operations.map((op, j) => (j === operationIndex ? updater(op) : op)),
       }
-      return path;
-    }),
+      : path
+  );
+
+// Apply a change to the global security and to every operation's own requirements
+const mapAllSecurity = (
+  doc: SwaggerDocument,
+  updater: (requirements: SecurityRequirement[]) => SecurityRequirement[]
+): SwaggerDocument => ({
+  ...doc,
+  security: updater(doc.security),
+  paths: doc.paths.map((path) => ({
+    ...path,
+    operations: path.operations.map((op) =>
+      op.security ? { ...op, security: updater(op.security) } : op
+    ),
+  })),
+});
+
+// Blank request body, as added to an operation from the form
+const createRequestBody = (): RequestBody => ({
+  description: '',
+  required: true,
+  schemaRef: '',
+  contentType: DEFAULT_REQUEST_CONTENT_TYPE,
+});
+
+// Blank entry for each kind of reusable component
+const createComponent = <K extends ComponentKind>(kind: K): SwaggerComponents[K][number] => {
+  const blank: { [Kind in ComponentKind]: SwaggerComponents[Kind][number] } = {
+    parameters: { key: '', name: '', in: 'query', description: '', required: false, type: 'string' },
+    responses: { name: '', description: '', schemaRef: '', contentType: DEFAULT_RESPONSE_CONTENT_TYPE, headers: [] },
+    requestBodies: { name: '', ...createRequestBody() },
+    headers: { name: '', description: '', schema: { type: 'string' } },
+    examples: { name: '', summary: '', description: '', value: '' },
   };
+  return blank[kind];
 };
 
-// Load initial document from LocalStorage or use default
-const getInitialDocument = (): { document: SwaggerDocument; lastSaved: Date | null; wasRestored: boolean } => {
-  const stored = loadDocument();
-  if (stored) {
-    return {
-      document: migrateDocument(stored.document),
-      lastSaved: stored.lastSaved,
-      wasRestored: true,
-    };
+const DEFAULT_PROJECT_NAME = 'Untitled API';
+// Automatic snapshots are taken at most this often while editing
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Pick the last used project, registering a new one on first use
+const getInitialProject = (): { projectId: string; projects: ProjectMeta[] } => {
+  const { activeId, projects } = loadProjects();
+  const active = projects.find((project) => project.id === activeId) || projects[0];
+  if (active) {
+    return { projectId: active.id, projects };
   }
-  return {
-    document: initialDocument,
-    lastSaved: null,
-    wasRestored: false,
-  };
+  const project = addProject(DEFAULT_PROJECT_NAME);
+  setActiveProjectId(project.id);
+  return { projectId: project.id, projects: loadProjects().projects };
+};
+
+// Load a project's document, moving it to IndexedDB if an older version kept it in LocalStorage
+const loadProjectDocument = async (
+  projectId: string
+): Promise<{ document: SwaggerDocument; lastSaved: Date } | null> => {
+  const legacy = loadLegacyDocument(projectId);
+  if (!legacy) {
+    return loadDocument(projectId);
+  }
+  try {
+    await saveDocument(projectId, legacy.document);
+    clearLegacyDocument(projectId);
+  } catch (error) {
+    // Keep the LocalStorage copy until IndexedDB accepts it
+    console.error('Failed to move document to IndexedDB:', error);
+  }
+  return legacy;
 };
 
+// A project's document together with the time of its newest snapshot
+const fetchProject = (projectId: string) =>
+  Promise.all([loadProjectDocument(projectId), getLatestSnapshotTime(projectId).catch(() => null)]);
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
 export const useSwaggerDocument = () => {
-  const [document, setDocument] = useState<SwaggerDocument>(() => {
-    const initial = getInitialDocument();
-    return initial.document;
-  });
-  const [lastSaved, setLastSaved] = useState<Date | null>(() => {
-    const initial = getInitialDocument();
-    return initial.lastSaved;
-  });
-  const [wasRestored, setWasRestored] = useState<boolean>(() => {
-    const initial = getInitialDocument();
-    return initial.wasRestored;
-  });
-  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Auto-save with debounce
-  const debouncedSave = useCallback((doc: SwaggerDocument) => {
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-    }
-    saveTimeoutRef.current = setTimeout(() => {
-      const success = saveDocument(doc);
-      if (success) {
-        setLastSaved(new Date());
+  const [initialProject] = useState(getInitialProject);
+  const { document, setDocument, resetHistory, undo, redo, canUndo, canRedo } = useDocumentHistory(
+    () => initialDocument
+  );
+  const [projectId, setProjectId] = useState(initialProject.projectId);
+  const [projects, setProjects] = useState<ProjectMeta[]>(initialProject.projects);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [wasRestored, setWasRestored] = useState<boolean>(false);
+  // The document as last written to (or read from) storage, to skip redundant saves
+  const persistedRef = useRef<SwaggerDocument>(initialDocument);
+  const lastSnapshotRef = useRef<Date | null>(null);
+
+  const persist = useCallback(
+    async (id: string, doc: SwaggerDocument, snapshot?: SnapshotReason): Promise<boolean> => {
+      if (doc === persistedRef.current && !snapshot) return true;
+      try {
+        if (doc !== persistedRef.current) {
+          const savedAt = await saveDocument(id, doc);
+          persistedRef.current = doc;
+          updateProject(id, { lastSaved: savedAt.toISOString() });
+          setLastSaved(savedAt);
+          setProjects(loadProjects().projects);
+        }
+        // Every explicit save gets a snapshot, edits get one per interval
+        const lastSnapshot = lastSnapshotRef.current;
+        const reason = snapshot
+          ?? (!lastSnapshot || Date.now() - lastSnapshot.getTime() >= SNAPSHOT_INTERVAL_MS ? 'auto' : undefined);
+        if (reason) {
+          await addSnapshot(id, doc, reason);
+          lastSnapshotRef.current = new Date();
+        }
+        setSaveError(null);
+        return true;
+      } catch (error) {
+        setSaveError(describeError(error));
+        return false;
       }
-    }, 1000); // Save after 1 second of inactivity
-  }, []);
+    },
+    []
+  );
+
+  // Put a loaded project into the editor, starting a fresh undo history
+  const showProject = useCallback(
+    (id: string, stored: { document: SwaggerDocument; lastSaved: Date } | null, lastSnapshot: Date | null) => {
+      const doc = stored ? stored.document : initialDocument;
+      persistedRef.current = doc;
+      lastSnapshotRef.current = lastSnapshot;
+      resetHistory(doc);
+      setProjectId(id);
+      setLastSaved(stored?.lastSaved ?? null);
+      setProjects(loadProjects().projects);
+      setIsLoading(false);
+    },
+    [resetHistory]
+  );
 
-  // Trigger auto-save whenever document changes
+  // Load the last used project once on startup
   useEffect(() => {
-    debouncedSave(document);
+    let cancelled = false;
+    fetchProject(initialProject.projectId)
+      .then(([stored, lastSnapshot]) => {
+        if (cancelled) return;
+        showProject(initialProject.projectId, stored, lastSnapshot);
+        setWasRestored(Boolean(stored));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        // Don't auto-save over a document we couldn't read
+        setLoadError(`Could not load the saved document: ${describeError(error)}`);
+        setIsLoading(false);
+      });
     return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
+      cancelled = true;
     };
-  }, [document, debouncedSave]);
+  }, [initialProject.projectId, showProject]);
+
+  // Auto-save after 1 second of inactivity
+  useEffect(() => {
+    if (isLoading || loadError) return;
+    const timeout = setTimeout(() => {
+      void persist(projectId, document);
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [projectId, document, isLoading, loadError, persist]);
 
   // Clear the "was restored" flag after initial render
   useEffect(() => {
@@ -133,22 +259,100 @@ export const useSwaggerDocument = () => {
 
   // Import/Reset handlers
   const importDocument = (doc: SwaggerDocument) => {
-    const migratedDoc = migrateDocument(doc);
-    setDocument(migratedDoc);
+    setDocument(doc);
     // Immediately save imported document
-    saveDocument(migratedDoc);
-    setLastSaved(new Date());
+    void persist(projectId, doc);
+  };
+
+  // Fold in the document parsed from the edited YAML output; unchanged parts and editor-only settings are kept
+  const applyYamlEdit = (doc: SwaggerDocument) => {
+    setDocument((prev) => mergeImportedDocument(prev, doc), 'yaml');
   };
 
   const resetDocument = () => {
     setDocument(initialDocument);
-    clearDocument();
-    setLastSaved(null);
   };
 
-  const clearStoredDocument = () => {
-    clearDocument();
-    setLastSaved(null);
+  // Save right away and keep a snapshot of this version
+  const saveNow = () => persist(projectId, document, 'manual');
+
+  // Replace the document with a snapshot; the current version is snapshotted first so it can be restored too
+  // Resolves to whether the snapshot was restored
+  const restoreSnapshot = async (snapshot: DocumentSnapshot): Promise<boolean> => {
+    if (!(await persist(projectId, document, 'restore'))) return false;
+    setDocument(snapshot.document);
+    return true;
+  };
+
+  // Project handlers
+  const switchProject = async (id: string): Promise<boolean> => {
+    setIsLoading(true);
+    try {
+      const [stored, lastSnapshot] = await fetchProject(id);
+      setActiveProjectId(id);
+      showProject(id, stored, lastSnapshot);
+      setLoadError(null);
+      return true;
+    } catch (error) {
+      setSaveError(`Could not open the project: ${describeError(error)}`);
+      setIsLoading(false);
+      return false;
+    }
+  };
+
+  // Resolves to whether the project is open afterwards
+  const openProject = async (id: string): Promise<boolean> => {
+    if (id === projectId) return true;
+    // Don't lose edits still waiting for the debounced save
+    if (!loadError && !(await persist(projectId, document))) return false;
+    return switchProject(id);
+  };
+
+  const createProject = async (name: string = DEFAULT_PROJECT_NAME) => {
+    if (!loadError && !(await persist(projectId, document))) return;
+    const project = addProject(name);
+    setActiveProjectId(project.id);
+    showProject(project.id, null, null);
+    setLoadError(null);
+  };
+
+  const renameProject = (id: string, name: string) => {
+    updateProject(id, { name });
+    setProjects(loadProjects().projects);
+  };
+
+  const duplicateProject = async (id: string) => {
+    if (id === projectId && !(await persist(projectId, document))) return;
+    const source = projects.find((project) => project.id === id);
+    try {
+      const stored = await loadProjectDocument(id);
+      const copy = addProject(`${source?.name || DEFAULT_PROJECT_NAME} (copy)`);
+      if (stored) {
+        const savedAt = await saveDocument(copy.id, stored.document);
+        updateProject(copy.id, { lastSaved: savedAt.toISOString() });
+      }
+    } catch (error) {
+      setSaveError(`Could not duplicate the project: ${describeError(error)}`);
+    }
+    setProjects(loadProjects().projects);
+  };
+
+  const deleteProject = async (id: string) => {
+    removeProject(id);
+    deleteProjectData(id).catch((error) => console.error('Failed to delete project data:', error));
+    if (id !== projectId) {
+      setProjects(loadProjects().projects);
+      return;
+    }
+    // The open project was deleted: move to another one, or start fresh
+    const next = loadProjects().projects[0];
+    if (next) {
+      await switchProject(next.id);
+    } else {
+      const project = addProject(DEFAULT_PROJECT_NAME);
+      setActiveProjectId(project.id);
+      showProject(project.id, null, null);
+    }
   };
 
   // Info handlers
@@ -156,7 +360,7 @@ export const useSwaggerDocument = () => {
     setDocument((prev) => ({
       ...prev,
       info: { ...prev.info, [field]: value },
-    }));
+    }), `info.${field}`);
   };
 
   const updateContact = (field: string, value: string) => {
@@ -166,7 +370,7 @@ export const useSwaggerDocument = () => {
         ...prev.info,
         contact: { ...prev.info.contact, [field]: value },
       },
-    }));
+    }), `info.contact.${field}`);
   };
 
   const updateLicense = (field: string, value: string) => {
@@ -176,7 +380,7 @@ export const useSwaggerDocument = () => {
         ...prev.info,
         license: { ...prev.info.license, name: prev.info.license?.name || '', [field]: value },
       },
-    }));
+    }), `info.license.${field}`);
   };
 
   // Tags handlers
@@ -193,7 +397,7 @@ export const useSwaggerDocument = () => {
       tags: prev.tags.map((tag, i) =>
         i === index ? { ...tag, [field]: value } : tag
       ),
-    }));
+    }), `tags.${index}.${field}`);
   };
 
   const removeTag = (index: number) => {
@@ -220,13 +424,39 @@ export const useSwaggerDocument = () => {
     }));
   };
 
-  const updateServer = (index: number, field: keyof SwaggerServer, value: string) => {
+  const updateServer = (index: number, field: 'url' | 'description', value: string) => {
     setDocument((prev) => ({
       ...prev,
-      servers: prev.servers.map((server, i) =>
-        i === index ? { ...server, [field]: value } : server
-      ),
-    }));
+      servers: prev.servers.map((server, i) => {
+        if (i !== index) return server;
+        if (field === 'url') {
+          // Auto-sync variables when the URL placeholders change
+          return { ...server, url: value, variables: syncServerVariables(server.variables, value) };
+        }
+        return { ...server, [field]: value };
+      }),
+    }), `servers.${index}.${field}`);
+  };
+
+  const updateServerVariable = (
+    serverIndex: number,
+    name: string,
+    field: keyof SwaggerServerVariable,
+    value: string | string[]
+  ) => {
+    setDocument((prev) => ({
+      ...prev,
+      servers: prev.servers.map((server, i) => {
+        if (i !== serverIndex || !server.variables?.[name]) return server;
+        return {
+          ...server,
+          variables: {
+            ...server.variables,
+            [name]: { ...server.variables[name], [field]: value },
+          },
+        };
+      }),
+    }), `servers.${serverIndex}.variables.${name}.${field}`);
   };
 
   const removeServer = (index: number) => {
@@ -264,18 +494,120 @@ export const useSwaggerDocument = () => {
   };
 
   const updateSecurityScheme = (index: number, field: keyof SwaggerSecurityScheme, value: string) => {
+    setDocument((prev) => {
+      // Keep security requirements pointing at the scheme when it is renamed
+      const oldName = prev.securitySchemes[index]?.name;
+      const base = field === 'name' && oldName !== undefined && oldName !== value
+        ? mapAllSecurity(prev, (requirements) => renameSchemeInRequirements(requirements, oldName, value))
+        : prev;
+      return {
+        ...base,
+        securitySchemes: prev.securitySchemes.map((scheme, i) => {
+          if (i !== index) return scheme;
+          // Start new OAuth2 schemes with the most common flow enabled
+          if (field === 'type' && value === 'oauth2' && !scheme.flows) {
+            return {
+              ...scheme,
+              type: value,
+              flows: { authorizationCode: { authorizationUrl: '', tokenUrl: '', scopes: [] } },
+            };
+          }
+          return { ...scheme, [field]: value };
+        }),
+      };
+    }, `securitySchemes.${index}.${field}`);
+  };
+
+  // Apply an update to a single OAuth2 flow of a security scheme
+  const mapOAuthFlow = (
+    schemeIndex: number,
+    flowType: OAuthFlowType,
+    updater: (flow: OAuthFlow) => OAuthFlow | undefined,
+    coalesceKey?: string
+  ) => {
     setDocument((prev) => ({
       ...prev,
-      securitySchemes: prev.securitySchemes.map((scheme, i) =>
-        i === index ? { ...scheme, [field]: value } : scheme
-      ),
+      securitySchemes: prev.securitySchemes.map((scheme, i) => {
+        if (i !== schemeIndex) return scheme;
+        const flows = { ...scheme.flows };
+        const updated = updater(flows[flowType] || { scopes: [] });
+        if (updated) {
+          flows[flowType] = updated;
+        } else {
+          delete flows[flowType];
+        }
+        return { ...scheme, flows };
+      }),
+    }), coalesceKey);
+  };
+
+  const toggleOAuthFlow = (schemeIndex: number, flowType: OAuthFlowType, enabled: boolean) => {
+    mapOAuthFlow(schemeIndex, flowType, (flow) => (enabled ? flow : undefined));
+  };
+
+  const updateOAuthFlow = (
+    schemeIndex: number,
+    flowType: OAuthFlowType,
+    field: 'authorizationUrl' | 'tokenUrl' | 'refreshUrl',
+    value: string
+  ) => {
+    mapOAuthFlow(
+      schemeIndex,
+      flowType,
+      (flow) => ({ ...flow, [field]: value }),
+      `securitySchemes.${schemeIndex}.flows.${flowType}.${field}`
+    );
+  };
+
+  const addOAuthScope = (schemeIndex: number, flowType: OAuthFlowType) => {
+    mapOAuthFlow(schemeIndex, flowType, (flow) => ({
+      ...flow,
+      scopes: [...flow.scopes, { name: '', description: '' }],
+    }));
+  };
+
+  const updateOAuthScope = (
+    schemeIndex: number,
+    flowType: OAuthFlowType,
+    scopeIndex: number,
+    field: keyof OAuthScope,
+    value: string
+  ) => {
+    mapOAuthFlow(
+      schemeIndex,
+      flowType,
+      (flow) => ({
+        ...flow,
+        scopes: flow.scopes.map((scope, k) => (k === scopeIndex ? { ...scope, [field]: value } : scope)),
+      }),
+      `securitySchemes.${schemeIndex}.flows.${flowType}.scopes.${scopeIndex}.${field}`
+    );
+  };
+
+  const removeOAuthScope = (schemeIndex: number, flowType: OAuthFlowType, scopeIndex: number) => {
+    mapOAuthFlow(schemeIndex, flowType, (flow) => ({
+      ...flow,
+      scopes: flow.scopes.filter((_, k) => k !== scopeIndex),
     }));
   };
 
   const removeSecurityScheme = (index: number) => {
+    setDocument((prev) => {
+      const name = prev.securitySchemes[index]?.name;
+      const base = name
+        ? mapAllSecurity(prev, (requirements) => removeSchemeFromRequirements(requirements, name))
+        : prev;
+      return {
+        ...base,
+        securitySchemes: prev.securitySchemes.filter((_, i) => i !== index),
+      };
+    });
+  };
+
+  const updateGlobalSecurity = (requirements: SecurityRequirement[]) => {
     setDocument((prev) => ({
       ...prev,
-      securitySchemes: prev.securitySchemes.filter((_, i) => i !== index),
+      security: requirements,
     }));
   };
 
@@ -321,7 +653,7 @@ export const useSwaggerDocument = () => {
 
         return path;
       }),
-    }));
+    }), `paths.${index}.${field}`);
   };
 
   const removePath = (index: number) => {
@@ -331,6 +663,18 @@ export const useSwaggerDocument = () => {
     }));
   };
 
+  const updateOperation = (
+    pathIndex: number,
+    operationIndex: number,
+    field: keyof PathOperation,
+    value: unknown
+  ) => {
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({ ...op, [field]: value })),
+    }), `paths.${pathIndex}.${operationIndex}.${field}`);
+  };
+
   const addOperation = (pathIndex: number, method: PathOperation['method']) => {
     setDocument((prev) => ({
       ...prev,
@@ -479,7 +823,7 @@ export const useSwaggerDocument = () => {
           }
           : path
       ),
-    }));
+    }), `paths.${pathIndex}.${operationIndex}.parameters.${paramIndex}.${field}`);
   };
 
   const removeParameter = (pathIndex: number, operationIndex: number, paramIndex: number) => {
@@ -509,6 +853,8 @@ export const useSwaggerDocument = () => {
       statusCode: '200',
       description: '',
       schemaRef: '',
+      contentType: DEFAULT_RESPONSE_CONTENT_TYPE,
+      headers: [],
     };
     setDocument((prev) => ({
       ...prev,
@@ -532,7 +878,7 @@ export const useSwaggerDocument = () => {
     operationIndex: number,
     respIndex: number,
     field: keyof PathResponse,
-    value: string
+    value: unknown
   ) => {
     setDocument((prev) => ({
       ...prev,
@@ -544,16 +890,21 @@ export const useSwaggerDocument = () => {
               j === operationIndex
                 ? {
                   ...op,
-                  responses: op.responses.map((resp, k) =>
-                    k === respIndex ? { ...resp, [field]: value } : resp
-                  ),
+                  responses: op.responses.map((resp, k) => {
+                    if (k !== respIndex) return resp;
+                    // 204 No Content never carries a body
+                    if (field === 'statusCode' && value === '204') {
+                      return { ...applyContentEdit(resp, 'noContent', true, DEFAULT_RESPONSE_CONTENT_TYPE), statusCode: value };
+                    }
+                    return applyContentEdit(resp, field, value, DEFAULT_RESPONSE_CONTENT_TYPE);
+                  }),
                 }
                 : op
             ),
           }
           : path
       ),
-    }));
+    }), `paths.${pathIndex}.${operationIndex}.responses.${respIndex}.${field}`);
   };
 
   const removeResponse = (pathIndex: number, operationIndex: number, respIndex: number) => {
@@ -577,6 +928,69 @@ export const useSwaggerDocument = () => {
     }));
   };
 
+  // Response Header handlers
+  const addResponseHeader = (pathIndex: number, operationIndex: number, respIndex: number) => {
+    const newHeader: ResponseHeader = {
+      name: '',
+      description: '',
+      schema: { type: 'string' },
+    };
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({
+        ...op,
+        responses: op.responses.map((resp, k) =>
+          k === respIndex ? { ...resp, headers: [...(resp.headers || []), newHeader] } : resp
+        ),
+      })),
+    }));
+  };
+
+  const updateResponseHeader = (
+    pathIndex: number,
+    operationIndex: number,
+    respIndex: number,
+    headerIndex: number,
+    field: keyof ResponseHeader,
+    value: unknown
+  ) => {
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({
+        ...op,
+        responses: op.responses.map((resp, k) =>
+          k === respIndex
+            ? {
+              ...resp,
+              headers: (resp.headers || []).map((header, h) =>
+                h === headerIndex ? { ...header, [field]: value } : header
+              ),
+            }
+            : resp
+        ),
+      })),
+    }), `paths.${pathIndex}.${operationIndex}.responses.${respIndex}.headers.${headerIndex}.${field}`);
+  };
+
+  const removeResponseHeader = (
+    pathIndex: number,
+    operationIndex: number,
+    respIndex: number,
+    headerIndex: number
+  ) => {
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({
+        ...op,
+        responses: op.responses.map((resp, k) =>
+          k === respIndex
+            ? { ...resp, headers: (resp.headers || []).filter((_, h) => h !== headerIndex) }
+            : resp
+        ),
+      })),
+    }));
+  };
+
   const addCommonErrorResponses = (pathIndex: number, operationIndex: number) => {
     const errorSchema = document.schemas.find((s) => s.name === 'Error');
     const schemaRef = errorSchema ? 'Error' : '';
@@ -623,23 +1037,20 @@ export const useSwaggerDocument = () => {
               j === operationIndex
                 ? {
                   ...op,
-                  requestBody: { ...op.requestBody, [field]: value } as RequestBody,
+                  requestBody: op.requestBody
+                    ? applyContentEdit(op.requestBody, field, value, DEFAULT_REQUEST_CONTENT_TYPE)
+                    : { ...createRequestBody(), [field]: value },
                 }
                 : op
             ),
           }
           : path
       ),
-    }));
+    }), `paths.${pathIndex}.${operationIndex}.requestBody.${field}`);
   };
 
   const addRequestBody = (pathIndex: number, operationIndex: number) => {
-    const newRequestBody: RequestBody = {
-      description: '',
-      required: true,
-      schemaRef: '',
-      contentType: 'application/json',
-    };
+    const newRequestBody = createRequestBody();
     setDocument((prev) => ({
       ...prev,
       paths: prev.paths.map((path, i) =>
@@ -704,7 +1115,7 @@ export const useSwaggerDocument = () => {
       schemas: prev.schemas.map((schema, i) =>
         i === index ? { ...schema, [field]: value } : schema
       ),
-    }));
+    }), `schemas.${index}.${field}`);
   };
 
   const removeSchema = (index: number) => {
@@ -738,7 +1149,7 @@ export const useSwaggerDocument = () => {
   };
 
   // Schema Property handlers
-  const addSchemaProperty = (schemaIndex: number) => {
+  const addSchemaProperty = (schemaIndex: number, parentPath: PropertyPath = []) => {
     const newProperty: SchemaProperty = {
       name: '',
       type: 'string',
@@ -750,7 +1161,7 @@ export const useSwaggerDocument = () => {
       ...prev,
       schemas: prev.schemas.map((schema, i) =>
         i === schemaIndex
-          ? { ...schema, properties: [...schema.properties, newProperty] }
+          ? { ...schema, properties: mapPropertyList(schema.properties, parentPath, (list) => [...list, newProperty]) }
           : schema
       ),
     }));
@@ -758,7 +1169,7 @@ export const useSwaggerDocument = () => {
 
   const updateSchemaProperty = (
     schemaIndex: number,
-    propertyIndex: number,
+    propertyPath: PropertyPath,
     field: keyof SchemaProperty,
     value: unknown
   ) => {
@@ -768,38 +1179,170 @@ export const useSwaggerDocument = () => {
         i === schemaIndex
           ? {
             ...schema,
-            properties: schema.properties.map((property, j) =>
-              j === propertyIndex ? { ...property, [field]: value } : property
-            ),
+            properties: mapPropertyAtPath(schema.properties, propertyPath, (property) => ({
+              ...property,
+              [field]: value,
+            })),
           }
           : schema
       ),
-    }));
+    }), `schemas.${schemaIndex}.properties.${propertyPath.join('.')}.${field}`);
   };
 
-  const removeSchemaProperty = (schemaIndex: number, propertyIndex: number) => {
+  const removeSchemaProperty = (schemaIndex: number, propertyPath: PropertyPath) => {
+    const parentPath = propertyPath.slice(0, -1);
+    const propertyIndex = propertyPath[propertyPath.length - 1];
     setDocument((prev) => ({
       ...prev,
       schemas: prev.schemas.map((schema, i) =>
         i === schemaIndex
           ? {
             ...schema,
-            properties: schema.properties.filter((_, j) => j !== propertyIndex),
+            properties: mapPropertyList(schema.properties, parentPath, (list) =>
+              list.filter((_, j) => j !== propertyIndex)
+            ),
           }
           : schema
       ),
     }));
   };
 
+  // Reusable component handlers
+  const addComponent = (kind: ComponentKind) => {
+    setDocument((prev) => ({
+      ...prev,
+      components: { ...prev.components, [kind]: [...prev.components[kind], createComponent(kind)] },
+    }));
+  };
+
+  // Responses and request bodies also drop imported content the edit replaces
+  const updateComponentItem = <K extends ComponentKind>(
+    kind: K,
+    item: SwaggerComponents[K][number],
+    field: keyof SwaggerComponents[K][number],
+    value: unknown
+  ): SwaggerComponents[K][number] => {
+    if (kind === 'responses') {
+      return applyContentEdit(item as ComponentResponse, field as keyof ComponentResponse, value, DEFAULT_RESPONSE_CONTENT_TYPE);
+    }
+    if (kind === 'requestBodies') {
+      return applyContentEdit(item as ComponentRequestBody, field as keyof ComponentRequestBody, value, DEFAULT_REQUEST_CONTENT_TYPE);
+    }
+    return { ...item, [field]: value };
+  };
+
+  const updateComponent = <K extends ComponentKind>(
+    kind: K,
+    index: number,
+    field: keyof SwaggerComponents[K][number],
+    value: unknown
+  ) => {
+    setDocument((prev) => {
+      const items = prev.components[kind] as SwaggerComponents[K][number][];
+      const nameField = kind === 'parameters' ? 'key' : 'name';
+      // Keep operations pointing at a renamed component
+      const doc = field === nameField
+        ? renameComponentRefs(prev, kind, getComponentName(kind, items[index]), value as string)
+        : prev;
+      return {
+        ...doc,
+        components: {
+          ...doc.components,
+          [kind]: items.map((item, i) => (i === index ? updateComponentItem(kind, item, field, value) : item)),
+        },
+      };
+    }, `components.${kind}.${index}.${String(field)}`);
+  };
+
+  const removeComponent = (kind: ComponentKind, index: number) => {
+    setDocument((prev) => ({
+      ...prev,
+      components: {
+        ...prev.components,
+        [kind]: (prev.components[kind] as SwaggerComponents[ComponentKind][number][]).filter((_, i) => i !== index),
+      },
+    }));
+  };
+
+  // $ref handlers: point an operation at a reusable component instead of an inline definition
+  const addParameterRef = (pathIndex: number, operationIndex: number, name: string) => {
+    const refParam: PathParameter = { $ref: name, name: '', in: 'query', description: '', required: false, type: 'string' };
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({
+        ...op,
+        parameters: [...op.parameters, refParam],
+      })),
+    }));
+  };
+
+  const addResponseRef = (pathIndex: number, operationIndex: number, name: string) => {
+    const refResponse: PathResponse = { $ref: name, statusCode: '200', description: '', schemaRef: '' };
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({
+        ...op,
+        responses: [...op.responses, refResponse],
+      })),
+    }));
+  };
+
+  const addResponseHeaderRef = (pathIndex: number, operationIndex: number, respIndex: number, name: string) => {
+    const refHeader: ResponseHeader = { $ref: name, name, description: '', schema: { type: 'string' } };
+    setDocument((prev) => ({
+      ...prev,
+      paths: mapOperation(prev.paths, pathIndex, operationIndex, (op) => ({
+        ...op,
+        responses: op.responses.map((resp, k) =>
+          k === respIndex ? { ...resp, headers: [...(resp.headers || []), refHeader] } : resp
+        ),
+      })),
+    }));
+  };
+
+  // Lint rule handlers
+  const updateLintRule = (ruleId: string, severity: LintSeverity) => {
+    setDocument((prev) => ({
+      ...prev,
+      lintRules: { ...prev.lintRules, [ruleId]: severity },
+    }));
+  };
+
+  const resetLintRules = () => {
+    setDocument((prev) => ({ ...prev, lintRules: undefined }));
+  };
+
+  const updateSpectralRuleset = (content: string | undefined) => {
+    setDocument((prev) => ({ ...prev, spectralRuleset: content }));
+  };
+
   return {
     document,
-    // Auto-save state
+    // History
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    // Persistence state
+    isLoading,
     lastSaved,
     wasRestored,
+    saveError: saveError || loadError,
+    saveNow,
+    restoreSnapshot,
     // Import/Reset
     importDocument,
+    applyYamlEdit,
     resetDocument,
-    clearStoredDocument,
+    // Projects
+    projects,
+    projectId,
+    currentProject: projects.find((project) => project.id === projectId),
+    openProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
     // Info
     updateInfo,
     updateContact,
@@ -812,16 +1355,24 @@ export const useSwaggerDocument = () => {
     // Servers
     addServer,
     updateServer,
+    updateServerVariable,
     removeServer,
     // Security Schemes
     addSecurityScheme,
     addCognitoSecurityScheme,
     updateSecurityScheme,
     removeSecurityScheme,
+    toggleOAuthFlow,
+    updateOAuthFlow,
+    addOAuthScope,
+    updateOAuthScope,
+    removeOAuthScope,
+    updateGlobalSecurity,
     // Paths
     addPath,
     updatePath,
     removePath,
+    updateOperation,
     addOperation,
     removeOperation,
     duplicatePath,
@@ -835,6 +1386,10 @@ export const useSwaggerDocument = () => {
     updateResponse,
     removeResponse,
     addCommonErrorResponses,
+    // Response Headers
+    addResponseHeader,
+    updateResponseHeader,
+    removeResponseHeader,
     // Request Body
     addRequestBody,
     updateRequestBody,
@@ -850,5 +1405,16 @@ export const useSwaggerDocument = () => {
     addSchemaProperty,
     updateSchemaProperty,
     removeSchemaProperty,
+    // Reusable Components
+    addComponent,
+    updateComponent,
+    removeComponent,
+    addParameterRef,
+    addResponseRef,
+    addResponseHeaderRef,
+    // Lint Rules
+    updateLintRule,
+    resetLintRules,
+    updateSpectralRuleset,
   };
 };
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type { PathOperation } from './swagger';
+
+export type ApiChangeType = 'added' | 'removed' | 'changed' | 'deprecated';
+
+export type ApiChangeArea = 'path' | 'operation' | 'parameter' | 'requestBody' | 'response' | 'schema' | 'property';
+
+export interface ApiChange {
+  type: ApiChangeType;
+  area: ApiChangeArea;
+  breaking: boolean; // Existing clients may stop working
+  location: string; // e.g. "GET /pets/{id}" or "schema Pet"
+  message: string;
+  path?: string; // Set on path and operation level changes
+  method?: PathOperation['method']; // Set on operation level changes
+  schema?: string; // Set on schema and property changes
+}
@@ -0,0 +1,19 @@
+import type { OpenApiObject } from './openapi';
+import type { ValidationSeverity } from './validation';
+
+export type LintSeverity = ValidationSeverity | 'off';
+
+export interface LintFinding {
+  path: string[]; // Location in the spec, e.g. ['paths', '/pets', 'get']
+  message: string;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity; // Used unless the document overrides it
+  check: (spec: OpenApiObject) => LintFinding[];
+}
+
+// Rule id -> severity chosen for a document; rules not listed keep their default
+export type LintRuleSettings = Record<string, LintSeverity>;
@@ -0,0 +1,164 @@
+/**
+ * Plain-object shapes of an OpenAPI 3.0 document.
+ * These mirror the spec rather than the editor model in `swagger.ts` and are
+ * what `toOpenApiObject` produces before serialization to YAML or JSON.
+ */
+
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiSchemaObject {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  description?: string;
+  properties?: Record<string, OpenApiSchemaObject>;
+  items?: OpenApiSchemaObject;
+  required?: string[];
+  enum?: unknown[];
+  default?: unknown;
+  example?: unknown;
+  nullable?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  allOf?: OpenApiSchemaObject[];
+  oneOf?: OpenApiSchemaObject[];
+  anyOf?: OpenApiSchemaObject[];
+  discriminator?: OpenApiDiscriminator;
+}
+
+export interface OpenApiDiscriminator {
+  propertyName: string;
+  mapping?: Record<string, string>;
+}
+
+export interface OpenApiExample {
+  summary?: string;
+  description?: string;
+  value?: unknown;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchemaObject;
+  examples?: Record<string, OpenApiExample | OpenApiReference>;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: string;
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  schema?: OpenApiSchemaObject;
+  example?: unknown;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiHeader {
+  description?: string;
+  schema: OpenApiSchemaObject;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, OpenApiHeader | OpenApiReference>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+export interface OpenApiOperation {
+  tags?: string[];
+  summary?: string;
+  operationId?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+  requestBody?: OpenApiRequestBody | OpenApiReference;
+  responses: Record<string, OpenApiResponse | OpenApiReference>;
+  security?: OpenApiSecurityRequirement[];
+}
+
+export type OpenApiPathItem = Partial<Record<string, OpenApiOperation>>;
+
+export interface OpenApiOAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+}
+
+export interface OpenApiSecuritySchemeObject {
+  type: string;
+  scheme?: string;
+  bearerFormat?: string;
+  in?: string;
+  name?: string;
+  flows?: Record<string, OpenApiOAuthFlow>;
+  openIdConnectUrl?: string;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  description?: string;
+  version: string;
+  termsOfService?: string;
+  contact?: {
+    name?: string;
+    email?: string;
+    url?: string;
+  };
+  license?: {
+    name: string;
+    url?: string;
+  };
+}
+
+export interface OpenApiServerVariable {
+  default: string;
+  enum?: string[];
+  description?: string;
+}
+
+export interface OpenApiServer {
+  url: string;
+  description?: string;
+  variables?: Record<string, OpenApiServerVariable>;
+}
+
+export interface OpenApiTag {
+  name: string;
+  description?: string;
+}
+
+export interface OpenApiComponents {
+  securitySchemes?: Record<string, OpenApiSecuritySchemeObject>;
+  schemas?: Record<string, OpenApiSchemaObject>;
+  parameters?: Record<string, OpenApiParameter | OpenApiReference>;
+  responses?: Record<string, OpenApiResponse | OpenApiReference>;
+  requestBodies?: Record<string, OpenApiRequestBody | OpenApiReference>;
+  headers?: Record<string, OpenApiHeader | OpenApiReference>;
+  examples?: Record<string, OpenApiExample>;
+}
+
+export interface OpenApiObject {
+  openapi: string;
+  info: OpenApiInfo;
+  servers?: OpenApiServer[];
+  tags?: OpenApiTag[];
+  paths: Record<string, OpenApiPathItem>;
+  components?: OpenApiComponents;
+  security?: OpenApiSecurityRequirement[];
+}
@@ -1,3 +1,9 @@
+import type { LintRuleSettings } from './lint';
+
+// Parts of an imported spec that the editor doesn't model (x- extensions, externalDocs, ...).
+// Kept as-is on the closest model node and merged back into the output on export.
+export type Passthrough = Record<string, unknown>;
+
 export interface SwaggerContact {
   name?: string;
   url?: string;
@@ -16,6 +22,7 @@ export interface SwaggerInfo {
   termsOfService?: string;
   contact?: SwaggerContact;
   license?: SwaggerLicense;
+  passthrough?: Passthrough;
 }
 
 export interface SwaggerServerVariable {
@@ -28,6 +35,21 @@ export interface SwaggerServer {
   url: string;
   description: string;
   variables?: Record<string, SwaggerServerVariable>;
+  passthrough?: Passthrough;
+}
+
+export type OAuthFlowType = 'authorizationCode' | 'clientCredentials' | 'implicit' | 'password';
+
+export interface OAuthScope {
+  name: string;
+  description: string;
+}
+
+export interface OAuthFlow {
+  authorizationUrl?: string; // for authorizationCode and implicit flows
+  tokenUrl?: string; // for authorizationCode, clientCredentials and password flows
+  refreshUrl?: string;
+  scopes: OAuthScope[];
 }
 
 export interface SwaggerSecurityScheme {
@@ -37,11 +59,19 @@ export interface SwaggerSecurityScheme {
   bearerFormat?: string; // e.g., 'JWT'
   in?: 'header' | 'query' | 'cookie'; // for apiKey type
   apiKeyName?: string; // the name of the header/query/cookie for apiKey
+  flows?: Partial<Record<OAuthFlowType, OAuthFlow>>; // for oauth2 type
+  openIdConnectUrl?: string; // for openIdConnect type
+  passthrough?: Passthrough;
 }
 
+// Scheme name -> required scopes. All schemes in one requirement must be satisfied together (AND);
+// a list of requirements offers alternatives (OR).
+export type SecurityRequirement = Record<string, string[]>;
+
 export interface SwaggerTag {
   name: string;
   description: string;
+  passthrough?: Passthrough;
 }
 
 export interface SchemaProperty {
@@ -65,8 +95,23 @@ export interface SchemaProperty {
   items?: {
     type?: string;
     $ref?: string;
+    properties?: SchemaProperty[]; // Inline item properties when type is 'object' and there is no $ref
   }; // For array types - defines the type of items
   enumValues?: string; // Raw comma-separated enum values (stored as string for easier editing)
+  properties?: SchemaProperty[]; // Inline nested properties when type is 'object' and there is no $ref
+  passthrough?: Passthrough;
+}
+
+export type SchemaComposition = 'allOf' | 'oneOf' | 'anyOf';
+
+export interface DiscriminatorMapping {
+  value: string; // Value of the discriminator property
+  schemaRef: string; // Name of the schema selected by that value
+}
+
+export interface SchemaDiscriminator {
+  propertyName: string;
+  mapping: DiscriminatorMapping[];
 }
 
 export interface SwaggerSchema {
@@ -74,9 +119,14 @@ export interface SwaggerSchema {
   type: 'object' | 'array';
   properties: SchemaProperty[];
   isTemplate?: boolean; // Flag to indicate if this is a prepopulated template schema
+  composition?: SchemaComposition; // allOf extends the referenced schemas with `properties`; oneOf/anyOf ignore them
+  compositionRefs?: string[]; // Names of the schemas being composed
+  discriminator?: SchemaDiscriminator;
+  passthrough?: Passthrough;
 }
 
 export interface PathParameter {
+  $ref?: string; // Name of a reusable parameter in components.parameters; other fields are ignored when set
   name: string;
   in: 'path' | 'query' | 'header' | 'cookie';
   description: string;
@@ -87,29 +137,39 @@ export interface PathParameter {
   example?: string;
   default?: string;
   deprecated?: boolean;
+  passthrough?: Passthrough;
 }
 
 export interface ResponseHeader {
+  $ref?: string; // Name of a reusable header in components.headers; `name` is still the header name
   name: string;
   description: string;
   schema: {
     type: string;
   };
+  passthrough?: Passthrough;
 }
 
 export interface PathResponse {
+  $ref?: string; // Name of a reusable response in components.responses; only statusCode applies when set
   statusCode: string;
   description: string;
   schemaRef: string;
   contentType?: string;
   headers?: ResponseHeader[];
+  noContent?: boolean; // Response has no body (e.g. 204), so no content block is emitted
+  exampleRefs?: string[]; // Names of components.examples attached to the content type
+  passthrough?: Passthrough;
 }
 
 export interface RequestBody {
+  $ref?: string; // Name of a reusable request body in components.requestBodies; other fields are ignored when set
   description: string;
   required: boolean;
   schemaRef: string;
   contentType: string;
+  exampleRefs?: string[]; // Names of components.examples attached to the content type
+  passthrough?: Passthrough;
 }
 
 export interface PathOperation {
@@ -122,20 +182,58 @@ export interface PathOperation {
   parameters: PathParameter[];
   responses: PathResponse[];
   requestBody?: RequestBody;
-  security?: string[]; // Names of security schemes to apply
+  security?: SecurityRequirement[]; // undefined inherits the global security, [] makes the operation public
+  passthrough?: Passthrough;
 }
 
 export interface SwaggerPath {
   path: string;
   operations: PathOperation[];
+  passthrough?: Passthrough;
 }
 
+// Reusable definitions under `components`, referenced from operations by name via $ref
+export interface ComponentParameter extends PathParameter {
+  key: string; // Component name; `name` stays the parameter's own name
+}
+
+export interface ComponentResponse extends Omit<PathResponse, '$ref' | 'statusCode'> {
+  name: string;
+}
+
+export interface ComponentRequestBody extends Omit<RequestBody, '$ref'> {
+  name: string;
+}
+
+export interface ComponentExample {
+  name: string;
+  summary: string;
+  description: string;
+  value: string; // JSON or YAML text, parsed on export
+  passthrough?: Passthrough;
+}
+
+export interface SwaggerComponents {
+  parameters: ComponentParameter[];
+  responses: ComponentResponse[];
+  requestBodies: ComponentRequestBody[];
+  headers: ResponseHeader[]; // `name` is the component name
+  examples: ComponentExample[];
+}
+
+export type ComponentKind = keyof SwaggerComponents;
+
 export interface SwaggerDocument {
   openapi: string;
   info: SwaggerInfo;
   servers: SwaggerServer[];
   securitySchemes: SwaggerSecurityScheme[];
+  security: SecurityRequirement[]; // Global security applied to operations that don't override it
   tags: SwaggerTag[];
   paths: SwaggerPath[];
   schemas: SwaggerSchema[];
+  components: SwaggerComponents;
+  lintRules?: LintRuleSettings; // Style guide rule overrides for this document; not part of the exported spec
+  spectralRuleset?: string; // Imported Spectral ruleset (YAML or JSON), run next to the built-in rules
+  passthrough?: Passthrough;
 }
\ No newline at end of file
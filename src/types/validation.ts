@@ -2,9 +2,11 @@ export type ValidationSeverity = 'error' | 'warning';
 
 export interface ValidationError {
   path: string;
+  pathSegments?: string[]; // Unjoined path, since keys such as "/v1.0/pets" may contain dots
   message: string;
   severity: ValidationSeverity;
   line?: number;
+  ruleId?: string; // Set on style guide findings from the lint ruleset
 }
 
 export interface ValidationResult {
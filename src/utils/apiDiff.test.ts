@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { SwaggerDocument } from '../types/swagger';
+import { diffDocuments } from './apiDiff';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+
+const PATHS = `${SPEC_HEADER}paths:
+  /pets:
+    post:
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/NewPet' }
+      responses:
+        '201':
+          description: Created
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+`;
+
+// The same API with the given Pet and NewPet properties
+const importPets = (pet: string, newPet: string): SwaggerDocument =>
+  importSpec(`${PATHS}components:
+  schemas:
+    Owner: { type: object, properties: { name: { type: string } } }
+    Pet: { type: object, ${pet} }
+    NewPet: { type: object, ${newPet} }
+`);
+
+const PET = 'properties: { id: { type: string } }';
+const PET_WITH_OWNER = `properties: { id: { type: string }, owner: { $ref: '#/components/schemas/Owner' } }`;
+
+const propertyChanges = (before: SwaggerDocument, after: SwaggerDocument) =>
+  diffDocuments(before, after)
+    .filter((item) => item.area === 'property')
+    .map(({ schema, message, breaking }) => ({ schema, message, breaking }));
+
+describe('diffDocuments required properties', () => {
+  it('breaks clients when a request schema gains a required property', () => {
+    const before = importPets(PET, PET);
+    const after = importPets(PET, `required: [name], properties: { id: { type: string }, name: { type: string } }`);
+
+    expect(propertyChanges(before, after)).toEqual([
+      { schema: 'NewPet', message: 'Required property name added', breaking: true },
+    ]);
+  });
+
+  it('does not break clients when a response schema gains a required property', () => {
+    const before = importPets(PET, PET);
+    const after = importPets(`required: [id], ${PET}`, PET);
+
+    expect(propertyChanges(before, after)).toEqual([
+      { schema: 'Pet', message: 'Property id is now required', breaking: false },
+    ]);
+  });
+
+  it('breaks clients when a response property is no longer required', () => {
+    const before = importPets(`required: [id], ${PET}`, `required: [id], ${PET}`);
+    const after = importPets(PET, PET);
+
+    expect(propertyChanges(before, after)).toEqual([
+      { schema: 'Pet', message: 'Property id is no longer required', breaking: true },
+      { schema: 'NewPet', message: 'Property id is no longer required', breaking: false },
+    ]);
+  });
+
+  it('classifies schemas referenced from a response schema as responses', () => {
+    const before = importPets(PET_WITH_OWNER, PET);
+    const after = importPets(PET_WITH_OWNER, PET);
+    after.schemas.find((schema) => schema.name === 'Owner')!.properties[0].required = true;
+
+    expect(propertyChanges(before, after)).toEqual([
+      { schema: 'Owner', message: 'Property name is now required', breaking: false },
+    ]);
+  });
+});
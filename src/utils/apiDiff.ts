@@ -0,0 +1,513 @@
+import type {
+  SwaggerDocument,
+  SwaggerPath,
+  PathOperation,
+  PathParameter,
+  PathResponse,
+  RequestBody,
+  ResponseHeader,
+  SwaggerSchema,
+  SchemaProperty,
+  SecurityRequirement,
+} from '../types/swagger';
+import type { ApiChange, ApiChangeArea, ApiChangeType } from '../types/apiDiff';
+import { withSchemaDependencies } from './schemaDependencies';
+
+interface Matched<T> {
+  added: T[];
+  removed: T[];
+  common: Array<[T, T]>;
+}
+
+// Pair up items of two lists by key
+const matchBy = <T>(before: T[], after: T[], key: (item: T) => string): Matched<T> => {
+  const beforeByKey = new Map(before.map((item) => [key(item), item]));
+  const afterByKey = new Map(after.map((item) => [key(item), item]));
+  return {
+    added: after.filter((item) => !beforeByKey.has(key(item))),
+    removed: before.filter((item) => !afterByKey.has(key(item))),
+    common: before.flatMap((item): Array<[T, T]> => {
+      const match = afterByKey.get(key(item));
+      return match ? [[item, match]] : [];
+    }),
+  };
+};
+
+const change = (
+  type: ApiChangeType,
+  area: ApiChangeArea,
+  breaking: boolean,
+  location: string,
+  message: string
+): ApiChange => ({ type, area, breaking, location, message });
+
+const parseEnum = (raw: string | undefined): string[] =>
+  raw ? raw.split(',').map((v) => v.trim()).filter((v) => v !== '') : [];
+
+const formatList = (values: string[]): string => values.join(', ');
+
+/**
+ * Enum changes: dropping values (or introducing an enum) narrows what is accepted
+ */
+const diffEnum = (
+  before: string | undefined,
+  after: string | undefined,
+  area: ApiChangeArea,
+  location: string,
+  subject: string
+): ApiChange[] => {
+  const oldValues = parseEnum(before);
+  const newValues = parseEnum(after);
+  if (oldValues.length === 0 && newValues.length === 0) return [];
+  if (oldValues.length === 0) {
+    return [change('changed', area, true, location, `${subject} is now limited to ${formatList(newValues)}`)];
+  }
+  if (newValues.length === 0) {
+    return [change('changed', area, false, location, `${subject} no longer has an enum`)];
+  }
+  const changes: ApiChange[] = [];
+  const removed = oldValues.filter((value) => !newValues.includes(value));
+  const added = newValues.filter((value) => !oldValues.includes(value));
+  if (removed.length > 0) {
+    changes.push(change('changed', area, true, location, `${subject} enum values removed: ${formatList(removed)}`));
+  }
+  if (added.length > 0) {
+    changes.push(change('changed', area, false, location, `${subject} enum values added: ${formatList(added)}`));
+  }
+  return changes;
+};
+
+const LIMITS: Array<{ key: 'minLength' | 'maxLength' | 'minimum' | 'maximum'; tighterWhenHigher: boolean }> = [
+  { key: 'minLength', tighterWhenHigher: true },
+  { key: 'maxLength', tighterWhenHigher: false },
+  { key: 'minimum', tighterWhenHigher: true },
+  { key: 'maximum', tighterWhenHigher: false },
+];
+
+const diffLimits = (before: SchemaProperty, after: SchemaProperty, location: string, subject: string): ApiChange[] =>
+  LIMITS.flatMap(({ key, tighterWhenHigher }) => {
+    const oldLimit = before[key];
+    const newLimit = after[key];
+    if (oldLimit === newLimit) return [];
+    const tightened =
+      newLimit !== undefined &&
+      (oldLimit === undefined || (tighterWhenHigher ? newLimit > oldLimit : newLimit < oldLimit));
+    return [
+      change('changed', 'property', tightened, location, `${subject} ${key} changed from ${oldLimit ?? 'none'} to ${newLimit ?? 'none'}`),
+    ];
+  });
+
+const describeType = (type: string | undefined, format?: string): string =>
+  `${type || 'any'}${format ? ` (${format})` : ''}`;
+
+const describePropertyType = (property: SchemaProperty): string => {
+  if (property.$ref) return property.$ref;
+  if (property.type === 'array') {
+    return `array of ${property.items?.$ref || property.items?.type || 'any'}`;
+  }
+  return describeType(property.type, property.format);
+};
+
+// Whether a schema is sent by clients (request bodies) and/or read by them (responses)
+interface SchemaUsage {
+  request: boolean;
+  response: boolean;
+}
+
+/**
+ * Compare two property lists, recursing into inline object and array item properties.
+ * A newly required property breaks clients that send the schema; a property that is no
+ * longer required breaks clients that read it. Schemas not used by any operation are
+ * treated as requests.
+ */
+const diffProperties = (
+  before: SchemaProperty[],
+  after: SchemaProperty[],
+  location: string,
+  usage: SchemaUsage,
+  prefix = ''
+): ApiChange[] => {
+  const requiringBreaks = usage.request || !usage.response;
+  const { added, removed, common } = matchBy(before, after, (property) => property.name);
+  const changes: ApiChange[] = [
+    ...removed.map((property) =>
+      change('removed', 'property', true, location, `Property ${prefix}${property.name} removed`)
+    ),
+    ...added.map((property) =>
+      property.required
+        ? change('added', 'property', requiringBreaks, location, `Required property ${prefix}${property.name} added`)
+        : change('added', 'property', false, location, `Optional property ${prefix}${property.name} added`)
+    ),
+  ];
+
+  common.forEach(([oldProperty, newProperty]) => {
+    const subject = `Property ${prefix}${newProperty.name}`;
+    const oldType = describePropertyType(oldProperty);
+    const newType = describePropertyType(newProperty);
+    if (oldType !== newType) {
+      changes.push(change('changed', 'property', true, location, `${subject} type changed from ${oldType} to ${newType}`));
+    }
+    if (!oldProperty.required && newProperty.required) {
+      changes.push(change('changed', 'property', requiringBreaks, location, `${subject} is now required`));
+    } else if (oldProperty.required && !newProperty.required) {
+      changes.push(change('changed', 'property', usage.response, location, `${subject} is no longer required`));
+    }
+    if (oldProperty.nullable && !newProperty.nullable) {
+      changes.push(change('changed', 'property', true, location, `${subject} is no longer nullable`));
+    }
+    if ((oldProperty.pattern || '') !== (newProperty.pattern || '')) {
+      changes.push(change('changed', 'property', Boolean(newProperty.pattern), location, `${subject} pattern changed`));
+    }
+    if (!oldProperty.deprecated && newProperty.deprecated) {
+      changes.push(change('deprecated', 'property', false, location, `${subject} deprecated`));
+    }
+    changes.push(...diffEnum(oldProperty.enumValues, newProperty.enumValues, 'property', location, subject));
+    changes.push(...diffLimits(oldProperty, newProperty, location, subject));
+    changes.push(
+      ...diffProperties(oldProperty.properties || [], newProperty.properties || [], location, usage, `${prefix}${newProperty.name}.`),
+      ...diffProperties(
+        oldProperty.items?.properties || [],
+        newProperty.items?.properties || [],
+        location,
+        usage,
+        `${prefix}${newProperty.name}[].`
+      )
+    );
+  });
+  return changes;
+};
+
+const diffSchema = (before: SwaggerSchema, after: SwaggerSchema, usage: SchemaUsage): ApiChange[] => {
+  const location = `schema ${after.name}`;
+  const changes: ApiChange[] = [];
+  if (before.type !== after.type) {
+    changes.push(change('changed', 'schema', true, location, `Type changed from ${before.type} to ${after.type}`));
+  }
+  const oldComposition = `${before.composition || ''} ${formatList(before.compositionRefs || [])}`;
+  const newComposition = `${after.composition || ''} ${formatList(after.compositionRefs || [])}`;
+  if (oldComposition !== newComposition) {
+    changes.push(
+      change('changed', 'schema', true, location, `Composition changed from ${oldComposition.trim() || 'none'} to ${newComposition.trim() || 'none'}`)
+    );
+  }
+  if ((before.discriminator?.propertyName || '') !== (after.discriminator?.propertyName || '')) {
+    changes.push(change('changed', 'schema', true, location, 'Discriminator property changed'));
+  }
+  return [...changes, ...diffProperties(before.properties, after.properties, location, usage)].map((item) => ({
+    ...item,
+    schema: after.name,
+  }));
+};
+
+// Names of the {templated} segments of a path, in order
+const getPathParameterNames = (path: string): string[] =>
+  Array.from(path.matchAll(/\{([^}]+)\}/g), (match) => match[1]);
+
+// Templated segments are compared by position, so /pets/{id} and /pets/{petId} are the same path
+export const normalizePath = (path: string): string => path.replace(/\{[^}]+\}/g, '{}');
+
+const resolveParameter = (parameter: PathParameter, doc: SwaggerDocument): PathParameter => {
+  if (!parameter.$ref) return parameter;
+  return doc.components.parameters.find((component) => component.key === parameter.$ref) || {
+    ...parameter,
+    name: parameter.$ref,
+  };
+};
+
+const parameterKey = (parameter: PathParameter, pathParameterNames: string[]): string =>
+  parameter.in === 'path' && pathParameterNames.includes(parameter.name)
+    ? `path:#${pathParameterNames.indexOf(parameter.name)}`
+    : `${parameter.in}:${parameter.name}`;
+
+const diffParameters = (
+  before: PathParameter[],
+  after: PathParameter[],
+  context: { beforeDoc: SwaggerDocument; afterDoc: SwaggerDocument; beforePath: string; afterPath: string },
+  location: string
+): ApiChange[] => {
+  const oldNames = getPathParameterNames(context.beforePath);
+  const newNames = getPathParameterNames(context.afterPath);
+  const oldParams = before.map((parameter) => resolveParameter(parameter, context.beforeDoc));
+  const newParams = after.map((parameter) => resolveParameter(parameter, context.afterDoc));
+  const oldByKey = new Map(oldParams.map((parameter) => [parameterKey(parameter, oldNames), parameter]));
+  const newByKey = new Map(newParams.map((parameter) => [parameterKey(parameter, newNames), parameter]));
+
+  const changes: ApiChange[] = [];
+  oldByKey.forEach((parameter, key) => {
+    if (!newByKey.has(key)) {
+      changes.push(change('removed', 'parameter', true, location, `${parameter.in} parameter ${parameter.name} removed`));
+    }
+  });
+  newByKey.forEach((parameter, key) => {
+    const oldParameter = oldByKey.get(key);
+    const subject = `${parameter.in} parameter ${parameter.name}`;
+    if (!oldParameter) {
+      changes.push(
+        parameter.required
+          ? change('added', 'parameter', true, location, `Required ${subject} added`)
+          : change('added', 'parameter', false, location, `Optional ${subject} added`)
+      );
+      return;
+    }
+    const oldType = describeType(oldParameter.type, oldParameter.format);
+    const newType = describeType(parameter.type, parameter.format);
+    if (oldType !== newType) {
+      changes.push(change('changed', 'parameter', true, location, `${subject} type changed from ${oldType} to ${newType}`));
+    }
+    if (!oldParameter.required && parameter.required) {
+      changes.push(change('changed', 'parameter', true, location, `${subject} is now required`));
+    } else if (oldParameter.required && !parameter.required) {
+      changes.push(change('changed', 'parameter', false, location, `${subject} is no longer required`));
+    }
+    if (!oldParameter.deprecated && parameter.deprecated) {
+      changes.push(change('deprecated', 'parameter', false, location, `${subject} deprecated`));
+    }
+    changes.push(...diffEnum(oldParameter.enum, parameter.enum, 'parameter', location, subject));
+  });
+  return changes;
+};
+
+type ResolvedRequestBody = Omit<RequestBody, '$ref'>;
+
+const resolveRequestBody = (body: RequestBody | undefined, doc: SwaggerDocument): ResolvedRequestBody | undefined => {
+  if (!body?.$ref) return body;
+  return doc.components.requestBodies.find((component) => component.name === body.$ref) || body;
+};
+
+const diffRequestBody = (
+  before: ResolvedRequestBody | undefined,
+  after: ResolvedRequestBody | undefined,
+  location: string
+): ApiChange[] => {
+  if (!before && !after) return [];
+  if (!before && after) {
+    return [
+      after.required
+        ? change('added', 'requestBody', true, location, 'Required request body added')
+        : change('added', 'requestBody', false, location, 'Optional request body added'),
+    ];
+  }
+  if (before && !after) {
+    return [change('removed', 'requestBody', true, location, 'Request body removed')];
+  }
+  if (!before || !after) return [];
+
+  const changes: ApiChange[] = [];
+  if (!before.required && after.required) {
+    changes.push(change('changed', 'requestBody', true, location, 'Request body is now required'));
+  } else if (before.required && !after.required) {
+    changes.push(change('changed', 'requestBody', false, location, 'Request body is no longer required'));
+  }
+  if (before.contentType !== after.contentType) {
+    changes.push(
+      change('changed', 'requestBody', true, location, `Request content type changed from ${before.contentType} to ${after.contentType}`)
+    );
+  }
+  if (before.schemaRef !== after.schemaRef) {
+    changes.push(
+      change('changed', 'requestBody', true, location, `Request schema changed from ${before.schemaRef || 'none'} to ${after.schemaRef || 'none'}`)
+    );
+  }
+  return changes;
+};
+
+type ResolvedResponse = Omit<PathResponse, '$ref'>;
+
+const resolveResponse = (response: PathResponse, doc: SwaggerDocument): ResolvedResponse => {
+  const component = response.$ref && doc.components.responses.find((item) => item.name === response.$ref);
+  return component ? { ...component, statusCode: response.statusCode } : response;
+};
+
+const resolveHeader = (header: ResponseHeader, doc: SwaggerDocument): ResponseHeader =>
+  (header.$ref && doc.components.headers.find((component) => component.name === header.$ref)) || header;
+
+const isSuccessStatus = (statusCode: string): boolean => statusCode.startsWith('2');
+
+const diffResponses = (
+  before: PathResponse[],
+  after: PathResponse[],
+  context: { beforeDoc: SwaggerDocument; afterDoc: SwaggerDocument },
+  location: string
+): ApiChange[] => {
+  const { added, removed, common } = matchBy(before, after, (response) => response.statusCode);
+  const changes: ApiChange[] = [
+    // Clients rely on documented success responses; dropping an error response only narrows what can go wrong
+    ...removed.map((response) =>
+      change('removed', 'response', isSuccessStatus(response.statusCode), location, `Response ${response.statusCode} removed`)
+    ),
+    ...added.map((response) => change('added', 'response', false, location, `Response ${response.statusCode} added`)),
+  ];
+
+  common.forEach(([oldRaw, newRaw]) => {
+    const oldResponse = resolveResponse(oldRaw, context.beforeDoc);
+    const newResponse = resolveResponse(newRaw, context.afterDoc);
+    const subject = `Response ${newResponse.statusCode}`;
+    if (Boolean(oldResponse.noContent) !== Boolean(newResponse.noContent)) {
+      changes.push(
+        change('changed', 'response', true, location, newResponse.noContent ? `${subject} no longer has a body` : `${subject} now has a body`)
+      );
+    } else if (!newResponse.noContent) {
+      if ((oldResponse.contentType || '') !== (newResponse.contentType || '')) {
+        changes.push(change('changed', 'response', true, location, `${subject} content type changed`));
+      }
+      if (oldResponse.schemaRef !== newResponse.schemaRef) {
+        changes.push(
+          change('changed', 'response', true, location, `${subject} schema changed from ${oldResponse.schemaRef || 'none'} to ${newResponse.schemaRef || 'none'}`)
+        );
+      }
+    }
+
+    const headers = matchBy(
+      (oldResponse.headers || []).map((header) => resolveHeader(header, context.beforeDoc)),
+      (newResponse.headers || []).map((header) => resolveHeader(header, context.afterDoc)),
+      (header) => header.name.toLowerCase()
+    );
+    headers.removed.forEach((header) =>
+      changes.push(change('removed', 'response', true, location, `${subject} header ${header.name} removed`))
+    );
+    headers.added.forEach((header) =>
+      changes.push(change('added', 'response', false, location, `${subject} header ${header.name} added`))
+    );
+    headers.common.forEach(([oldHeader, newHeader]) => {
+      if (oldHeader.schema.type !== newHeader.schema.type) {
+        changes.push(
+          change('changed', 'response', true, location, `${subject} header ${newHeader.name} type changed from ${oldHeader.schema.type} to ${newHeader.schema.type}`)
+        );
+      }
+    });
+  });
+  return changes;
+};
+
+// Order-independent form of a list of security requirements
+const canonicalSecurity = (requirements: SecurityRequirement[]): string =>
+  JSON.stringify(
+    requirements
+      .map((requirement) =>
+        Object.keys(requirement)
+          .sort()
+          .map((name) => `${name}:${[...requirement[name]].sort().join(' ')}`)
+          .join('&')
+      )
+      .sort()
+  );
+
+const diffOperation = (
+  before: PathOperation,
+  after: PathOperation,
+  context: { beforeDoc: SwaggerDocument; afterDoc: SwaggerDocument; beforePath: string; afterPath: string }
+): ApiChange[] => {
+  const location = `${after.method.toUpperCase()} ${context.afterPath}`;
+  const changes: ApiChange[] = [];
+  if (!before.deprecated && after.deprecated) {
+    changes.push(change('deprecated', 'operation', false, location, 'Operation deprecated'));
+  }
+  if (before.operationId && before.operationId !== after.operationId) {
+    // Generated clients name their methods after the operationId
+    changes.push(
+      change('changed', 'operation', true, location, `operationId changed from ${before.operationId} to ${after.operationId || 'none'}`)
+    );
+  }
+
+  const oldSecurity = before.security ?? context.beforeDoc.security;
+  const newSecurity = after.security ?? context.afterDoc.security;
+  if (canonicalSecurity(oldSecurity) !== canonicalSecurity(newSecurity)) {
+    changes.push(
+      newSecurity.length === 0
+        ? change('changed', 'operation', false, location, 'Operation no longer requires authentication')
+        : change('changed', 'operation', true, location, 'Security requirements changed')
+    );
+  }
+
+  return [
+    ...changes,
+    ...diffParameters(before.parameters, after.parameters, context, location),
+    ...diffRequestBody(
+      resolveRequestBody(before.requestBody, context.beforeDoc),
+      resolveRequestBody(after.requestBody, context.afterDoc),
+      location
+    ),
+    ...diffResponses(before.responses, after.responses, context, location),
+  ];
+};
+
+const diffPath = (
+  before: SwaggerPath,
+  after: SwaggerPath,
+  beforeDoc: SwaggerDocument,
+  afterDoc: SwaggerDocument
+): ApiChange[] => {
+  const { added, removed, common } = matchBy(before.operations, after.operations, (operation) => operation.method);
+  const locate = (operation: PathOperation) => `${operation.method.toUpperCase()} ${after.path}`;
+  const withOperation = (operation: PathOperation, changes: ApiChange[]): ApiChange[] =>
+    changes.map((item) => ({ ...item, path: after.path, method: operation.method }));
+  return [
+    ...removed.flatMap((operation) =>
+      withOperation(operation, [change('removed', 'operation', true, locate(operation), 'Operation removed')])
+    ),
+    ...added.flatMap((operation) =>
+      withOperation(operation, [change('added', 'operation', false, locate(operation), 'Operation added')])
+    ),
+    ...common.flatMap(([oldOperation, newOperation]) =>
+      withOperation(
+        newOperation,
+        diffOperation(oldOperation, newOperation, { beforeDoc, afterDoc, beforePath: before.path, afterPath: after.path })
+      )
+    ),
+  ];
+};
+
+/**
+ * Names of the schemas used by request bodies and by responses, including the schemas
+ * those reference. Parameters are plain values here and never use a schema.
+ */
+const getSchemaUsage = (doc: SwaggerDocument): { request: Set<string>; response: Set<string> } => {
+  const operations = doc.paths.flatMap((path) => path.operations);
+  const withDependencies = (names: string[]) =>
+    new Set(names.filter(Boolean).flatMap((name) => withSchemaDependencies(doc.schemas, name).map((schema) => schema.name)));
+  return {
+    request: withDependencies(
+      operations.map((operation) => resolveRequestBody(operation.requestBody, doc)?.schemaRef || '')
+    ),
+    response: withDependencies(
+      operations.flatMap((operation) =>
+        operation.responses.map((response) => {
+          const resolved = resolveResponse(response, doc);
+          return resolved.noContent ? '' : resolved.schemaRef;
+        })
+      )
+    ),
+  };
+};
+
+/**
+ * Structured diff between two versions of an API, each change classified as
+ * breaking (existing clients may fail) or non-breaking.
+ * Components referenced via $ref are compared by their resolved content.
+ */
+export const diffDocuments = (before: SwaggerDocument, after: SwaggerDocument): ApiChange[] => {
+  const paths = matchBy(before.paths, after.paths, (path) => normalizePath(path.path));
+  const schemas = matchBy(before.schemas, after.schemas, (schema) => schema.name);
+  // A schema moved between requests and responses counts as both
+  const beforeUsage = getSchemaUsage(before);
+  const afterUsage = getSchemaUsage(after);
+  const usageOf = (name: string): SchemaUsage => ({
+    request: beforeUsage.request.has(name) || afterUsage.request.has(name),
+    response: beforeUsage.response.has(name) || afterUsage.response.has(name),
+  });
+
+  return [
+    ...paths.removed.map((path) => ({ ...change('removed', 'path', true, path.path, 'Path removed'), path: path.path })),
+    ...paths.added.map((path) => ({ ...change('added', 'path', false, path.path, 'Path added'), path: path.path })),
+    ...paths.common.flatMap(([oldPath, newPath]) => diffPath(oldPath, newPath, before, after)),
+    ...schemas.removed.map((schema) => ({
+      ...change('removed', 'schema', true, `schema ${schema.name}`, 'Schema removed'),
+      schema: schema.name,
+    })),
+    ...schemas.added.map((schema) => ({
+      ...change('added', 'schema', false, `schema ${schema.name}`, 'Schema added'),
+      schema: schema.name,
+    })),
+    ...schemas.common.flatMap(([oldSchema, newSchema]) => diffSchema(oldSchema, newSchema, usageOf(newSchema.name))),
+  ];
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { generateChangelog } from './changelog';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+
+// The pets API at the given version, with the given paths and Pet properties
+const importPets = (version: string, paths: string, petProperties: string) =>
+  importSpec(`${SPEC_HEADER.replace('1.0.0', version)}tags: [{ name: pets }, { name: stores }]
+paths:
+${paths}
+components:
+  schemas:
+    Pet: { type: object, properties: { ${petProperties} } }
+`);
+
+const BEFORE_PATHS = `  /pets:
+    get:
+      tags: [pets]
+      responses:
+        '200': { description: OK }
+  /health:
+    get:
+      responses:
+        '200': { description: OK }`;
+
+describe('generateChangelog', () => {
+  it('reports when nothing changed', () => {
+    const doc = importPets('1.0.0', BEFORE_PATHS, 'id: { type: string }');
+
+    expect(generateChangelog(doc, doc)).toBe('## Changelog\n\nNo API changes.\n');
+  });
+
+  it('groups endpoint changes by tag in declared order, untagged last, then schema changes', () => {
+    const before = importPets('1.0.0', BEFORE_PATHS, 'id: { type: string }');
+    const after = importPets(
+      '1.1.0',
+      `  /pets:
+    get:
+      tags: [pets]
+      deprecated: true
+      responses:
+        '200': { description: OK }
+  /stores:
+    get:
+      tags: [stores, pets]
+      summary: List stores
+      responses:
+        '200': { description: OK }
+  /health:
+    get:
+      parameters:
+        - { name: verbose, in: query, required: true, schema: { type: boolean } }
+      responses:
+        '200': { description: OK }`,
+      'id: { type: string }, name: { type: string }'
+    );
+
+    expect(generateChangelog(before, after)).toBe(
+      [
+        '## Changelog 1.0.0 → 1.1.0',
+        '',
+        '### pets',
+        '',
+        '#### Added endpoints',
+        '',
+        '- `GET /stores` - List stores',
+        '',
+        '#### Deprecated endpoints',
+        '',
+        '- `GET /pets`',
+        '',
+        '### stores',
+        '',
+        '#### Added endpoints',
+        '',
+        '- `GET /stores` - List stores',
+        '',
+        '### Other endpoints',
+        '',
+        '#### Breaking changes',
+        '',
+        '- `GET /health`: Required query parameter verbose added',
+        '',
+        '### Schema changes',
+        '',
+        '- **Pet**: Optional property name added',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('files an operation removed from a renamed path under its old tags', () => {
+    const before = importSpec(`${SPEC_HEADER}paths:
+  /pets/{id}:
+    get:
+      tags: [pets]
+      responses:
+        '200': { description: OK }
+    delete:
+      tags: [admin]
+      responses:
+        '204': { description: Deleted }
+`);
+    const after = importSpec(`${SPEC_HEADER}paths:
+  /pets/{petId}:
+    get:
+      tags: [pets]
+      responses:
+        '200': { description: OK }
+`);
+
+    const changelog = generateChangelog(before, after);
+
+    expect(changelog).toContain('### admin\n\n#### Breaking changes\n\n- `DELETE /pets/{petId}`: Endpoint removed');
+    expect(changelog).not.toContain('### Other endpoints');
+  });
+});
@@ -0,0 +1,127 @@
+import type { SwaggerDocument, SwaggerPath, PathOperation } from '../types/swagger';
+import type { ApiChange } from '../types/apiDiff';
+import { diffDocuments, normalizePath } from './apiDiff';
+
+// Heading for operations without any tag
+const UNTAGGED = 'Other endpoints';
+
+interface TagSections {
+  added: string[];
+  deprecated: string[];
+  breaking: string[];
+  other: string[];
+}
+
+const SECTION_TITLES: Record<keyof TagSections, string> = {
+  added: 'Added endpoints',
+  deprecated: 'Deprecated endpoints',
+  breaking: 'Breaking changes',
+  other: 'Other changes',
+};
+
+// Changes name the path as it is after the change, which may have renamed its parameters
+const findPath = (doc: SwaggerDocument, path: string): SwaggerPath | undefined =>
+  doc.paths.find((item) => normalizePath(item.path) === normalizePath(path));
+
+const endpointLabel = (method: string, path: string): string => `\`${method.toUpperCase()} ${path}\``;
+
+/**
+ * Operations a change applies to. Whole paths that were added or removed
+ * are expanded into their operations so each shows up under its tags.
+ * Removed operations are looked up in the old document, all others in the new one.
+ */
+const getAffectedOperations = (
+  item: ApiChange,
+  before: SwaggerDocument,
+  after: SwaggerDocument
+): Array<{ method: PathOperation['method']; operation?: PathOperation }> => {
+  if (!item.path) return [];
+  const path = findPath(item.type === 'removed' ? before : after, item.path);
+  if (item.method) {
+    return [{ method: item.method, operation: path?.operations.find((operation) => operation.method === item.method) }];
+  }
+  return (path?.operations || []).map((operation) => ({ method: operation.method, operation }));
+};
+
+const formatEndpointEntry = (
+  item: ApiChange,
+  method: string,
+  path: string,
+  operation: PathOperation | undefined
+): { section: keyof TagSections; line: string } => {
+  const label = endpointLabel(method, path);
+  const isEndpoint = item.area === 'path' || item.area === 'operation';
+  if (isEndpoint && item.type === 'added') {
+    return { section: 'added', line: `- ${label}${operation?.summary ? ` - ${operation.summary}` : ''}` };
+  }
+  if (isEndpoint && item.type === 'deprecated') {
+    return { section: 'deprecated', line: `- ${label}` };
+  }
+  if (isEndpoint && item.type === 'removed') {
+    return { section: 'breaking', line: `- ${label}: Endpoint removed` };
+  }
+  return { section: item.breaking ? 'breaking' : 'other', line: `- ${label}: ${item.message}` };
+};
+
+/**
+ * Human-readable Markdown changelog between two versions of a document,
+ * grouped by tag with added, deprecated, breaking and other endpoint changes,
+ * followed by schema changes
+ */
+export const generateChangelog = (before: SwaggerDocument, after: SwaggerDocument): string => {
+  const changes = diffDocuments(before, after);
+  const versions =
+    before.info.version !== after.info.version ? ` ${before.info.version} → ${after.info.version}` : '';
+  const lines: string[] = [`## Changelog${versions}`, ''];
+  if (changes.length === 0) {
+    return [...lines, 'No API changes.', ''].join('\n');
+  }
+
+  const sectionsByTag = new Map<string, TagSections>();
+  const addLine = (tag: string, section: keyof TagSections, line: string) => {
+    if (!sectionsByTag.has(tag)) {
+      sectionsByTag.set(tag, { added: [], deprecated: [], breaking: [], other: [] });
+    }
+    const sections = sectionsByTag.get(tag);
+    if (sections && !sections[section].includes(line)) {
+      sections[section].push(line);
+    }
+  };
+
+  changes.forEach((item) => {
+    if (!item.path) return;
+    const path = item.path;
+    getAffectedOperations(item, before, after).forEach(({ method, operation }) => {
+      const { section, line } = formatEndpointEntry(item, method, path, operation);
+      const tags = operation?.tags.length ? operation.tags : [UNTAGGED];
+      tags.forEach((tag) => addLine(tag, section, line));
+    });
+  });
+
+  // Declared tags first, in document order, then any others, then untagged operations
+  const declared = after.tags.map((tag) => tag.name);
+  const tagOrder = [
+    ...declared.filter((tag) => sectionsByTag.has(tag)),
+    ...Array.from(sectionsByTag.keys()).filter((tag) => !declared.includes(tag) && tag !== UNTAGGED),
+    ...(sectionsByTag.has(UNTAGGED) ? [UNTAGGED] : []),
+  ];
+  tagOrder.forEach((tag) => {
+    lines.push(`### ${tag}`, '');
+    const sections = sectionsByTag.get(tag);
+    (Object.keys(SECTION_TITLES) as Array<keyof TagSections>).forEach((section) => {
+      if (!sections || sections[section].length === 0) return;
+      lines.push(`#### ${SECTION_TITLES[section]}`, '', ...sections[section], '');
+    });
+  });
+
+  const schemaChanges = changes.filter((item) => item.schema);
+  if (schemaChanges.length > 0) {
+    lines.push('### Schema changes', '');
+    schemaChanges.forEach((item) => {
+      lines.push(`- **${item.schema}**: ${item.message}${item.breaking ? ' _(breaking)_' : ''}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { generateClient } from './clientGenerator';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+
+const SPEC = `${SPEC_HEADER}paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+        default:
+          description: Failure
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Error' }
+components:
+  schemas:
+    Error: { type: object, properties: { message: { type: string } } }
+    Pet: { type: object, properties: { id: { type: string }, lastError: { $ref: '#/components/schemas/Error' } } }
+`;
+
+describe('generateClient', () => {
+  it('renames schemas that would shadow global types', () => {
+    const client = generateClient(importSpec(SPEC));
+
+    expect(client).toContain('export interface ErrorSchema {');
+    expect(client).toContain('lastError?: ErrorSchema;');
+    expect(client).not.toMatch(/\binterface Error\b/);
+    expect(client).toContain('export class ApiError extends Error {');
+  });
+});
@@ -0,0 +1,336 @@
+import type {
+  PathOperation,
+  PathParameter,
+  SecurityRequirement,
+  SwaggerDocument,
+  SwaggerSecurityScheme,
+} from '../types/swagger';
+import { DEFAULT_RESPONSE_CONTENT_TYPE } from '../constants/contentTypes';
+import { generateOperationId } from './operationIdGenerator';
+import {
+  generateTypeScriptTypes,
+  toDocComment,
+  toIdentifier,
+  toPropertyKey,
+  toScalarType,
+  toSchemaTypeName,
+  toStringLiteral,
+  toTypeName,
+} from './typeScriptGenerator';
+
+// Parameters are grouped by location; cookies can't be set from a browser, so they are left out
+const PARAMETER_GROUPS: Array<{ in: PathParameter['in']; key: string }> = [
+  { in: 'path', key: 'path' },
+  { in: 'query', key: 'query' },
+  { in: 'header', key: 'headers' },
+];
+
+// Shared by every generated client: configuration, auth injection and the fetch wrapper
+const CLIENT_RUNTIME = String.raw`export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/** Thrown for responses outside the 2xx range, with the parsed response body */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super('Request failed with status ' + status);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** Set the base URL, credentials, default headers or fetch implementation used by every request */
+export const configureClient = (options: Partial<ClientConfig>): void => {
+  Object.assign(config, options);
+};
+
+const resolveToken = async (token: TokenProvider): Promise<string> =>
+  typeof token === 'function' ? token() : token;
+
+// Use the first security requirement whose credentials are all configured
+const applySecurity = async (
+  security: string[][],
+  headers: Record<string, string>,
+  query: URLSearchParams
+): Promise<void> => {
+  const auth = config.auth as Record<string, TokenProvider | undefined>;
+  const requirement = security.find((schemes) => schemes.length > 0 && schemes.every((name) => auth[name] !== undefined));
+  for (const name of requirement || []) {
+    const token = await resolveToken(auth[name] as TokenProvider);
+    const scheme = SECURITY_SCHEMES[name];
+    if (scheme.type === 'bearer') {
+      headers.Authorization = 'Bearer ' + token;
+    } else if (scheme.type === 'basic') {
+      headers.Authorization = 'Basic ' + btoa(token);
+    } else if (scheme.in === 'query') {
+      query.set(scheme.name, token);
+    } else if (scheme.in === 'cookie') {
+      headers.Cookie = (headers.Cookie ? headers.Cookie + '; ' : '') + scheme.name + '=' + encodeURIComponent(token);
+    } else {
+      headers[scheme.name] = token;
+    }
+  }
+};
+
+interface RequestInput {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+const request = async <T>(
+  method: string,
+  path: string,
+  input: RequestInput,
+  meta: { security: string[][]; contentType?: string },
+  options: RequestOptions = {}
+): Promise<T> => {
+  const url = config.baseUrl.replace(/\/$/, '') +
+    path.replace(/\{([^}]+)\}/g, (_, name: string) => encodeURIComponent(String(input.path?.[name])));
+
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(input.query || {})) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(name, String(item));
+    }
+  }
+  const headers: Record<string, string> = { ...config.headers };
+  for (const [name, value] of Object.entries(input.headers || {})) {
+    if (value !== undefined && value !== null) headers[name] = String(value);
+  }
+  await applySecurity(meta.security, headers, query);
+  Object.assign(headers, options.headers);
+
+  let body: BodyInit | undefined;
+  if (input.body !== undefined) {
+    const isJson = !meta.contentType || meta.contentType.includes('json');
+    body = isJson ? JSON.stringify(input.body) : (input.body as BodyInit);
+    // multipart/form-data needs the boundary the browser adds itself
+    if (meta.contentType !== 'multipart/form-data') {
+      headers['Content-Type'] = meta.contentType || 'application/json';
+    }
+  }
+
+  const queryString = query.toString();
+  const response = await config.fetch(url + (queryString ? '?' + queryString : ''), {
+    method: method.toUpperCase(),
+    headers,
+    body,
+    signal: options.signal,
+  });
+  const text = await response.text();
+  const data = text && (response.headers.get('Content-Type') || '').includes('json') ? JSON.parse(text) : text || undefined;
+  if (!response.ok) {
+    throw new ApiError(response.status, data);
+  }
+  return data as T;
+};`;
+
+const describeScheme = (scheme: SwaggerSecurityScheme): string => {
+  if (scheme.type === 'http') {
+    return scheme.scheme === 'basic'
+      ? 'HTTP basic credentials as "user:password"'
+      : `HTTP bearer token${scheme.bearerFormat ? ` (${scheme.bearerFormat})` : ''}`;
+  }
+  if (scheme.type === 'apiKey') {
+    return `API key sent in the "${scheme.apiKeyName || 'X-API-Key'}" ${scheme.in || 'header'}`;
+  }
+  return scheme.type === 'oauth2' ? 'OAuth 2 access token' : 'OpenID Connect access token';
+};
+
+const toSchemeLocation = (scheme: SwaggerSecurityScheme): string => {
+  if (scheme.type === 'apiKey') {
+    return `{ type: 'apiKey', in: '${scheme.in || 'header'}', name: ${toStringLiteral(scheme.apiKeyName || 'X-API-Key')} }`;
+  }
+  // OAuth 2 and OpenID Connect access tokens are sent as bearer tokens
+  return scheme.type === 'http' && scheme.scheme === 'basic' ? `{ type: 'basic' }` : `{ type: 'bearer' }`;
+};
+
+const generateConfig = (document: SwaggerDocument): string => {
+  const schemes = document.securitySchemes.filter((scheme) => scheme.name);
+  const server = document.servers[0];
+  // Fill server variables with their defaults
+  const baseUrl = server
+    ? server.url.replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default || match)
+    : '';
+
+  const auth = schemes.length > 0
+    ? `export interface ClientAuth {\n${schemes
+      .map((scheme) => `${toDocComment([describeScheme(scheme)], '  ')}  ${toPropertyKey(scheme.name)}?: TokenProvider;`)
+      .join('\n')}\n}`
+    : '// The API declares no security schemes\nexport type ClientAuth = Record<string, never>;';
+
+  return [
+    '/** A credential, or a function returning the current one (e.g. a refreshed access token) */',
+    'export type TokenProvider = string | (() => string | Promise<string>);',
+    '',
+    auth,
+    '',
+    'export interface ClientConfig {',
+    '  baseUrl: string;',
+    '  /** Credentials for the security schemes, by scheme name */',
+    '  auth: ClientAuth;',
+    '  /** Sent with every request */',
+    '  headers: Record<string, string>;',
+    '  fetch: typeof fetch;',
+    '}',
+    '',
+    'type SchemeLocation =',
+    "  | { type: 'bearer' }",
+    "  | { type: 'basic' }",
+    "  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string };",
+    '',
+    'const SECURITY_SCHEMES: Record<string, SchemeLocation> = {',
+    ...schemes.map((scheme) => `  ${toPropertyKey(scheme.name)}: ${toSchemeLocation(scheme)},`),
+    '};',
+    '',
+    'const config: ClientConfig = {',
+    `  baseUrl: ${toStringLiteral(baseUrl)},`,
+    '  auth: {},',
+    '  headers: {},',
+    '  fetch: (input, init) => fetch(input, init),',
+    '};',
+  ].join('\n');
+};
+
+/**
+ * The parameter itself, or the reusable parameter it references
+ */
+export const resolveParameter = (document: SwaggerDocument, param: PathParameter): PathParameter | undefined =>
+  param.$ref ? document.components.parameters.find((component) => component.key === param.$ref) : param;
+
+// Names of the schemes of each alternative requirement; an operation without its own security inherits the global one
+const toSecurityList = (document: SwaggerDocument, security: SecurityRequirement[] | undefined): string[][] => {
+  const known = new Set(document.securitySchemes.map((scheme) => scheme.name));
+  return (security ?? document.security).map((requirement) => Object.keys(requirement).filter((name) => known.has(name)));
+};
+
+const bodyTypeFor = (contentType: string, schemaRef: string): string => {
+  if (contentType === 'multipart/form-data') return 'FormData';
+  if (contentType === 'application/x-www-form-urlencoded') return 'URLSearchParams';
+  if (!contentType.includes('json')) return 'BodyInit';
+  return schemaRef ? toSchemaTypeName(schemaRef) : 'unknown';
+};
+
+const getRequestBody = (document: SwaggerDocument, operation: PathOperation) => {
+  const requestBody = operation.requestBody;
+  if (!requestBody) return undefined;
+  const resolved = requestBody.$ref
+    ? document.components.requestBodies.find((component) => component.name === requestBody.$ref)
+    : requestBody;
+  if (!resolved) return { type: 'unknown', required: false, contentType: 'application/json' };
+  const contentType = resolved.contentType || 'application/json';
+  return { type: bodyTypeFor(contentType, resolved.schemaRef), required: resolved.required, contentType };
+};
+
+// Type of the first 2xx response's body
+const getResponseType = (document: SwaggerDocument, operation: PathOperation): string => {
+  const response = operation.responses.find((resp) => resp.statusCode.startsWith('2'));
+  if (!response) return 'unknown';
+  const resolved = response.$ref
+    ? document.components.responses.find((component) => component.name === response.$ref)
+    : response;
+  if (!resolved) return 'unknown';
+  if (resolved.noContent) return 'void';
+  const contentType = resolved.contentType || DEFAULT_RESPONSE_CONTENT_TYPE;
+  if (!contentType.includes('json')) return 'string';
+  return resolved.schemaRef ? toSchemaTypeName(resolved.schemaRef) : 'unknown';
+};
+
+const generateOperation = (
+  document: SwaggerDocument,
+  path: string,
+  operation: PathOperation,
+  functionName: string
+): string => {
+  const paramsTypeName = `${toTypeName(functionName)}Params`;
+  const parameters = operation.parameters
+    .map((param) => resolveParameter(document, param))
+    .filter((param): param is PathParameter => Boolean(param?.name));
+
+  const members: string[] = [];
+  PARAMETER_GROUPS.forEach((group) => {
+    const groupParams = parameters.filter((param) => param.in === group.in);
+    if (groupParams.length === 0) return;
+    const fields = groupParams.map((param) => {
+      const required = param.required || param.in === 'path';
+      const comment = toDocComment([param.description, param.deprecated ? '@deprecated' : undefined], '    ');
+      return `${comment}    ${toPropertyKey(param.name)}${required ? '' : '?'}: ${toScalarType(param.type, param.enum)};`;
+    });
+    const optional = groupParams.every((param) => !param.required && param.in !== 'path');
+    members.push(`  ${group.key}${optional ? '?' : ''}: {\n${fields.join('\n')}\n  };`);
+  });
+  const requestBody = getRequestBody(document, operation);
+  if (requestBody) {
+    members.push(`  body${requestBody.required ? '' : '?'}: ${requestBody.type};`);
+  }
+
+  const responseType = getResponseType(document, operation);
+  const meta = [
+    `security: [${toSecurityList(document, operation.security)
+      .map((schemes) => `[${schemes.map(toStringLiteral).join(', ')}]`)
+      .join(', ')}]`,
+    ...(requestBody ? [`contentType: ${toStringLiteral(requestBody.contentType)}`] : []),
+  ].join(', ');
+  const comment = toDocComment([
+    operation.summary || `${operation.method.toUpperCase()} ${path}`,
+    operation.description && `\n${operation.description}`,
+    operation.deprecated ? '@deprecated' : undefined,
+  ]);
+
+  if (members.length === 0) {
+    return `${comment}export const ${functionName} = (options?: RequestOptions): Promise<${responseType}> =>\n` +
+      `  request<${responseType}>('${operation.method}', ${toStringLiteral(path)}, {}, { ${meta} }, options);`;
+  }
+  // The params argument is optional when everything in it is
+  const paramsOptional = members.every((member) => /^ {2}\w+\?:/.test(member));
+  return `export interface ${paramsTypeName} {\n${members.join('\n')}\n}\n\n` +
+    `${comment}export const ${functionName} = (params: ${paramsTypeName}${paramsOptional ? ' = {}' : ''}, options?: RequestOptions): Promise<${responseType}> =>\n` +
+    `  request<${responseType}>('${operation.method}', ${toStringLiteral(path)}, params, { ${meta} }, options);`;
+};
+
+/**
+ * Generate a typed TypeScript client module: an interface per component schema and a
+ * fetch-based function per operation, named after its operationId
+ */
+export const generateClient = (document: SwaggerDocument): string => {
+  const usedNames = new Set<string>();
+  const operations = document.paths
+    .filter((path) => path.path)
+    .flatMap((path) =>
+      path.operations.map((operation) => {
+        const baseName = toIdentifier(operation.operationId || generateOperationId(operation.method, path.path));
+        let functionName = baseName;
+        for (let i = 2; usedNames.has(functionName); i++) {
+          functionName = `${baseName}${i}`;
+        }
+        usedNames.add(functionName);
+        return generateOperation(document, path.path, operation, functionName);
+      })
+    );
+
+  const title = document.info.title || 'API';
+  const schemaTypes = generateTypeScriptTypes(document.schemas);
+  return [
+    toDocComment([
+      `${title} client (version ${document.info.version}), generated from its OpenAPI document.`,
+      'Call configureClient() with the base URL and credentials before making requests.',
+    ]).trimEnd(),
+    ...(schemaTypes ? ['', '// Schemas', '', schemaTypes] : []),
+    '',
+    '// Configuration',
+    '',
+    generateConfig(document),
+    '',
+    CLIENT_RUNTIME,
+    ...(operations.length > 0 ? ['', '// Operations', '', operations.join('\n\n')] : []),
+    '',
+  ].join('\n');
+};
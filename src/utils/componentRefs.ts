@@ -0,0 +1,94 @@
+import type {
+  ComponentKind,
+  PathResponse,
+  ResponseHeader,
+  SwaggerComponents,
+  SwaggerDocument,
+} from '../types/swagger';
+
+export const createEmptyComponents = (): SwaggerComponents => ({
+  parameters: [],
+  responses: [],
+  requestBodies: [],
+  headers: [],
+  examples: [],
+});
+
+/**
+ * Name of a component as used in `#/components/<kind>/<name>`.
+ * Parameters keep their own `name`, so their component name lives in `key`.
+ */
+export const getComponentName = <K extends ComponentKind>(
+  kind: K,
+  item: SwaggerComponents[K][number]
+): string => (kind === 'parameters' ? (item as SwaggerComponents['parameters'][number]).key : (item as { name: string }).name);
+
+/**
+ * Names of all components of a kind, skipping unnamed ones
+ */
+export const getComponentNames = (components: SwaggerComponents, kind: ComponentKind): string[] =>
+  components[kind].map((item) => getComponentName(kind, item)).filter(Boolean);
+
+type ResponseLike = Pick<PathResponse, 'headers' | 'exampleRefs'>;
+
+const renameResponseRefs = <T extends ResponseLike>(
+  response: T,
+  kind: ComponentKind,
+  oldName: string,
+  newName: string
+): T => {
+  if (kind === 'headers' && response.headers) {
+    return {
+      ...response,
+      headers: response.headers.map((header): ResponseHeader =>
+        header.$ref === oldName ? { ...header, $ref: newName } : header
+      ),
+    };
+  }
+  if (kind === 'examples' && response.exampleRefs) {
+    return { ...response, exampleRefs: response.exampleRefs.map((ref) => (ref === oldName ? newName : ref)) };
+  }
+  return response;
+};
+
+/**
+ * Point every $ref to a renamed component at its new name, in operations and in
+ * components that reference other components (e.g. a response using a shared header)
+ */
+export const renameComponentRefs = (
+  doc: SwaggerDocument,
+  kind: ComponentKind,
+  oldName: string,
+  newName: string
+): SwaggerDocument => {
+  if (!oldName || oldName === newName) return doc;
+
+  return {
+    ...doc,
+    paths: doc.paths.map((path) => ({
+      ...path,
+      operations: path.operations.map((op) => ({
+        ...op,
+        parameters:
+          kind === 'parameters'
+            ? op.parameters.map((param) => (param.$ref === oldName ? { ...param, $ref: newName } : param))
+            : op.parameters,
+        responses: op.responses.map((resp) =>
+          kind === 'responses' && resp.$ref === oldName
+            ? { ...resp, $ref: newName }
+            : renameResponseRefs(resp, kind, oldName, newName)
+        ),
+        requestBody: op.requestBody && (
+          kind === 'requestBodies' && op.requestBody.$ref === oldName
+            ? { ...op.requestBody, $ref: newName }
+            : renameResponseRefs(op.requestBody, kind, oldName, newName)
+        ),
+      })),
+    })),
+    components: {
+      ...doc.components,
+      responses: doc.components.responses.map((resp) => renameResponseRefs(resp, kind, oldName, newName)),
+      requestBodies: doc.components.requestBodies.map((body) => renameResponseRefs(body, kind, oldName, newName)),
+    },
+  };
+};
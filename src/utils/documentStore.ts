@@ -0,0 +1,164 @@
+import type { SwaggerDocument } from '../types/swagger';
+import { STORAGE_VERSION, migrateStoredDocument } from './storageMigrations';
+
+const DB_NAME = 'openapi-builder';
+const DB_VERSION = 2;
+const DOCUMENTS_STORE = 'documents';
+const SNAPSHOTS_STORE = 'snapshots';
+// Snapshot index on [projectId, reason], added in database version 2
+const PROJECT_REASON_INDEX = 'projectReason';
+// Oldest automatic snapshots beyond this many per project are pruned
+const MAX_AUTO_SNAPSHOTS = 48;
+
+export type SnapshotReason = 'auto' | 'manual' | 'restore';
+
+interface StoredDocument {
+  projectId: string;
+  document: SwaggerDocument;
+  lastSaved: string;
+  version: string;
+}
+
+export interface DocumentSnapshot {
+  id: number;
+  projectId: string;
+  document: SwaggerDocument;
+  createdAt: string;
+  reason: SnapshotReason;
+}
+
+type StoredSnapshot = DocumentSnapshot & { version?: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'projectId' });
+        }
+        const snapshots = db.objectStoreNames.contains(SNAPSHOTS_STORE)
+          ? request.transaction!.objectStore(SNAPSHOTS_STORE)
+          : db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id', autoIncrement: true });
+        if (!snapshots.indexNames.contains('projectId')) {
+          snapshots.createIndex('projectId', 'projectId');
+        }
+        if (!snapshots.indexNames.contains(PROJECT_REASON_INDEX)) {
+          snapshots.createIndex(PROJECT_REASON_INDEX, ['projectId', 'reason']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. storage disabled)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a request inside a transaction, resolving once the transaction commits
+ */
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Storage transaction aborted'));
+  });
+};
+
+/**
+ * Save a project's document. Rejects when the browser refuses the write (e.g. quota exceeded).
+ */
+export const saveDocument = async (projectId: string, doc: SwaggerDocument): Promise<Date> => {
+  const lastSaved = new Date();
+  const data: StoredDocument = {
+    projectId,
+    document: doc,
+    lastSaved: lastSaved.toISOString(),
+    version: STORAGE_VERSION,
+  };
+  await runTransaction(DOCUMENTS_STORE, 'readwrite', (store) => store.put(data));
+  return lastSaved;
+};
+
+/**
+ * Load a project's document, or null when nothing was saved yet
+ */
+export const loadDocument = async (
+  projectId: string
+): Promise<{ document: SwaggerDocument; lastSaved: Date } | null> => {
+  const data = await runTransaction<StoredDocument | undefined>(DOCUMENTS_STORE, 'readonly', (store) =>
+    store.get(projectId)
+  );
+  if (!data?.document || typeof data.document !== 'object') return null;
+
+  return { document: migrateStoredDocument(data.document, data.version), lastSaved: new Date(data.lastSaved) };
+};
+
+/**
+ * Delete a project's document and all of its snapshots
+ */
+export const deleteProjectData = async (projectId: string): Promise<void> => {
+  await runTransaction(DOCUMENTS_STORE, 'readwrite', (store) => store.delete(projectId));
+  const snapshotIds = await runTransaction(SNAPSHOTS_STORE, 'readonly', (store) =>
+    store.index('projectId').getAllKeys(projectId)
+  );
+  await runTransaction(SNAPSHOTS_STORE, 'readwrite', (store) => {
+    (snapshotIds || []).forEach((id) => store.delete(id));
+  });
+};
+
+/**
+ * All snapshots of a project, newest first
+ */
+export const listSnapshots = async (projectId: string): Promise<DocumentSnapshot[]> => {
+  const snapshots = await runTransaction<StoredSnapshot[]>(SNAPSHOTS_STORE, 'readonly', (store) =>
+    store.index('projectId').getAll(projectId)
+  );
+  return (snapshots || [])
+    .map(({ version, ...snapshot }) => ({ ...snapshot, document: migrateStoredDocument(snapshot.document, version) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Record a snapshot of a project's document, pruning old automatic ones
+ */
+export const addSnapshot = async (
+  projectId: string,
+  doc: SwaggerDocument,
+  reason: SnapshotReason
+): Promise<void> => {
+  await runTransaction(SNAPSHOTS_STORE, 'readwrite', (store) => {
+    store.add({ projectId, document: doc, createdAt: new Date().toISOString(), reason, version: STORAGE_VERSION });
+    // Only the ids are read; they grow with every snapshot, so they come oldest first
+    const autoIds = store.index(PROJECT_REASON_INDEX).getAllKeys(IDBKeyRange.only([projectId, 'auto']));
+    autoIds.onsuccess = () => {
+      autoIds.result.slice(0, -MAX_AUTO_SNAPSHOTS).forEach((id) => store.delete(id));
+    };
+  });
+};
+
+/**
+ * Time of the newest snapshot of a project, or null when there is none
+ */
+export const getLatestSnapshotTime = async (projectId: string): Promise<Date | null> => {
+  // Ids grow with every snapshot, so the last entry under the project is the newest
+  const cursor = await runTransaction<IDBCursorWithValue | null>(SNAPSHOTS_STORE, 'readonly', (store) =>
+    store.index('projectId').openCursor(IDBKeyRange.only(projectId), 'prev')
+  );
+  const latest = cursor?.value as DocumentSnapshot | undefined;
+  return latest ? new Date(latest.createdAt) : null;
+};
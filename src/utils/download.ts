@@ -0,0 +1,14 @@
+/**
+ * Triggers a browser download for the given content
+ */
+export const downloadFile = (content: string | Blob, filename: string, mimeType: string): void => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
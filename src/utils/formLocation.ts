@@ -0,0 +1,115 @@
+import type { SchemaProperty, SwaggerDocument } from '../types/swagger';
+import { getChildProperties, type PropertyPath } from './schemaPropertyTree';
+
+export type FormTab = 'info' | 'tags' | 'schemas' | 'paths' | 'components';
+
+/**
+ * Where a part of the generated spec is edited in the form: the tab, the path/operation
+ * or schema accordion to expand and the input to focus
+ */
+export interface FormLocation {
+  tab: FormTab;
+  pathIndex?: number;
+  operationIndex?: number;
+  schemaIndex?: number;
+  fieldId?: string;
+}
+
+/**
+ * DOM id of a form input, e.g. formFieldId('paths', 0, 1, 'summary') -> "field-paths-0-1-summary"
+ */
+export const formFieldId = (...parts: Array<string | number>): string => `field-${parts.join('-')}`;
+
+const INFO_FIELDS = ['title', 'description', 'version', 'termsOfService'];
+const OPERATION_FIELDS = ['summary', 'operationId', 'description'];
+
+// Follow properties.<name>, items.properties.<name>, ... down the property tree
+const findPropertyPath = (properties: SchemaProperty[], segments: string[]): PropertyPath => {
+  const path: PropertyPath = [];
+  let current = properties;
+  let i = 0;
+  while (i < segments.length) {
+    if (segments[i] === 'items') {
+      i++;
+      continue;
+    }
+    if (segments[i] !== 'properties' || i + 1 >= segments.length) break;
+    const index = current.findIndex((prop) => prop.name === segments[i + 1]);
+    if (index === -1) break;
+    path.push(index);
+    current = getChildProperties(current[index]);
+    i += 2;
+  }
+  return path;
+};
+
+const locateOperationField = (
+  document: SwaggerDocument,
+  pathIndex: number,
+  operationIndex: number,
+  segments: string[]
+): string | undefined => {
+  const operation = document.paths[pathIndex].operations[operationIndex];
+  const [field, key] = segments;
+  if (OPERATION_FIELDS.includes(field)) {
+    return formFieldId('paths', pathIndex, operationIndex, field);
+  }
+  if (field === 'parameters' && key !== undefined && operation.parameters[Number(key)]) {
+    return formFieldId('paths', pathIndex, operationIndex, 'parameters', Number(key));
+  }
+  if (field === 'responses' && key !== undefined) {
+    const respIndex = operation.responses.findIndex((resp) => resp.statusCode === key);
+    if (respIndex !== -1) return formFieldId('paths', pathIndex, operationIndex, 'responses', respIndex);
+  }
+  return undefined;
+};
+
+/**
+ * Map a location in the generated spec (e.g. ['paths', '/pets', 'get', 'summary'])
+ * to where it is edited in the form. Returns null for parts the form doesn't edit.
+ */
+export const locateFormField = (document: SwaggerDocument, segments: string[]): FormLocation | null => {
+  const [root, ...rest] = segments;
+  switch (root) {
+    case 'openapi':
+    case 'servers':
+    case 'security':
+      return { tab: 'info' };
+    case 'info':
+      return { tab: 'info', fieldId: INFO_FIELDS.includes(rest[0]) ? formFieldId('info', rest[0]) : undefined };
+    case 'tags': {
+      const index = Number(rest[0]);
+      return { tab: 'tags', fieldId: document.tags[index] ? formFieldId('tags', index, 'name') : undefined };
+    }
+    case 'paths': {
+      const pathIndex = document.paths.findIndex((path) => path.path === rest[0]);
+      if (pathIndex === -1) return { tab: 'paths' };
+      const operationIndex = document.paths[pathIndex].operations.findIndex((op) => op.method === rest[1]);
+      if (operationIndex === -1) {
+        return { tab: 'paths', pathIndex, fieldId: formFieldId('paths', pathIndex, 'path') };
+      }
+      return {
+        tab: 'paths',
+        pathIndex,
+        operationIndex,
+        fieldId: locateOperationField(document, pathIndex, operationIndex, rest.slice(2)),
+      };
+    }
+    case 'components': {
+      if (rest[0] === 'securitySchemes') return { tab: 'info' };
+      if (rest[0] !== 'schemas') return { tab: 'components' };
+      const schemaIndex = document.schemas.findIndex((schema) => schema.name === rest[1]);
+      if (schemaIndex === -1) return { tab: 'schemas' };
+      const propertyPath = findPropertyPath(document.schemas[schemaIndex].properties, rest.slice(2));
+      return {
+        tab: 'schemas',
+        schemaIndex,
+        fieldId: propertyPath.length > 0
+          ? formFieldId('schemas', schemaIndex, 'properties', ...propertyPath)
+          : formFieldId('schemas', schemaIndex, 'name'),
+      };
+    }
+    default:
+      return null;
+  }
+};
@@ -19,13 +19,14 @@ export const parseJsonToProperties = (json: Record<string, unknown>): SchemaProp
       prop.example = '';
     } else if (Array.isArray(value)) {
       prop.type = 'array';
-      if (value.length > 0 && typeof value[0] === 'object') {
-        prop.items = { type: 'object', $ref: '' };
+      if (value.length > 0 && value[0] !== null && typeof value[0] === 'object') {
+        prop.items = { type: 'object', $ref: '', properties: parseJsonToProperties(value[0] as Record<string, unknown>) };
       } else {
         prop.items = { type: typeof value[0] === 'number' ? 'number' : 'string', $ref: '' };
       }
     } else if (typeof value === 'object') {
       prop.type = 'object';
+      prop.properties = parseJsonToProperties(value as Record<string, unknown>);
     } else if (typeof value === 'number') {
       prop.type = Number.isInteger(value) ? 'integer' : 'number';
       prop.example = String(value);
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { queryJsonPath } from './jsonPath';
+
+const SPEC = {
+  paths: {
+    '/pets': { get: { operationId: 'listPets' }, post: { operationId: 'createPet' }, parameters: [] },
+    '/pets/{id}': { put: { operationId: 'updatePet' }, delete: { operationId: 'deletePet' } },
+  },
+};
+
+const matchedPaths = (expression: string) => queryJsonPath(SPEC, expression).map((match) => match.path.slice(1).join(' '));
+
+describe('queryJsonPath bracket unions', () => {
+  it('selects bare names', () => {
+    expect(matchedPaths('$.paths[*][get,put,post]')).toEqual(['/pets get', '/pets post', '/pets/{id} put']);
+  });
+
+  it('selects quoted and bare names together', () => {
+    expect(matchedPaths("$.paths[*]['get', delete]")).toEqual(['/pets get', '/pets/{id} delete']);
+  });
+
+  it('still rejects selectors it does not understand', () => {
+    expect(() => queryJsonPath(SPEC, '$.paths[1:2]')).toThrow('Unsupported selector [1:2]');
+  });
+});
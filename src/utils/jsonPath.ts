@@ -0,0 +1,312 @@
+/**
+ * JSONPath queries over plain JSON values, covering what Spectral rulesets use in `given`:
+ * `$`, `.name`, `['name']`, `[get,put]`, `[0]`, `*`, `..` (recursive descent), filters such as
+ * `[?(@.type === 'object' && @property != 'x')]` and a trailing `~` to select keys.
+ */
+
+export interface JsonPathMatch {
+  path: string[];
+  value: unknown;
+}
+
+type Selector =
+  | { type: 'names'; names: string[] }
+  | { type: 'wildcard' }
+  | { type: 'indexes'; indexes: number[] }
+  | { type: 'filter'; expression: string };
+
+interface Segment {
+  descendant: boolean;
+  selector: Selector;
+}
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  Boolean(value) && typeof value === 'object';
+
+const childrenOf = (node: JsonPathMatch): JsonPathMatch[] => {
+  if (Array.isArray(node.value)) {
+    return node.value.map((value, index) => ({ path: [...node.path, String(index)], value }));
+  }
+  if (isContainer(node.value)) {
+    return Object.entries(node.value).map(([key, value]) => ({ path: [...node.path, key], value }));
+  }
+  return [];
+};
+
+const descendantsOf = (node: JsonPathMatch): JsonPathMatch[] => [
+  node,
+  ...childrenOf(node).flatMap(descendantsOf),
+];
+
+// Index of the bracket closing the one at `start`, skipping quoted strings and nested brackets
+const findClosingBracket = (expression: string, start: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  throw new Error(`Unclosed bracket in JSONPath "${expression}"`);
+};
+
+const unquote = (text: string): string | null => {
+  const match = text.trim().match(/^(['"])(.*)\1$/);
+  return match ? match[2].replace(/\\(.)/g, '$1') : null;
+};
+
+const parseBracket = (content: string, expression: string): Selector => {
+  const trimmed = content.trim();
+  if (trimmed === '*') return { type: 'wildcard' };
+  if (trimmed.startsWith('?')) {
+    const filter = trimmed.slice(1).trim();
+    return { type: 'filter', expression: filter.startsWith('(') && filter.endsWith(')') ? filter.slice(1, -1) : filter };
+  }
+  const parts = trimmed.split(',');
+  // Names may be quoted or, as in `[get,put]`, bare identifiers
+  const names = parts.map((part) => unquote(part) ?? (/^\s*[A-Za-z_$][\w$-]*\s*$/.test(part) ? part.trim() : null));
+  if (names.every((name): name is string => name !== null)) return { type: 'names', names };
+  if (parts.every((part) => /^\s*-?\d+\s*$/.test(part))) {
+    return { type: 'indexes', indexes: parts.map(Number) };
+  }
+  throw new Error(`Unsupported selector [${content}] in JSONPath "${expression}"`);
+};
+
+const parseJsonPath = (expression: string): { segments: Segment[]; keys: boolean } => {
+  const source = expression.trim();
+  if (!source.startsWith('$')) throw new Error(`JSONPath "${expression}" must start with $`);
+  const segments: Segment[] = [];
+  let keys = false;
+  let i = 1;
+  while (i < source.length) {
+    if (source[i] === '~' && i === source.length - 1) {
+      keys = true;
+      break;
+    }
+    let descendant = false;
+    if (source.startsWith('..', i)) {
+      descendant = true;
+      i += 2;
+    } else if (source[i] === '.') {
+      i++;
+    } else if (source[i] !== '[') {
+      throw new Error(`Unexpected "${source[i]}" in JSONPath "${expression}"`);
+    }
+
+    if (source[i] === '[') {
+      const end = findClosingBracket(source, i);
+      segments.push({ descendant, selector: parseBracket(source.slice(i + 1, end), expression) });
+      i = end + 1;
+    } else {
+      const match = source.slice(i).match(/^(\*|[^.[~]+)/);
+      if (!match) throw new Error(`Missing name in JSONPath "${expression}"`);
+      segments.push({
+        descendant,
+        selector: match[1] === '*' ? { type: 'wildcard' } : { type: 'names', names: [match[1]] },
+      });
+      i += match[1].length;
+    }
+  }
+  return { segments, keys };
+};
+
+/**
+ * Evaluates a filter expression against a candidate value and its key.
+ * Supports @, @property, member access, literals, regexes, comparisons,
+ * !, && and || and the string methods match/test/startsWith/endsWith/includes.
+ */
+const evaluateFilter = (expression: string, value: unknown, key: string): boolean => {
+  let pos = 0;
+  const skip = () => {
+    while (pos < expression.length && /\s/.test(expression[pos])) pos++;
+  };
+  const peek = (text: string) => {
+    skip();
+    return expression.startsWith(text, pos);
+  };
+  const expect = (text: string) => {
+    if (!peek(text)) throw new Error(`Expected "${text}" in filter "${expression}"`);
+    pos += text.length;
+  };
+  const readMatch = (pattern: RegExp): string | null => {
+    skip();
+    const match = expression.slice(pos).match(pattern);
+    if (!match) return null;
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const member = (target: unknown, name: string): unknown =>
+    isContainer(target) ? (target as Record<string, unknown>)[name] : undefined;
+
+  const callMethod = (target: unknown, method: string, argument: unknown): unknown => {
+    if (typeof target !== 'string') return false;
+    switch (method) {
+      case 'match':
+      case 'test':
+        return argument instanceof RegExp ? argument.test(target) : false;
+      case 'startsWith':
+        return target.startsWith(String(argument));
+      case 'endsWith':
+        return target.endsWith(String(argument));
+      default:
+        return target.includes(String(argument));
+    }
+  };
+
+  const parseOperand = (): unknown => {
+    if (readMatch(/^@property\b/)) return key;
+    if (peek('@')) {
+      pos++;
+      let result: unknown = value;
+      for (;;) {
+        if (expression.startsWith('[', pos)) {
+          const end = findClosingBracket(expression, pos);
+          const content = expression.slice(pos + 1, end);
+          result = member(result, unquote(content) ?? content.trim());
+          pos = end + 1;
+          continue;
+        }
+        const name = expression.slice(pos).match(/^\.([A-Za-z_$][\w$-]*)/);
+        if (!name || expression.startsWith('(', pos + name[0].length)) break;
+        result = member(result, name[1]);
+        pos += name[0].length;
+      }
+      return result;
+    }
+    const quoted = readMatch(/^(['"])(?:\\.|(?!\1).)*\1/);
+    if (quoted !== null) return unquote(quoted);
+    const regex = readMatch(/^\/(?:\\.|[^/\\])+\/[gimsuy]*/);
+    if (regex !== null) {
+      const lastSlash = regex.lastIndexOf('/');
+      return new RegExp(regex.slice(1, lastSlash), regex.slice(lastSlash + 1));
+    }
+    const number = readMatch(/^-?\d+(\.\d+)?/);
+    if (number !== null) return Number(number);
+    const literal = readMatch(/^(true|false|null|undefined)\b/);
+    if (literal !== null) {
+      return { true: true, false: false, null: null, undefined: undefined }[literal];
+    }
+    throw new Error(`Unsupported filter "${expression}"`);
+  };
+
+  const parsePrimary = (): unknown => {
+    if (peek('(')) {
+      pos++;
+      const result = parseOr();
+      expect(')');
+      return result;
+    }
+    let result = parseOperand();
+    let call = readMatch(/^\.(match|test|startsWith|endsWith|includes)\(/);
+    while (call) {
+      const argument = parseOperand();
+      expect(')');
+      result = callMethod(result, call.slice(1, -1), argument);
+      call = readMatch(/^\.(match|test|startsWith|endsWith|includes)\(/);
+    }
+    return result;
+  };
+
+  const parseComparison = (): unknown => {
+    const left = parsePrimary();
+    const operator = readMatch(/^(===|!==|==|!=|<=|>=|<|>)/);
+    if (!operator) return left;
+    const right = parsePrimary();
+    switch (operator) {
+      case '===':
+        return left === right;
+      case '==':
+        return left === right || (left == null && right == null);
+      case '!==':
+        return left !== right;
+      case '!=':
+        return !(left === right || (left == null && right == null));
+      default: {
+        if (typeof left !== 'number' || typeof right !== 'number') return false;
+        if (operator === '<') return left < right;
+        if (operator === '>') return left > right;
+        return operator === '<=' ? left <= right : left >= right;
+      }
+    }
+  };
+
+  const parseUnary = (): unknown => {
+    if (peek('!') && !peek('!=')) {
+      pos++;
+      return !parseUnary();
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): unknown => {
+    let result = parseUnary();
+    while (peek('&&')) {
+      pos += 2;
+      const right = parseUnary();
+      result = Boolean(result) && Boolean(right);
+    }
+    return result;
+  };
+
+  function parseOr(): unknown {
+    let result = parseAnd();
+    while (peek('||')) {
+      pos += 2;
+      const right = parseAnd();
+      result = Boolean(result) || Boolean(right);
+    }
+    return result;
+  }
+
+  const result = parseOr();
+  skip();
+  if (pos < expression.length) throw new Error(`Unexpected "${expression.slice(pos)}" in filter "${expression}"`);
+  return Boolean(result);
+};
+
+const applySelector = (node: JsonPathMatch, selector: Selector): JsonPathMatch[] => {
+  const children = childrenOf(node);
+  switch (selector.type) {
+    case 'wildcard':
+      return children;
+    case 'names':
+      return selector.names.flatMap((name) => children.filter((child) => child.path[child.path.length - 1] === name));
+    case 'indexes': {
+      if (!Array.isArray(node.value)) return [];
+      const length = node.value.length;
+      return selector.indexes.flatMap((index) => {
+        const position = index < 0 ? length + index : index;
+        return position >= 0 && position < length ? [children[position]] : [];
+      });
+    }
+    case 'filter':
+      return children.filter((child) =>
+        evaluateFilter(selector.expression, child.value, child.path[child.path.length - 1])
+      );
+  }
+};
+
+/**
+ * All values matching a JSONPath expression, with their paths from the root.
+ * Throws on syntax this implementation doesn't understand.
+ */
+export const queryJsonPath = (root: unknown, expression: string): JsonPathMatch[] => {
+  const { segments, keys } = parseJsonPath(expression);
+  let nodes: JsonPathMatch[] = [{ path: [], value: root }];
+  segments.forEach(({ descendant, selector }) => {
+    const candidates = descendant ? nodes.flatMap(descendantsOf) : nodes;
+    nodes = candidates.flatMap((node) => applySelector(node, selector));
+  });
+  // With a trailing ~ the property names are selected instead of their values
+  return keys ? nodes.filter((node) => node.path.length > 0).map((node) => ({ ...node, value: node.path[node.path.length - 1] })) : nodes;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { generateJsonSchemaBundle } from './jsonSchemaGenerator';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+
+const SPEC = `${SPEC_HEADER}paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        status: { type: string, enum: [available, sold], nullable: true }
+        age: { type: integer, minimum: 0, exclusiveMinimum: true, example: 3 }
+        owner: { $ref: '#/components/schemas/Owner' }
+        parent: { $ref: '#/components/schemas/Pet' }
+    Owner: { type: object, properties: { address: { $ref: '#/components/schemas/Address' } } }
+    Address: { type: object, properties: { city: { type: string } } }
+    pet: { type: string }
+`;
+
+describe('generateJsonSchemaBundle', () => {
+  const files = generateJsonSchemaBundle(importSpec(SPEC));
+  const parseFile = (path: string) => JSON.parse(files.find((file) => file.path === path)!.content);
+
+  it('writes one file per schema, numbering names that clash regardless of case', () => {
+    expect(files.map((file) => file.path)).toEqual([
+      'Pet.schema.json',
+      'Owner.schema.json',
+      'Address.schema.json',
+      'pet-2.schema.json',
+    ]);
+  });
+
+  it('translates OpenAPI 3.0 keywords and bundles referenced schemas under $defs', () => {
+    expect(parseFile('Pet.schema.json')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'Pet',
+      type: 'object',
+      properties: {
+        status: { type: ['string', 'null'], enum: ['available', 'sold', null] },
+        age: { type: 'integer', exclusiveMinimum: 0, examples: [3] },
+        owner: { $ref: '#/$defs/Owner' },
+        parent: { $ref: '#' },
+      },
+      $defs: {
+        Owner: { type: 'object', properties: { address: { $ref: '#/$defs/Address' } } },
+        Address: { type: 'object', properties: { city: { type: 'string' } } },
+      },
+    });
+  });
+
+  it('leaves out $defs when a schema references nothing', () => {
+    expect(parseFile('Address.schema.json')).not.toHaveProperty('$defs');
+  });
+});
@@ -0,0 +1,133 @@
+import type { SwaggerDocument } from '../types/swagger';
+import { toOpenApiObject } from './yamlGenerator';
+import type { ZipEntry } from './zip';
+
+type JsonObject = Record<string, unknown>;
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+// OpenAPI-only keywords that plain JSON Schema validators reject or misread
+const OPENAPI_KEYWORDS = ['nullable', 'discriminator', 'xml', 'externalDocs', 'example'];
+
+// Keywords whose value is a subschema, a list of subschemas or a map of subschemas
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains'];
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'oneOf', 'anyOf', 'prefixItems'];
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs'];
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON Pointer token escaping, e.g. "a/b" -> "a~1b"
+const decodePointerToken = (token: string): string => token.replace(/~1/g, '/').replace(/~0/g, '~');
+const encodePointerToken = (token: string): string => token.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Translate OpenAPI 3.0 `nullable: true` into JSON Schema: "null" joins the type (and the
+ * enum, which would otherwise still reject it); schemas without a type accept null via anyOf
+ */
+const applyNullable = (schema: JsonObject): JsonObject => {
+  if (typeof schema.type === 'string') {
+    const nullable: JsonObject = { ...schema, type: [schema.type, 'null'] };
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+      nullable.enum = [...schema.enum, null];
+    }
+    return nullable;
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+};
+
+/**
+ * Convert an OpenAPI 3.0 schema object into JSON Schema 2020-12. References to component
+ * schemas point into `$defs` (or at the root for `rootName`), and the referenced names
+ * are added to `refs`.
+ */
+const toJsonSchema = (schema: JsonObject, rootName: string, known: Set<string>, refs: Set<string>): JsonObject => {
+  const result: JsonObject = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (OPENAPI_KEYWORDS.includes(key)) return;
+    const convert = (subschema: unknown) =>
+      isObject(subschema) ? toJsonSchema(subschema, rootName, known, refs) : subschema;
+
+    if (key === '$ref' && typeof value === 'string' && value.startsWith(SCHEMA_REF_PREFIX)) {
+      const name = decodePointerToken(value.slice(SCHEMA_REF_PREFIX.length));
+      if (name === rootName) {
+        result.$ref = '#';
+      } else if (known.has(name)) {
+        result.$ref = `#/$defs/${encodePointerToken(name)}`;
+        refs.add(name);
+      } else {
+        result.$ref = value;
+      }
+    } else if (SUBSCHEMA_KEYWORDS.includes(key)) {
+      result[key] = convert(value);
+    } else if (SUBSCHEMA_LIST_KEYWORDS.includes(key) && Array.isArray(value)) {
+      result[key] = value.map(convert);
+    } else if (SUBSCHEMA_MAP_KEYWORDS.includes(key) && isObject(value)) {
+      result[key] = Object.fromEntries(Object.entries(value).map(([name, subschema]) => [name, convert(subschema)]));
+    } else {
+      result[key] = value;
+    }
+  });
+
+  // OpenAPI 3.0 exclusive bounds are flags on minimum/maximum; JSON Schema makes them the bound
+  (['Minimum', 'Maximum'] as const).forEach((bound) => {
+    const exclusive = `exclusive${bound}`;
+    const inclusive = bound.toLowerCase();
+    if (typeof result[exclusive] !== 'boolean') return;
+    if (result[exclusive] && typeof result[inclusive] === 'number') {
+      result[exclusive] = result[inclusive];
+      delete result[inclusive];
+    } else {
+      delete result[exclusive];
+    }
+  });
+  if (schema.example !== undefined && result.examples === undefined) {
+    result.examples = [schema.example];
+  }
+  return schema.nullable === true ? applyNullable(result) : result;
+};
+
+/**
+ * A standalone JSON Schema document for one component schema, with every schema it
+ * references (directly or indirectly) bundled under `$defs`
+ */
+const toJsonSchemaDocument = (components: Record<string, JsonObject>, name: string): JsonObject => {
+  const known = new Set(Object.keys(components));
+  const refs = new Set<string>();
+  const root = toJsonSchema(components[name], name, known, refs);
+  const defs: Record<string, JsonObject> = {};
+  // Referenced schemas may reference others in turn; refs grows while it is iterated
+  for (const ref of refs) {
+    defs[ref] = toJsonSchema(components[ref], name, known, refs);
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: name,
+    ...root,
+    ...(refs.size > 0 ? { $defs: { ...(isObject(root.$defs) ? root.$defs : {}), ...defs } } : {}),
+  };
+};
+
+const toFileName = (name: string): string => name.replace(/[^\w.-]+/g, '_') || 'schema';
+
+/**
+ * One JSON Schema 2020-12 document per named component schema, as `<name>.schema.json` files
+ */
+export const generateJsonSchemaBundle = (document: SwaggerDocument): ZipEntry[] => {
+  const components = (toOpenApiObject(document).components?.schemas || {}) as Record<string, JsonObject>;
+  const usedFileNames = new Set<string>();
+  return Object.keys(components)
+    .filter(Boolean)
+    .map((name) => {
+      let fileName = toFileName(name);
+      for (let i = 2; usedFileNames.has(fileName.toLowerCase()); i++) {
+        fileName = `${toFileName(name)}-${i}`;
+      }
+      usedFileNames.add(fileName.toLowerCase());
+      const jsonSchema = toJsonSchemaDocument(components, name);
+      return { path: `${fileName}.schema.json`, content: `${JSON.stringify(jsonSchema, null, 2)}\n` };
+    });
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { LintRule } from '../types/lint';
+import { runLintRules } from './lintRules';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { toOpenApiObject } from './yamlGenerator';
+
+const SPEC = `${SPEC_HEADER}paths:
+  /pet_owners:
+    get:
+      operationId: listOwners
+      summary: List owners
+      tags: [owners]
+      responses:
+        '404': { $ref: '#/components/responses/NotFound' }
+  /store/{id}:
+    get:
+      operationId: listOwners
+      responses:
+        '404':
+          description: Missing
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Problem' }
+components:
+  schemas:
+    Error: { type: object, properties: { message: { type: string } } }
+    Problem: { type: object, properties: { error_code: { type: string } } }
+  responses:
+    NotFound:
+      description: Missing
+      content:
+        application/json:
+          schema: { $ref: '#/components/schemas/Error' }
+`;
+
+const spec = toOpenApiObject(importSpec(SPEC));
+
+describe('runLintRules', () => {
+  it('reports every built-in rule the spec breaks at its location', () => {
+    expect(runLintRules(spec).map(({ ruleId, severity, path }) => ({ ruleId, severity, path }))).toEqual([
+      { ruleId: 'path-kebab-case', severity: 'warning', path: ['paths', '/pet_owners'] },
+      { ruleId: 'property-camel-case', severity: 'warning', path: ['components', 'schemas', 'Problem', 'properties', 'error_code'] },
+      { ruleId: 'collection-plural-nouns', severity: 'warning', path: ['paths', '/store/{id}'] },
+      { ruleId: 'operation-summary', severity: 'warning', path: ['paths', '/store/{id}', 'get'] },
+      { ruleId: 'operation-tags', severity: 'warning', path: ['paths', '/store/{id}', 'get'] },
+      { ruleId: 'error-response-schema', severity: 'warning', path: ['paths', '/store/{id}', 'get', 'responses', '404'] },
+      { ruleId: 'operation-id-unique', severity: 'error', path: ['paths', '/store/{id}', 'get', 'operationId'] },
+    ]);
+  });
+
+  it('applies the severity a document chooses and skips rules turned off', () => {
+    const results = runLintRules(spec, { 'operation-summary': 'off', 'operation-tags': 'error' });
+
+    expect(results.map((result) => result.ruleId)).not.toContain('operation-summary');
+    expect(results.find((result) => result.ruleId === 'operation-tags')?.severity).toBe('error');
+  });
+
+  it('reports a rule that throws instead of aborting the run', () => {
+    const failing: LintRule = {
+      id: 'failing',
+      description: 'Always throws',
+      severity: 'error',
+      check: () => {
+        throw new Error('boom');
+      },
+    };
+
+    expect(runLintRules(spec, {}, [failing])).toEqual([
+      { ruleId: 'failing', severity: 'warning', path: [], message: 'Rule failed: Error: boom' },
+    ]);
+  });
+});
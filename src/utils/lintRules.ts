@@ -0,0 +1,255 @@
+import type {
+  OpenApiObject,
+  OpenApiOperation,
+  OpenApiReference,
+  OpenApiResponse,
+  OpenApiSchemaObject,
+} from '../types/openapi';
+import type { LintFinding, LintRule, LintRuleSettings } from '../types/lint';
+import type { ValidationSeverity } from '../types/validation';
+import { HTTP_METHODS } from '../constants/httpMethods';
+
+// Schema that every 4xx response body is expected to use
+const ERROR_SCHEMA_NAME = 'Error';
+
+const KEBAB_CASE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const CAMEL_CASE = /^[a-z][a-zA-Z0-9]*$/;
+const IRREGULAR_PLURALS = new Set(['people', 'children', 'men', 'women', 'data', 'media', 'criteria', 'indices', 'matrices']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isReference = (value: unknown): value is OpenApiReference => isObject(value) && typeof value.$ref === 'string';
+
+const isPathParameter = (segment: string): boolean => segment.startsWith('{') && segment.endsWith('}');
+
+const isPlural = (segment: string): boolean => {
+  const word = segment.split('-').pop() || segment;
+  return IRREGULAR_PLURALS.has(word) || (word.endsWith('s') && !word.endsWith('ss'));
+};
+
+/**
+ * Visit every operation of the spec, skipping malformed path items
+ */
+const forEachOperation = (
+  spec: OpenApiObject,
+  visit: (path: string, method: string, operation: OpenApiOperation) => void
+): void => {
+  if (!isObject(spec.paths)) return;
+  Object.entries(spec.paths).forEach(([path, pathItem]) => {
+    if (!isObject(pathItem)) return;
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (isObject(operation)) visit(path, method, operation as OpenApiOperation);
+    });
+  });
+};
+
+const describeOperation = (path: string, method: string): string => `${method.toUpperCase()} ${path}`;
+
+/**
+ * Visit every property name declared in component schemas, including nested
+ * objects, array items and composed members
+ */
+const forEachSchemaProperty = (
+  spec: OpenApiObject,
+  visit: (name: string, location: string[]) => void
+): void => {
+  const walk = (schema: unknown, location: string[]) => {
+    if (!isObject(schema) || isReference(schema)) return;
+    const schemaObj = schema as OpenApiSchemaObject;
+    Object.entries(schemaObj.properties || {}).forEach(([name, property]) => {
+      visit(name, [...location, 'properties', name]);
+      walk(property, [...location, 'properties', name]);
+    });
+    if (schemaObj.items) walk(schemaObj.items, [...location, 'items']);
+    (['allOf', 'oneOf', 'anyOf'] as const).forEach((key) => {
+      (schemaObj[key] || []).forEach((member) => walk(member, [...location, key]));
+    });
+  };
+  Object.entries(spec.components?.schemas || {}).forEach(([name, schema]) =>
+    walk(schema, ['components', 'schemas', name])
+  );
+};
+
+// Specs edited by hand may hold anything, so only the shape of a response object is checked
+const isResponse = (value: unknown): value is OpenApiResponse => isObject(value) && !isReference(value);
+
+const resolveResponse = (spec: OpenApiObject, response: unknown): OpenApiResponse | undefined => {
+  const target = isReference(response)
+    ? spec.components?.responses?.[response.$ref.replace('#/components/responses/', '')]
+    : response;
+  return isResponse(target) ? target : undefined;
+};
+
+const usesSchema = (schema: OpenApiSchemaObject | undefined, name: string): boolean =>
+  Boolean(schema) &&
+  (schema?.$ref === `#/components/schemas/${name}` || (schema?.allOf || []).some((member) => usesSchema(member, name)));
+
+export const BUILT_IN_RULES: LintRule[] = [
+  {
+    id: 'path-kebab-case',
+    description: 'Path segments are lowercase kebab-case',
+    severity: 'warning',
+    check: (spec) =>
+      Object.keys(isObject(spec.paths) ? spec.paths : {}).flatMap((path) =>
+        path
+          .split('/')
+          .filter((segment) => segment && !isPathParameter(segment) && !KEBAB_CASE.test(segment))
+          .map((segment) => ({
+            path: ['paths', path],
+            message: `Path segment "${segment}" in "${path}" should be kebab-case`,
+          }))
+      ),
+  },
+  {
+    id: 'property-camel-case',
+    description: 'Schema property names are camelCase',
+    severity: 'warning',
+    check: (spec) => {
+      const findings: LintFinding[] = [];
+      forEachSchemaProperty(spec, (name, location) => {
+        if (!CAMEL_CASE.test(name)) {
+          findings.push({ path: location, message: `Property "${name}" should be camelCase` });
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'collection-plural-nouns',
+    description: 'Collections use plural nouns, e.g. /pets/{petId}',
+    severity: 'warning',
+    check: (spec) => {
+      const findings: LintFinding[] = [];
+      const report = (path: string, segment: string) => {
+        const message = `Collection "${segment}" in "${path}" should be a plural noun`;
+        if (!findings.some((finding) => finding.message === message)) {
+          findings.push({ path: ['paths', path], message });
+        }
+      };
+      Object.keys(isObject(spec.paths) ? spec.paths : {}).forEach((path) => {
+        const segments = path.split('/').filter(Boolean);
+        segments.forEach((segment, index) => {
+          // A segment followed by an id addresses one item of a collection
+          if (!isPathParameter(segment) && isPathParameter(segments[index + 1] || '') && !isPlural(segment)) {
+            report(path, segment);
+          }
+        });
+      });
+      forEachOperation(spec, (path, method, operation) => {
+        // A list endpoint returns an array from its collection path
+        const last = path.split('/').filter(Boolean).pop();
+        const success = resolveResponse(spec, operation.responses?.['200']);
+        const returnsList = Object.values(success?.content || {}).some((media) => media?.schema?.type === 'array');
+        if (method === 'get' && last && !isPathParameter(last) && returnsList && !isPlural(last)) {
+          report(path, last);
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'operation-summary',
+    description: 'Every operation has a summary',
+    severity: 'warning',
+    check: (spec) => {
+      const findings: LintFinding[] = [];
+      forEachOperation(spec, (path, method, operation) => {
+        if (!operation.summary?.trim()) {
+          findings.push({
+            path: ['paths', path, method],
+            message: `Operation "${describeOperation(path, method)}" is missing a summary`,
+          });
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'operation-tags',
+    description: 'Every operation has at least one tag',
+    severity: 'warning',
+    check: (spec) => {
+      const findings: LintFinding[] = [];
+      forEachOperation(spec, (path, method, operation) => {
+        if (!Array.isArray(operation.tags) || operation.tags.length === 0) {
+          findings.push({
+            path: ['paths', path, method],
+            message: `Operation "${describeOperation(path, method)}" has no tags`,
+          });
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'error-response-schema',
+    description: `4xx responses return the ${ERROR_SCHEMA_NAME} schema`,
+    severity: 'warning',
+    check: (spec) => {
+      const findings: LintFinding[] = [];
+      forEachOperation(spec, (path, method, operation) => {
+        Object.entries(isObject(operation.responses) ? operation.responses : {}).forEach(([statusCode, raw]) => {
+          if (!/^4(\d\d|XX)$/i.test(statusCode)) return;
+          const response = resolveResponse(spec, raw);
+          const schemas = Object.values(response?.content || {}).map((media) => media?.schema);
+          if (schemas.length === 0 || !schemas.every((schema) => usesSchema(schema, ERROR_SCHEMA_NAME))) {
+            findings.push({
+              path: ['paths', path, method, 'responses', statusCode],
+              message: `Response ${statusCode} of "${describeOperation(path, method)}" should use the ${ERROR_SCHEMA_NAME} schema`,
+            });
+          }
+        });
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'operation-id-unique',
+    description: 'operationIds are unique across the API',
+    severity: 'error',
+    check: (spec) => {
+      const seen = new Map<string, string>();
+      const findings: LintFinding[] = [];
+      forEachOperation(spec, (path, method, operation) => {
+        const id = operation.operationId;
+        if (!id) return;
+        const first = seen.get(id);
+        if (first) {
+          findings.push({
+            path: ['paths', path, method, 'operationId'],
+            message: `operationId "${id}" of "${describeOperation(path, method)}" is already used by "${first}"`,
+          });
+        } else {
+          seen.set(id, describeOperation(path, method));
+        }
+      });
+      return findings;
+    },
+  },
+];
+
+export interface LintResult extends LintFinding {
+  ruleId: string;
+  severity: ValidationSeverity;
+}
+
+/**
+ * Run a ruleset against a spec. Per-document settings can change a rule's
+ * severity or turn it off; a rule that throws is reported instead of aborting the run.
+ */
+export const runLintRules = (
+  spec: OpenApiObject,
+  settings: LintRuleSettings = {},
+  rules: LintRule[] = BUILT_IN_RULES
+): LintResult[] =>
+  rules.flatMap((rule) => {
+    const severity = settings[rule.id] ?? rule.severity;
+    if (severity === 'off') return [];
+    try {
+      return rule.check(spec).map((finding) => ({ ...finding, ruleId: rule.id, severity }));
+    } catch (error) {
+      return [{ ruleId: rule.id, severity: 'warning' as const, path: [], message: `Rule failed: ${String(error)}` }];
+    }
+  });
@@ -1,7 +1,12 @@
 import type { SwaggerDocument } from '../types/swagger';
+import { migrateStoredDocument } from './storageMigrations';
 
-const STORAGE_KEY = 'openapi-builder-document';
-const STORAGE_VERSION = '1.0';
+// Documents live in IndexedDB (see documentStore.ts); LocalStorage keeps the project list.
+// Single-document storage used before projects were introduced
+const LEGACY_DOCUMENT_KEY = 'openapi-builder-document';
+const PROJECTS_KEY = 'openapi-builder-projects';
+// Per-project documents saved before the move to IndexedDB
+const PROJECT_KEY_PREFIX = 'openapi-builder-project:';
 const FORM_COLLAPSED_KEY = 'openapi-builder-form-collapsed';
 
 interface StoredData {
@@ -10,49 +15,128 @@ interface StoredData {
   version: string;
 }
 
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastSaved: string | null;
+}
+
+interface ProjectIndex {
+  activeId: string | null;
+  projects: ProjectMeta[];
+}
+
+const projectKey = (id: string): string => `${PROJECT_KEY_PREFIX}${id}`;
+
+const createProjectId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const writeIndex = (index: ProjectIndex): void => {
+  try {
+    localStorage.setItem(PROJECTS_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error('Failed to save project list to LocalStorage:', error);
+  }
+};
+
 /**
- * Save document to LocalStorage
+ * Move a document saved by the single-document version into its own project
  */
-export const saveDocument = (doc: SwaggerDocument): boolean => {
+const migrateLegacyDocument = (): ProjectIndex => {
+  const index: ProjectIndex = { activeId: null, projects: [] };
+  const stored = localStorage.getItem(LEGACY_DOCUMENT_KEY);
+  if (!stored) return index;
+
+  const data: StoredData = JSON.parse(stored);
+  const id = createProjectId();
+  localStorage.setItem(projectKey(id), stored);
+  localStorage.removeItem(LEGACY_DOCUMENT_KEY);
+  index.activeId = id;
+  index.projects.push({
+    id,
+    name: data.document?.info?.title || 'My API',
+    createdAt: data.lastSaved,
+    lastSaved: data.lastSaved,
+  });
+  writeIndex(index);
+  return index;
+};
+
+const readIndex = (): ProjectIndex => {
   try {
-    const data: StoredData = {
-      document: doc,
-      lastSaved: new Date().toISOString(),
-      version: STORAGE_VERSION,
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    return true;
+    const stored = localStorage.getItem(PROJECTS_KEY);
+    if (!stored) return migrateLegacyDocument();
+
+    const index: ProjectIndex = JSON.parse(stored);
+    return Array.isArray(index.projects) ? index : { activeId: null, projects: [] };
   } catch (error) {
-    // Handle quota exceeded or other storage errors
-    console.error('Failed to save document to LocalStorage:', error);
-    return false;
+    console.error('Failed to load project list from LocalStorage:', error);
+    return { activeId: null, projects: [] };
   }
 };
 
 /**
- * Load document from LocalStorage
+ * List saved projects and the one that was open last
+ */
+export const loadProjects = (): ProjectIndex => readIndex();
+
+/**
+ * Remember which project is open
+ */
+export const setActiveProjectId = (id: string): void => {
+  writeIndex({ ...readIndex(), activeId: id });
+};
+
+/**
+ * Register a new project; its document is stored separately in IndexedDB
  */
-export const loadDocument = (): { document: SwaggerDocument; lastSaved: Date } | null => {
+export const addProject = (name: string): ProjectMeta => {
+  const project: ProjectMeta = { id: createProjectId(), name, createdAt: new Date().toISOString(), lastSaved: null };
+  const index = readIndex();
+  writeIndex({ ...index, projects: [...index.projects, project] });
+  return project;
+};
+
+/**
+ * Update a project's name or last saved time
+ */
+export const updateProject = (id: string, changes: Partial<Omit<ProjectMeta, 'id'>>): void => {
+  const index = readIndex();
+  writeIndex({
+    ...index,
+    projects: index.projects.map((project) => (project.id === id ? { ...project, ...changes } : project)),
+  });
+};
+
+/**
+ * Remove a project from the list
+ */
+export const removeProject = (id: string): void => {
+  const index = readIndex();
+  writeIndex({
+    activeId: index.activeId === id ? null : index.activeId,
+    projects: index.projects.filter((project) => project.id !== id),
+  });
+};
+
+/**
+ * Load a project document still kept in LocalStorage by an older version,
+ * so it can be moved to IndexedDB
+ */
+export const loadLegacyDocument = (projectId: string): { document: SwaggerDocument; lastSaved: Date } | null => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(projectKey(projectId));
     if (!stored) return null;
 
     const data: StoredData = JSON.parse(stored);
-    
-    // Version check for future migrations
-    if (data.version !== STORAGE_VERSION) {
-      console.warn(`Storage version mismatch: ${data.version} vs ${STORAGE_VERSION}`);
-      // For now, still try to load - future versions could migrate here
-    }
-
-    // Validate that it looks like a SwaggerDocument
     if (!data.document || typeof data.document !== 'object') {
       console.error('Invalid stored document structure');
       return null;
     }
 
     return {
-      document: data.document,
+      document: migrateStoredDocument(data.document, data.version),
       lastSaved: new Date(data.lastSaved),
     };
   } catch (error) {
@@ -62,42 +146,16 @@ export const loadDocument = (): { document: SwaggerDocument; lastSaved: Date } |
 };
 
 /**
- * Clear saved document from LocalStorage
+ * Remove a project document from LocalStorage once it has been moved
  */
-export const clearDocument = (): void => {
+export const clearLegacyDocument = (projectId: string): void => {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(projectKey(projectId));
   } catch (error) {
     console.error('Failed to clear document from LocalStorage:', error);
   }
 };
 
-/**
- * Check if a document exists in LocalStorage
- */
-export const hasStoredDocument = (): boolean => {
-  try {
-    return localStorage.getItem(STORAGE_KEY) !== null;
-  } catch {
-    return false;
-  }
-};
-
-/**
- * Get the last saved timestamp without loading the full document
- */
-export const getLastSavedTime = (): Date | null => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
-
-    const data: StoredData = JSON.parse(stored);
-    return new Date(data.lastSaved);
-  } catch {
-    return null;
-  }
-};
-
 /**
  * Save form collapsed state to LocalStorage
  */
@@ -1,11 +1,19 @@
 import { validate as openApiValidate } from '@readme/openapi-parser';
 import type { ValidationResult, ValidationError } from '../types/validation';
+import type { OpenApiObject } from '../types/openapi';
+import type { LintRule, LintRuleSettings } from '../types/lint';
+import { BUILT_IN_RULES, runLintRules } from './lintRules';
 import yaml from 'yaml';
 
 /**
- * Validates an OpenAPI document against the OpenAPI 3.0/3.1 specification
+ * Validates an OpenAPI document against the OpenAPI 3.0/3.1 specification,
+ * then checks it against the built-in style guide and any imported rules
  */
-export async function validateOpenApiSpec(yamlContent: string): Promise<ValidationResult> {
+export async function validateOpenApiSpec(
+  yamlContent: string,
+  lintSettings?: LintRuleSettings,
+  customRules: LintRule[] = []
+): Promise<ValidationResult> {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
 
@@ -37,6 +45,19 @@ export async function validateOpenApiSpec(yamlContent: string): Promise<Validati
   errors.push(...structuralErrors.filter(e => e.severity === 'error'));
   warnings.push(...structuralErrors.filter(e => e.severity === 'warning'));
 
+  // Style guide rules
+  for (const finding of runLintRules(parsedSpec as OpenApiObject, lintSettings, [...BUILT_IN_RULES, ...customRules])) {
+    const issue: ValidationError = {
+      path: finding.path.join('.') || 'document',
+      pathSegments: finding.path,
+      message: finding.message,
+      severity: finding.severity,
+      line: findLineNumber(yamlContent, finding.path),
+      ruleId: finding.ruleId,
+    };
+    (finding.severity === 'error' ? errors : warnings).push(issue);
+  }
+
   // Use OpenAPI Parser for full spec validation
   try {
     await openApiValidate(parsedSpec as never);
@@ -47,6 +68,7 @@ export async function validateOpenApiSpec(yamlContent: string): Promise<Validati
       for (const detail of validationError.details) {
         errors.push({
           path: detail.path?.join('.') || 'unknown',
+          pathSegments: detail.path,
           message: detail.message,
           severity: 'error',
           line: findLineNumber(yamlContent, detail.path),
@@ -81,6 +103,7 @@ function performStructuralValidation(
   if (!spec.openapi) {
     errors.push({
       path: 'openapi',
+      pathSegments: ['openapi'],
       message: 'Missing required field "openapi". Must specify OpenAPI version (e.g., "3.0.3" or "3.1.0")',
       severity: 'error',
       line: 1,
@@ -90,6 +113,7 @@ function performStructuralValidation(
     if (!version.startsWith('3.0') && !version.startsWith('3.1')) {
       errors.push({
         path: 'openapi',
+        pathSegments: ['openapi'],
         message: `Invalid OpenAPI version "${version}". Must be 3.0.x or 3.1.x`,
         severity: 'error',
         line: findLineNumber(yamlContent, ['openapi']),
@@ -100,6 +124,7 @@ function performStructuralValidation(
   if (!spec.info) {
     errors.push({
       path: 'info',
+      pathSegments: ['info'],
       message: 'Missing required field "info"',
       severity: 'error',
     });
@@ -108,6 +133,7 @@ function performStructuralValidation(
     if (!info.title) {
       errors.push({
         path: 'info.title',
+        pathSegments: ['info', 'title'],
         message: 'Missing required field "info.title"',
         severity: 'error',
         line: findLineNumber(yamlContent, ['info', 'title']),
@@ -116,6 +142,7 @@ function performStructuralValidation(
     if (!info.version) {
       errors.push({
         path: 'info.version',
+        pathSegments: ['info', 'version'],
         message: 'Missing required field "info.version"',
         severity: 'error',
         line: findLineNumber(yamlContent, ['info', 'version']),
@@ -127,6 +154,7 @@ function performStructuralValidation(
   if (!spec.paths) {
     errors.push({
       path: 'paths',
+      pathSegments: ['paths'],
       message: 'Missing "paths" object. At least an empty paths object is recommended',
       severity: 'warning',
     });
@@ -143,6 +171,16 @@ function performStructuralValidation(
     }
   }
 
+  if (spec.paths) {
+    const components = (spec.components || {}) as Record<string, unknown>;
+    validateRequestBodySchemas(
+      spec.paths as Record<string, unknown>,
+      (components.schemas || {}) as Record<string, unknown>,
+      yamlContent,
+      errors
+    );
+  }
+
   return errors;
 }
 
@@ -159,6 +197,7 @@ function validatePaths(
     if (!pathKey.startsWith('/')) {
       errors.push({
         path: `paths.${pathKey}`,
+        pathSegments: ['paths', pathKey],
         message: `Path "${pathKey}" must start with a forward slash (/)`,
         severity: 'error',
         line: findLineNumber(yamlContent, ['paths', pathKey]),
@@ -176,6 +215,7 @@ function validatePaths(
           if (!operation.operationId) {
             errors.push({
               path: `paths.${pathKey}.${op}.operationId`,
+              pathSegments: ['paths', pathKey, op, 'operationId'],
               message: `Operation "${op.toUpperCase()} ${pathKey}" is missing operationId`,
               severity: 'warning',
               line: findLineNumber(yamlContent, ['paths', pathKey, op]),
@@ -186,6 +226,7 @@ function validatePaths(
           if (!operation.responses || Object.keys(operation.responses as object).length === 0) {
             errors.push({
               path: `paths.${pathKey}.${op}.responses`,
+              pathSegments: ['paths', pathKey, op, 'responses'],
               message: `Operation "${op.toUpperCase()} ${pathKey}" must have at least one response defined`,
               severity: 'error',
               line: findLineNumber(yamlContent, ['paths', pathKey, op]),
@@ -202,6 +243,7 @@ function validatePaths(
             if (!isDefined) {
               errors.push({
                 path: `paths.${pathKey}.${op}.parameters`,
+                pathSegments: ['paths', pathKey, op, 'parameters'],
                 message: `Path parameter "${paramName}" is used in path but not defined in parameters`,
                 severity: 'error',
                 line: findLineNumber(yamlContent, ['paths', pathKey, op, 'parameters']),
@@ -230,6 +272,7 @@ function validateSchemas(
       if (!schemaObj.type && !schemaObj.$ref && !schemaObj.allOf && !schemaObj.oneOf && !schemaObj.anyOf) {
         errors.push({
           path: `components.schemas.${schemaName}`,
+          pathSegments: ['components', 'schemas', schemaName],
           message: `Schema "${schemaName}" should have a "type" field or use $ref/allOf/oneOf/anyOf`,
           severity: 'warning',
           line: findLineNumber(yamlContent, ['components', 'schemas', schemaName]),
@@ -240,6 +283,7 @@ function validateSchemas(
       if (schemaObj.type === 'object' && !schemaObj.properties && !schemaObj.additionalProperties) {
         errors.push({
           path: `components.schemas.${schemaName}`,
+          pathSegments: ['components', 'schemas', schemaName],
           message: `Object schema "${schemaName}" should have "properties" or "additionalProperties" defined`,
           severity: 'warning',
           line: findLineNumber(yamlContent, ['components', 'schemas', schemaName]),
@@ -250,6 +294,7 @@ function validateSchemas(
       if (schemaObj.type === 'array' && !schemaObj.items) {
         errors.push({
           path: `components.schemas.${schemaName}.items`,
+          pathSegments: ['components', 'schemas', schemaName, 'items'],
           message: `Array schema "${schemaName}" must have "items" defined`,
           severity: 'error',
           line: findLineNumber(yamlContent, ['components', 'schemas', schemaName]),
@@ -259,6 +304,87 @@ function validateSchemas(
   }
 }
 
+/**
+ * Warns about request body schemas with properties that are both required and readOnly.
+ * Clients never send readOnly properties, so requiring them in a request is contradictory.
+ */
+function validateRequestBodySchemas(
+  paths: Record<string, unknown>,
+  schemas: Record<string, unknown>,
+  yamlContent: string,
+  errors: ValidationError[]
+): void {
+  const operations = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace'];
+  for (const [pathKey, pathItem] of Object.entries(paths)) {
+    if (!pathItem || typeof pathItem !== 'object') continue;
+    for (const op of operations) {
+      const operation = (pathItem as Record<string, unknown>)[op] as Record<string, unknown> | undefined;
+      const requestBody = operation?.requestBody as Record<string, unknown> | undefined;
+      const content = requestBody?.content as Record<string, Record<string, unknown>> | undefined;
+      if (!content) continue;
+
+      const reported = new Set<string>();
+      for (const mediaType of Object.values(content)) {
+        for (const propertyPath of findRequiredReadOnly(mediaType?.schema, schemas, '', new Set())) {
+          if (reported.has(propertyPath)) continue;
+          reported.add(propertyPath);
+          errors.push({
+            path: `paths.${pathKey}.${op}.requestBody`,
+            pathSegments: ['paths', pathKey, op, 'requestBody'],
+            message: `Property "${propertyPath}" is required and readOnly in the request body of "${op.toUpperCase()} ${pathKey}"`,
+            severity: 'warning',
+            line: findLineNumber(yamlContent, ['paths', pathKey, op, 'requestBody']),
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Collects dotted paths of required + readOnly properties, following $refs,
+ * allOf/oneOf/anyOf members, nested objects and array items
+ */
+function findRequiredReadOnly(
+  schema: unknown,
+  schemas: Record<string, unknown>,
+  prefix: string,
+  visited: Set<string>
+): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const schemaObj = schema as Record<string, unknown>;
+
+  if (typeof schemaObj.$ref === 'string') {
+    const match = schemaObj.$ref.match(/^#\/components\/schemas\/(.+)$/);
+    if (!match || visited.has(match[1])) return [];
+    return findRequiredReadOnly(schemas[match[1]], schemas, prefix, new Set([...visited, match[1]]));
+  }
+
+  const found: string[] = [];
+  for (const key of ['allOf', 'oneOf', 'anyOf']) {
+    if (Array.isArray(schemaObj[key])) {
+      for (const member of schemaObj[key] as unknown[]) {
+        found.push(...findRequiredReadOnly(member, schemas, prefix, visited));
+      }
+    }
+  }
+  if (schemaObj.items) {
+    found.push(...findRequiredReadOnly(schemaObj.items, schemas, `${prefix}[]`, visited));
+  }
+
+  const required = Array.isArray(schemaObj.required) ? (schemaObj.required as string[]) : [];
+  const properties = (schemaObj.properties || {}) as Record<string, unknown>;
+  for (const [name, property] of Object.entries(properties)) {
+    const propertyPath = prefix ? `${prefix}.${name}` : name;
+    const propertyObj = (property || {}) as Record<string, unknown>;
+    if (required.includes(name) && propertyObj.readOnly === true) {
+      found.push(propertyPath);
+    }
+    found.push(...findRequiredReadOnly(property, schemas, propertyPath, visited));
+  }
+  return found;
+}
+
 /**
  * Attempts to find the line number for a given path in the YAML content
  */
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { PathResponse } from '../types/swagger';
+import { DEFAULT_RESPONSE_CONTENT_TYPE } from '../constants/contentTypes';
+import { applyContentEdit } from './passthrough';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { toOpenApiObject } from './yamlGenerator';
+
+const SPEC = `${SPEC_HEADER}paths:
+  /pets:
+    get:
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  id: { type: string }
+              example: { id: '1' }
+components:
+  schemas:
+    Pet: { type: object, properties: { id: { type: string } } }
+`;
+
+// Edit the imported 200 response the way the form does and export the result
+const exportEditedResponse = (field: keyof PathResponse, value: unknown) => {
+  const doc = importSpec(SPEC);
+  const operation = doc.paths[0].operations[0];
+  operation.responses[0] = applyContentEdit(operation.responses[0], field, value, DEFAULT_RESPONSE_CONTENT_TYPE);
+  return toOpenApiObject(doc).paths['/pets'].get!.responses['200'] as { content?: Record<string, Record<string, unknown>> };
+};
+
+describe('applyContentEdit', () => {
+  it('keeps the imported inline schema and example when nothing is edited', () => {
+    const response = exportEditedResponse('description', 'Still OK');
+
+    expect(response.content).toEqual({
+      'application/json': {
+        schema: { type: 'object', properties: { id: { type: 'string' } } },
+        example: { id: '1' },
+      },
+    });
+  });
+
+  it('drops the imported content when the response is marked as having no body', () => {
+    const response = exportEditedResponse('noContent', true);
+
+    expect(response).not.toHaveProperty('content');
+  });
+
+  it('moves the imported media type to a new content type', () => {
+    const response = exportEditedResponse('contentType', 'application/xml');
+
+    expect(Object.keys(response.content!)).toEqual(['application/xml']);
+    expect(response.content!['application/xml']).toEqual({
+      schema: { type: 'object', properties: { id: { type: 'string' } } },
+      example: { id: '1' },
+    });
+  });
+
+  it('replaces the imported inline schema with the picked schema', () => {
+    const response = exportEditedResponse('schemaRef', 'Pet');
+
+    expect(response.content!['application/json']).toEqual({
+      schema: { $ref: '#/components/schemas/Pet' },
+      example: { id: '1' },
+    });
+  });
+});
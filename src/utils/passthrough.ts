@@ -0,0 +1,127 @@
+import type { Passthrough } from '../types/swagger';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Collect the keys of an imported object that the editor model doesn't cover.
+ * Returns undefined when everything was modeled, so the field can be omitted.
+ */
+export const pickPassthrough = (
+  source: unknown,
+  modeledKeys: readonly string[],
+  nested: Record<string, Passthrough | undefined> = {}
+): Passthrough | undefined => {
+  if (!isPlainObject(source)) return undefined;
+
+  const result: Passthrough = Object.fromEntries(
+    Object.entries(source).filter(([key]) => !modeledKeys.includes(key))
+  );
+  // Unmodeled parts of modeled children (e.g. extra keys of a parameter's schema)
+  for (const [key, value] of Object.entries(nested)) {
+    if (value) {
+      result[key] = value;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * Attach passthrough data to a model node, leaving the node untouched when there is none
+ */
+export const withPassthrough = <T extends object>(node: T, passthrough: Passthrough | undefined): T =>
+  passthrough ? { ...node, passthrough } : node;
+
+/**
+ * Collect unmodeled keys for every entry of a map (e.g. headers by name)
+ */
+export const pickMapPassthrough = (
+  source: unknown,
+  pick: (entry: unknown) => Passthrough | undefined
+): Passthrough | undefined => {
+  if (!isPlainObject(source)) return undefined;
+
+  const entries = Object.entries(source)
+    .map(([key, entry]): [string, Passthrough | undefined] => [key, pick(entry)])
+    .filter((entry): entry is [string, Passthrough] => entry[1] !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Whether an imported value can be edited as a plain string field
+ */
+export const isScalar = (value: unknown): value is string | number | boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Re-apply passthrough data to a generated object.
+ * Generated values win; passthrough only fills in keys the generator didn't produce,
+ * recursing into objects present on both sides.
+ */
+export const mergePassthrough = <T extends object>(generated: T, passthrough: Passthrough | undefined): T => {
+  if (!passthrough) return generated;
+
+  const result: Record<string, unknown> = { ...(generated as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(passthrough)) {
+    const existing = result[key];
+    if (existing === undefined) {
+      result[key] = value;
+    } else if (isPlainObject(existing) && isPlainObject(value)) {
+      result[key] = mergePassthrough(existing, value);
+    }
+  }
+  return result as T;
+};
+
+const withoutKey = (object: Record<string, unknown>, key: string): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(object).filter(([entryKey]) => entryKey !== key));
+
+/**
+ * Drop the imported media type data a form edit replaces, so it can't win over the edit on export:
+ * marking a body as empty drops all content, a new content type takes over the old one's
+ * leftovers, and picking a schema drops the imported inline schema
+ */
+const trimContentPassthrough = (
+  passthrough: Passthrough | undefined,
+  contentType: string,
+  field: string,
+  value: unknown
+): Passthrough | undefined => {
+  const content = passthrough?.content;
+  if (!passthrough || !isPlainObject(content)) return passthrough;
+
+  let trimmed: Record<string, unknown> | undefined = content;
+  if (field === 'noContent' && value) {
+    trimmed = undefined;
+  } else if (field === 'contentType' && value !== contentType) {
+    const edited = content[contentType];
+    trimmed = withoutKey(content, contentType);
+    if (edited !== undefined && trimmed[value as string] === undefined) {
+      trimmed[value as string] = edited;
+    }
+  } else if (field === 'schemaRef' && value && isPlainObject(content[contentType])) {
+    const mediaType = withoutKey(content[contentType], 'schema');
+    trimmed = Object.keys(mediaType).length > 0 ? { ...content, [contentType]: mediaType } : withoutKey(content, contentType);
+  }
+
+  if (trimmed === content) return passthrough;
+  const rest = withoutKey(passthrough, 'content');
+  const result = trimmed && Object.keys(trimmed).length > 0 ? { ...rest, content: trimmed } : rest;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/**
+ * Set a field of a response or request body edited in the form, trimming the imported
+ * content passthrough the new value makes obsolete. `defaultContentType` is the content type
+ * used when the body doesn't set one.
+ */
+export const applyContentEdit = <T extends { contentType?: string; passthrough?: Passthrough }>(
+  body: T,
+  field: keyof T,
+  value: unknown,
+  defaultContentType: string
+): T => {
+  const { passthrough, ...rest } = body;
+  const trimmed = trimContentPassthrough(passthrough, body.contentType || defaultContentType, String(field), value);
+  return withPassthrough({ ...rest, [field]: value } as T, trimmed);
+};
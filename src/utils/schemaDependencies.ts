@@ -0,0 +1,35 @@
+import type { SchemaProperty, SwaggerSchema } from '../types/swagger';
+import { getChildProperties } from './schemaPropertyTree';
+
+const collectPropertyRefs = (properties: SchemaProperty[], refs: Set<string>): void => {
+  properties.forEach((prop) => {
+    if (prop.$ref) refs.add(prop.$ref);
+    if (prop.items?.$ref) refs.add(prop.items.$ref);
+    collectPropertyRefs(getChildProperties(prop), refs);
+  });
+};
+
+/**
+ * Names of the schemas a schema references directly, through composition or its properties
+ */
+export const getReferencedSchemaNames = (schema: SwaggerSchema): string[] => {
+  const refs = new Set((schema.compositionRefs || []).filter(Boolean));
+  collectPropertyRefs(schema.properties, refs);
+  return [...refs];
+};
+
+/**
+ * A schema followed by every schema it references, directly or indirectly, so it can be
+ * exported on its own
+ */
+export const withSchemaDependencies = (schemas: SwaggerSchema[], name: string): SwaggerSchema[] => {
+  const included = new Map<string, SwaggerSchema>();
+  const visit = (schemaName: string) => {
+    const schema = schemas.find((candidate) => candidate.name === schemaName);
+    if (!schema || included.has(schemaName)) return;
+    included.set(schemaName, schema);
+    getReferencedSchemaNames(schema).forEach(visit);
+  };
+  visit(name);
+  return [...included.values()];
+};
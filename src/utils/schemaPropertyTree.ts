@@ -0,0 +1,65 @@
+import type { SchemaProperty } from '../types/swagger';
+
+/**
+ * A property path is the list of indices from a schema's top-level properties
+ * down to a nested property, e.g. [2, 0] is the first child of the third property.
+ */
+export type PropertyPath = number[];
+
+/**
+ * Whether a property defines its own nested properties instead of referencing a schema.
+ * Objects nest directly; arrays nest through their items.
+ */
+export const hasInlineProperties = (prop: SchemaProperty): boolean => {
+  if (prop.type === 'object') {
+    return !prop.$ref;
+  }
+  if (prop.type === 'array') {
+    return !prop.items?.$ref && prop.items?.type === 'object';
+  }
+  return false;
+};
+
+/**
+ * Get the nested properties of an inline object property (or of an array's object items)
+ */
+export const getChildProperties = (prop: SchemaProperty): SchemaProperty[] =>
+  (prop.type === 'array' ? prop.items?.properties : prop.properties) || [];
+
+const withChildProperties = (prop: SchemaProperty, children: SchemaProperty[]): SchemaProperty =>
+  prop.type === 'array'
+    ? { ...prop, items: { ...prop.items, properties: children } }
+    : { ...prop, properties: children };
+
+/**
+ * Apply an updater to the list of properties that contains the property at `path`.
+ * An empty path targets the top-level list itself.
+ */
+export const mapPropertyList = (
+  properties: SchemaProperty[],
+  path: PropertyPath,
+  updater: (list: SchemaProperty[]) => SchemaProperty[]
+): SchemaProperty[] => {
+  if (path.length === 0) {
+    return updater(properties);
+  }
+  const [index, ...rest] = path;
+  return properties.map((prop, i) =>
+    i === index ? withChildProperties(prop, mapPropertyList(getChildProperties(prop), rest, updater)) : prop
+  );
+};
+
+/**
+ * Apply an updater to the single property at `path`
+ */
+export const mapPropertyAtPath = (
+  properties: SchemaProperty[],
+  path: PropertyPath,
+  updater: (prop: SchemaProperty) => SchemaProperty
+): SchemaProperty[] => {
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  return mapPropertyList(properties, parentPath, (list) =>
+    list.map((prop, i) => (i === index ? updater(prop) : prop))
+  );
+};
@@ -0,0 +1,43 @@
+import type { SecurityRequirement, SwaggerSecurityScheme } from '../types/swagger';
+
+/**
+ * All scope names declared across a scheme's OAuth2 flows
+ */
+export const getSchemeScopes = (scheme: SwaggerSecurityScheme): string[] => {
+  const names = Object.values(scheme.flows || {}).flatMap((flow) => flow.scopes.map((scope) => scope.name));
+  return [...new Set(names.filter(Boolean))];
+};
+
+/**
+ * Rename a security scheme inside a list of requirements, keeping key order
+ */
+export const renameSchemeInRequirements = (
+  requirements: SecurityRequirement[],
+  oldName: string,
+  newName: string
+): SecurityRequirement[] =>
+  requirements.map((requirement) =>
+    oldName in requirement
+      ? Object.fromEntries(
+        Object.entries(requirement).map(([name, scopes]) => [name === oldName ? newName : name, scopes])
+      )
+      : requirement
+  );
+
+/**
+ * Drop a security scheme from a list of requirements.
+ * Requirements left without any scheme are removed, since an empty
+ * requirement would silently allow anonymous access.
+ */
+export const removeSchemeFromRequirements = (
+  requirements: SecurityRequirement[],
+  name: string
+): SecurityRequirement[] =>
+  requirements
+    .map((requirement) => {
+      if (!(name in requirement)) return requirement;
+      const rest = { ...requirement };
+      delete rest[name];
+      return Object.keys(rest).length > 0 ? rest : null;
+    })
+    .filter((requirement): requirement is SecurityRequirement => requirement !== null);
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { generateServerStubs, type ServerFramework } from './serverStubGenerator';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+
+const SPEC = `${SPEC_HEADER}paths:
+  /pets:
+    get:
+      operationId: listPets
+      tags: [pets]
+      parameters:
+        - { name: X-Request-Id, in: header, required: true, schema: { type: string } }
+      responses:
+        '200': { description: OK }
+  /pets/{id}:
+    get:
+      operationId: getPet
+      tags: [pets]
+      parameters:
+        - { name: id, in: path, required: true, schema: { type: string } }
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+              example: { id: '1', name: Rex }
+components:
+  schemas:
+    Pet: { type: object, properties: { id: { type: string }, name: { type: string } } }
+`;
+
+const generateRoutes = (framework: ServerFramework, spec = SPEC): string => {
+  const routes = generateServerStubs(importSpec(spec), framework).find((entry) => entry.path === 'src/routes/pets.ts');
+  return routes!.content;
+};
+
+describe('generateServerStubs', () => {
+  it('responds with the inline example of the success response', () => {
+    const routes = generateRoutes('express');
+
+    expect(routes).toContain('"name": "Rex"');
+  });
+
+  it('falls back to an example built from the schema', () => {
+    const routes = generateRoutes('fastify', SPEC.replace("              example: { id: '1', name: Rex }\n", ''));
+
+    expect(routes).not.toContain('Rex');
+    expect(routes).toContain('"name": ""');
+  });
+
+  it.each<ServerFramework>(['express', 'fastify'])('exports the header parameters type for %s', (framework) => {
+    const routes = generateRoutes(framework);
+
+    expect(routes).toContain("export interface ListPetsHeaders {\n  'x-request-id': string;\n}");
+  });
+
+  it.each<ServerFramework>(['express', 'fastify'])('types an integer path parameter as a string for %s', (framework) => {
+    const routes = generateRoutes(framework, SPEC.replace('in: path, required: true, schema: { type: string }', 'in: path, required: true, schema: { type: integer }'));
+
+    expect(routes).toContain('export interface GetPetParams {\n  /** Parse as integer */\n  id: string;\n}');
+  });
+
+  it('types application/*+json bodies and has Fastify parse them', () => {
+    const spec = `${SPEC_HEADER}paths:
+  /pets:
+    post:
+      operationId: createPet
+      tags: [pets]
+      requestBody:
+        content:
+          application/vnd.api+json:
+            schema: { $ref: '#/components/schemas/Pet' }
+      responses:
+        '204': { description: Created }
+components:
+  schemas:
+    Pet: { type: object, properties: { id: { type: string } } }
+`;
+    const files = generateServerStubs(importSpec(spec), 'fastify');
+
+    expect(files.find((entry) => entry.path === 'src/routes/pets.ts')!.content).toContain('Body: Pet');
+    expect(files.find((entry) => entry.path === 'src/server.ts')!.content).toContain(
+      "app.addContentTypeParser(/^application\\/[\\w.-]+\\+json/, { parseAs: 'string' }, app.getDefaultJsonParser('error', 'error'));"
+    );
+  });
+});
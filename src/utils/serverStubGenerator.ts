@@ -0,0 +1,482 @@
+import type { Passthrough, PathOperation, PathParameter, SchemaProperty, SwaggerDocument } from '../types/swagger';
+import { DEFAULT_RESPONSE_CONTENT_TYPE } from '../constants/contentTypes';
+import { resolveParameter } from './clientGenerator';
+import { generateOperationId } from './operationIdGenerator';
+import {
+  generateTypeScriptTypes,
+  toDocComment,
+  toIdentifier,
+  toPropertyKey,
+  toScalarType,
+  toSchemaTypeName,
+  toStringLiteral,
+  toTypeName,
+} from './typeScriptGenerator';
+import { parseEnumList, toExampleValue, toTypedValue } from './yamlGenerator';
+import type { ZipEntry } from './zip';
+
+export type ServerFramework = 'express' | 'fastify';
+
+interface StubResponse {
+  code: string;
+  status: number;
+  description: string;
+  kind: 'empty' | 'json' | 'text';
+  contentType: string;
+  bodyType: string;
+  example: unknown;
+}
+
+interface StubOperation {
+  name: string;
+  method: PathOperation['method'];
+  route: string;
+  operation: PathOperation;
+  parameters: PathParameter[];
+  bodyType?: string;
+  responses: StubResponse[];
+}
+
+const DEFAULT_GROUP = 'default';
+
+// Values used in generated examples for properties without an example, default or enum
+const PLACEHOLDERS: Record<string, unknown> = { string: '', number: 0, integer: 0, boolean: false };
+
+// Route parameter names are limited to word characters
+const toRouteParamName = (name: string): string => name.replace(/\W/g, '_');
+
+/**
+ * Express/Fastify route syntax for an OpenAPI path, e.g. "/pets/{pet-id}" -> "/pets/:pet_id"
+ */
+export const toRoutePath = (path: string): string =>
+  path.replace(/\{([^}]+)\}/g, (_, name: string) => `:${toRouteParamName(name)}`);
+
+// Status passed to the response helper; ranges and "default" use a representative code
+const toStatus = (code: string): number => {
+  if (/^\d{3}$/.test(code)) return Number(code);
+  if (/^[1-5]XX$/i.test(code)) return Number(code[0]) * 100;
+  return 500;
+};
+
+const toStatusKey = (code: string): string => (/^\d+$/.test(code) ? code : toPropertyKey(code));
+
+const propertyExample = (document: SwaggerDocument, prop: SchemaProperty, seen: Set<string>): unknown => {
+  if (prop.example) {
+    return prop.type === 'object' || prop.type === 'array' ? toExampleValue(prop.example) : toTypedValue(prop.example, prop.type);
+  }
+  if (prop.default) return toTypedValue(prop.default, prop.type);
+  const [firstValue] = parseEnumList(prop.enumValues);
+  if (firstValue !== undefined) return toTypedValue(firstValue, prop.type);
+  if (prop.type === 'object') {
+    return prop.$ref ? schemaExample(document, prop.$ref, seen) ?? {} : propertiesExample(document, prop.properties, seen);
+  }
+  if (prop.type === 'array') {
+    const item = prop.items?.$ref
+      ? schemaExample(document, prop.items.$ref, seen)
+      : prop.items?.type === 'object'
+        ? propertiesExample(document, prop.items.properties, seen)
+        : PLACEHOLDERS[prop.items?.type || 'string'];
+    return item === undefined ? [] : [item];
+  }
+  return PLACEHOLDERS[prop.type] ?? null;
+};
+
+const propertiesExample = (
+  document: SwaggerDocument,
+  properties: SchemaProperty[] | undefined,
+  seen: Set<string>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    (properties || [])
+      .filter((prop) => prop.name && !prop.writeOnly)
+      .map((prop) => [prop.name, propertyExample(document, prop, seen)])
+  );
+
+/**
+ * Example value for a component schema built from its properties' examples.
+ * Returns undefined for unknown schemas and for references back into a schema being built.
+ */
+const schemaExample = (document: SwaggerDocument, name: string, seen = new Set<string>()): unknown => {
+  const schema = document.schemas.find((candidate) => candidate.name === name);
+  if (!schema || seen.has(name)) return undefined;
+  const nested = new Set(seen).add(name);
+  const refs = (schema.compositionRefs || []).filter(Boolean);
+
+  if (schema.composition === 'oneOf' || schema.composition === 'anyOf') {
+    return refs.length > 0 ? schemaExample(document, refs[0], nested) : undefined;
+  }
+  if (schema.type === 'array') return [];
+  const inherited = schema.composition === 'allOf'
+    ? refs.map((ref) => schemaExample(document, ref, nested)).filter((value) => value && typeof value === 'object')
+    : [];
+  return Object.assign({}, ...inherited, propertiesExample(document, schema.properties, nested));
+};
+
+/**
+ * Example written inline on an imported media type: its `example`, or else the value of
+ * the first of its inline `examples`
+ */
+const inlineExample = (passthrough: Passthrough | undefined, contentType: string): unknown => {
+  const mediaType = (passthrough?.content as Record<string, Record<string, unknown> | undefined> | undefined)?.[contentType];
+  if (!mediaType) return undefined;
+  if (mediaType.example !== undefined) return mediaType.example;
+  const examples = Object.values((mediaType.examples as Record<string, { value?: unknown }> | undefined) || {});
+  return examples.find((example) => example?.value !== undefined)?.value;
+};
+
+// Request media types both generated servers parse as JSON: application/json and application/*+json
+const isParsedAsJson = (contentType: string): boolean => /^application\/([\w.-]+\+)?json\s*(;|$)/i.test(contentType);
+
+/**
+ * Builds the stub-specific view of an operation: route, resolved parameters and typed responses.
+ * Schema types used along the way are added to `usedTypes` so the route file can import them.
+ */
+const toStubOperation = (
+  document: SwaggerDocument,
+  path: string,
+  operation: PathOperation,
+  name: string,
+  usedTypes: Set<string>
+): StubOperation => {
+  const schemaType = (ref: string): string => {
+    if (!document.schemas.some((schema) => schema.name === ref)) return 'unknown';
+    const typeName = toSchemaTypeName(ref);
+    usedTypes.add(typeName);
+    return typeName;
+  };
+
+  const parameters = operation.parameters
+    .map((param) => resolveParameter(document, param))
+    .filter((param): param is PathParameter => Boolean(param?.name));
+
+  let bodyType: string | undefined;
+  const requestBody = operation.requestBody;
+  if (requestBody) {
+    const resolved = requestBody.$ref
+      ? document.components.requestBodies.find((component) => component.name === requestBody.$ref)
+      : requestBody;
+    // Form and binary bodies depend on the body parser the service registers
+    bodyType = resolved && isParsedAsJson(resolved.contentType || 'application/json') && resolved.schemaRef
+      ? schemaType(resolved.schemaRef)
+      : 'unknown';
+  }
+
+  const responses = operation.responses
+    .filter((response) => response.statusCode)
+    .map((response): StubResponse => {
+      const resolved = response.$ref
+        ? document.components.responses.find((component) => component.name === response.$ref)
+        : response;
+      const contentType = resolved?.contentType || DEFAULT_RESPONSE_CONTENT_TYPE;
+      const base = { code: response.statusCode, status: toStatus(response.statusCode), description: resolved?.description || '' };
+      if (!resolved || resolved.noContent) {
+        return { ...base, kind: 'empty', contentType, bodyType: 'void', example: undefined };
+      }
+      const component = document.components.examples.find((example) => example.name === resolved.exampleRefs?.[0]);
+      const example = component ? toExampleValue(component.value) : inlineExample(resolved.passthrough, contentType);
+      if (!contentType.includes('json')) {
+        return { ...base, kind: 'text', contentType, bodyType: 'string', example: String(example ?? '') };
+      }
+      return {
+        ...base,
+        kind: 'json',
+        contentType,
+        bodyType: resolved.schemaRef ? schemaType(resolved.schemaRef) : 'unknown',
+        example: example !== undefined ? example : resolved.schemaRef ? schemaExample(document, resolved.schemaRef) ?? {} : {},
+      };
+    });
+
+  return { name, method: operation.method, route: toRoutePath(path), operation, parameters, bodyType, responses };
+};
+
+/**
+ * Type literal for the parameters in one location, or undefined when there are none.
+ * No route schema is registered, so Express and Fastify pass every value on as the string
+ * from the URL or header; numbers and booleans are typed as strings for the handler to parse.
+ */
+const toParamsType = (parameters: PathParameter[], location: PathParameter['in']): string | undefined => {
+  const params = parameters.filter((param) => param.in === location);
+  if (params.length === 0) return undefined;
+  const fields = params.map((param) => {
+    const required = param.required || location === 'path';
+    // Node lowercases incoming header names
+    const name = location === 'path' ? toRouteParamName(param.name) : location === 'header' ? param.name.toLowerCase() : param.name;
+    const parsed = param.type && param.type !== 'string' && param.type !== 'array' ? `Parse as ${param.type}` : undefined;
+    const comment = toDocComment([param.description, parsed, param.deprecated ? '@deprecated' : undefined], '  ');
+    const type = toScalarType(param.type === 'array' ? 'array' : 'string', param.enum);
+    return `${comment}  ${toPropertyKey(name)}${required ? '' : '?'}: ${type};`;
+  });
+  return `{\n${fields.join('\n')}\n}`;
+};
+
+
+const toResponsesName = (stub: StubOperation): string => toIdentifier(`${stub.name} responses`);
+
+const toStatusLiteral = (code: string): string => (/^\d+$/.test(code) ? code : toStringLiteral(code));
+
+const toExampleLiteral = (example: unknown, indent: string): string =>
+  (JSON.stringify(example, null, 2) ?? 'undefined').replace(/\n/g, `\n${indent}`);
+
+const generateResponseHelpers = (stub: StubOperation, framework: ServerFramework): string => {
+  const helpers = stub.responses.map((response) => {
+    const comment = toDocComment([response.description || `${response.code} response`], '  ');
+    const key = toStatusKey(response.code);
+    const type = toStringLiteral(response.contentType);
+    if (framework === 'express') {
+      if (response.kind === 'empty') return `${comment}  ${key}: (res: Response) => res.status(${response.status}).end(),`;
+      const send = response.kind === 'json' ? 'json(body)' : 'send(body)';
+      return `${comment}  ${key}: (res: Response, body: ${response.bodyType}) => res.status(${response.status}).type(${type}).${send},`;
+    }
+    if (response.kind === 'empty') return `${comment}  ${key}: (reply: FastifyReply) => reply.code(${response.status}).send(),`;
+    return `${comment}  ${key}: (reply: FastifyReply, body: ${response.bodyType}) => reply.code(${response.status}).type(${type}).send(body),`;
+  });
+  return `const ${toResponsesName(stub)} = {\n${helpers.join('\n')}\n};`;
+};
+
+// The TODO body: respond with the first success response's example
+const generateHandlerBody = (stub: StubOperation, framework: ServerFramework, indent: string): string => {
+  const target = framework === 'express' ? 'res' : 'reply';
+  const statement = framework === 'express' ? '' : 'return ';
+  const success = stub.responses.find((response) => response.code.startsWith('2'));
+  const lines = [`${indent}// TODO: implement ${stub.operation.operationId || stub.name}`];
+  if (!success) {
+    lines.push(`${indent}${statement}${target}.${framework === 'express' ? 'status' : 'code'}(501).send();`);
+  } else if (success.kind === 'empty') {
+    lines.push(`${indent}${statement}${toResponsesName(stub)}[${toStatusLiteral(success.code)}](${target});`);
+  } else {
+    const example = toExampleLiteral(success.example, indent);
+    lines.push(`${indent}${statement}${toResponsesName(stub)}[${toStatusLiteral(success.code)}](${target}, ${example});`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Type declarations, response helpers and the route registration for one operation
+ */
+const generateRoute = (
+  stub: StubOperation,
+  framework: ServerFramework,
+  routerName: string
+): { declarations: string[]; handler: string } => {
+  const typeName = toTypeName(stub.name);
+  const declarations: string[] = [];
+  const generics: Record<string, string> = {};
+  const addParamsType = (location: PathParameter['in'], suffix: string, key?: string) => {
+    const type = toParamsType(stub.parameters, location);
+    if (!type) return;
+    declarations.push(`export interface ${typeName}${suffix} ${type}`);
+    if (key) generics[key] = `${typeName}${suffix}`;
+  };
+  addParamsType('path', 'Params', 'Params');
+  addParamsType('query', 'Query', 'Querystring');
+  // Express has no typed request headers; the interface still lists what to read with req.get()
+  addParamsType('header', 'Headers', framework === 'fastify' ? 'Headers' : undefined);
+  if (stub.bodyType) generics.Body = stub.bodyType;
+  if (stub.responses.length > 0) declarations.push(generateResponseHelpers(stub, framework));
+
+  const comment = toDocComment([
+    stub.operation.summary || `${stub.method.toUpperCase()} ${stub.route}`,
+    stub.operation.description && `\n${stub.operation.description}`,
+    stub.operation.deprecated ? '@deprecated' : undefined,
+  ], framework === 'express' ? '' : '  ');
+  const route = toStringLiteral(stub.route);
+
+  if (framework === 'express') {
+    const request = `Request<${generics.Params || 'Record<string, never>'}, unknown, ${generics.Body || 'unknown'}, ${generics.Querystring || 'Record<string, never>'}>`;
+    const body = generateHandlerBody(stub, framework, '  ');
+    return { declarations, handler: `${comment}${routerName}.${stub.method}(${route}, (req: ${request}, res: Response) => {\n${body}\n});` };
+  }
+  const routeGeneric = Object.keys(generics).length > 0
+    ? `<{ ${Object.entries(generics).map(([key, type]) => `${key}: ${type}`).join('; ')} }>`
+    : '';
+  const body = generateHandlerBody(stub, framework, '    ');
+  return { declarations, handler: `${comment}  app.${stub.method}${routeGeneric}(${route}, async (request, reply) => {\n${body}\n  });` };
+};
+
+interface RouteGroup {
+  name: string;
+  operations: Array<{ path: string; operation: PathOperation; name: string }>;
+}
+
+const generateRouteFile = (document: SwaggerDocument, group: RouteGroup, framework: ServerFramework, exportName: string): string => {
+  const usedTypes = new Set<string>();
+  const routes = group.operations.map(({ path, operation, name }) =>
+    generateRoute(toStubOperation(document, path, operation, name, usedTypes), framework, exportName)
+  );
+  const typeImport = usedTypes.size > 0 ? [`import type { ${[...usedTypes].sort().join(', ')} } from '../types.js';`] : [];
+
+  const lines = framework === 'express'
+    ? [
+      "import { Router, type Request, type Response } from 'express';",
+      ...typeImport,
+      '',
+      `export const ${exportName} = Router();`,
+      ...routes.flatMap((route) => ['', ...route.declarations.flatMap((declaration) => [declaration, '']), route.handler]),
+    ]
+    : [
+      "import type { FastifyInstance, FastifyReply } from 'fastify';",
+      ...typeImport,
+      ...routes.flatMap((route) => route.declarations.flatMap((declaration) => ['', declaration])),
+      '',
+      `export const ${exportName} = async (app: FastifyInstance): Promise<void> => {`,
+      routes.map((route) => route.handler).join('\n\n'),
+      '};',
+    ];
+  return `${lines.join('\n')}\n`;
+};
+
+// Operations grouped into route files by their first tag
+const groupOperations = (document: SwaggerDocument): RouteGroup[] => {
+  const groups = new Map<string, RouteGroup>();
+  const usedNames = new Set<string>();
+  document.paths
+    .filter((path) => path.path)
+    .forEach((path) =>
+      path.operations.forEach((operation) => {
+        const baseName = toIdentifier(operation.operationId || generateOperationId(operation.method, path.path));
+        let name = baseName;
+        for (let i = 2; usedNames.has(name); i++) {
+          name = `${baseName}${i}`;
+        }
+        usedNames.add(name);
+
+        const tag = operation.tags.find(Boolean) || DEFAULT_GROUP;
+        const key = toIdentifier(tag);
+        const group = groups.get(key) || { name: tag, operations: [] };
+        group.operations.push({ path: path.path, operation, name });
+        groups.set(key, group);
+      })
+    );
+  return [...groups.values()];
+};
+
+const toFileName = (name: string): string =>
+  name.split(/[^A-Za-z0-9]+/).filter(Boolean).join('-').toLowerCase() || DEFAULT_GROUP;
+
+// Path part of the first server URL, with server variables filled with their defaults
+const getBasePath = (document: SwaggerDocument): string => {
+  const server = document.servers[0];
+  if (!server) return '';
+  const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default || match);
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/\/+$/, '');
+};
+
+const generateServer = (
+  document: SwaggerDocument,
+  framework: ServerFramework,
+  routeFiles: Array<{ fileName: string; exportName: string }>
+): string => {
+  const basePath = getBasePath(document);
+  const imports = routeFiles.map((file) => `import { ${file.exportName} } from './routes/${file.fileName}.js';`);
+  const listening = `console.log('${(document.info.title || 'API').replace(/[\\']/g, '\\$&')} listening on http://localhost:' + port${basePath ? ' + BASE_PATH' : ''});`;
+  const lines = framework === 'express'
+    ? [
+      "import express from 'express';",
+      ...imports,
+      '',
+      ...(basePath ? [`const BASE_PATH = ${toStringLiteral(basePath)};`, ''] : []),
+      'const app = express();',
+      "app.use(express.json({ type: ['application/json', 'application/*+json'] }));",
+      ...routeFiles.map((file) => `app.use(${basePath ? 'BASE_PATH, ' : ''}${file.exportName});`),
+      '',
+      'const port = Number(process.env.PORT) || 3000;',
+      'app.listen(port, () => {',
+      `  ${listening}`,
+      '});',
+    ]
+    : [
+      "import Fastify from 'fastify';",
+      ...imports,
+      '',
+      ...(basePath ? [`const BASE_PATH = ${toStringLiteral(basePath)};`, ''] : []),
+      'const app = Fastify({ logger: true });',
+      '// Parse application/*+json bodies (e.g. application/vnd.api+json) like application/json',
+      "app.addContentTypeParser(/^application\\/[\\w.-]+\\+json/, { parseAs: 'string' }, app.getDefaultJsonParser('error', 'error'));",
+      ...routeFiles.map((file) => `await app.register(${file.exportName}${basePath ? ', { prefix: BASE_PATH }' : ''});`),
+      '',
+      'const port = Number(process.env.PORT) || 3000;',
+      "await app.listen({ port, host: '0.0.0.0' });",
+      listening,
+    ];
+  return `${lines.join('\n')}\n`;
+};
+
+const DEPENDENCIES: Record<ServerFramework, { dependencies: Record<string, string>; devDependencies: Record<string, string> }> = {
+  express: { dependencies: { express: '^5.1.0' }, devDependencies: { '@types/express': '^5.0.3' } },
+  fastify: { dependencies: { fastify: '^5.6.0' }, devDependencies: {} },
+};
+
+const generatePackageJson = (document: SwaggerDocument, framework: ServerFramework): string => {
+  const { dependencies, devDependencies } = DEPENDENCIES[framework];
+  const packageJson = {
+    name: toFileName(document.info.title || 'api-server'),
+    version: /^\d+\.\d+\.\d+/.test(document.info.version) ? document.info.version : '0.1.0',
+    private: true,
+    type: 'module',
+    scripts: { dev: 'tsx watch src/server.ts', build: 'tsc', start: 'node dist/server.js' },
+    dependencies,
+    devDependencies: { ...devDependencies, '@types/node': '^22.0.0', tsx: '^4.20.0', typescript: '^5.9.0' },
+  };
+  return `${JSON.stringify(packageJson, null, 2)}\n`;
+};
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: 'ES2022',
+    module: 'NodeNext',
+    moduleResolution: 'NodeNext',
+    strict: true,
+    skipLibCheck: true,
+    rootDir: 'src',
+    outDir: 'dist',
+  },
+  include: ['src'],
+};
+
+const FRAMEWORK_NAMES: Record<ServerFramework, string> = { express: 'Express', fastify: 'Fastify' };
+
+/**
+ * Generate a Node service skeleton for the document: a route file per tag with typed
+ * handlers and per-status response helpers, the schema types and a server entry point.
+ * Every handler is a TODO that responds with the first success response's example.
+ */
+export const generateServerStubs = (document: SwaggerDocument, framework: ServerFramework): ZipEntry[] => {
+  const title = document.info.title || 'API';
+  const usedFileNames = new Set<string>();
+  const routeFiles = groupOperations(document).map((group) => {
+    let fileName = toFileName(group.name);
+    for (let i = 2; usedFileNames.has(fileName); i++) {
+      fileName = `${toFileName(group.name)}-${i}`;
+    }
+    usedFileNames.add(fileName);
+    const exportName = toIdentifier(`${group.name} ${framework === 'express' ? 'router' : 'routes'}`);
+    return { fileName, exportName, content: generateRouteFile(document, group, framework, exportName) };
+  });
+  const schemaTypes = generateTypeScriptTypes(document.schemas);
+
+  return [
+    { path: 'package.json', content: generatePackageJson(document, framework) },
+    { path: 'tsconfig.json', content: `${JSON.stringify(TSCONFIG, null, 2)}\n` },
+    {
+      path: 'README.md',
+      content: [
+        `# ${title}`,
+        '',
+        `${FRAMEWORK_NAMES[framework]} server stubs generated from the OpenAPI document (version ${document.info.version}).`,
+        'Each handler responds with an example of its success response until it is implemented.',
+        '',
+        '```sh',
+        'npm install',
+        'npm run dev',
+        '```',
+        '',
+      ].join('\n'),
+    },
+    {
+      path: 'src/types.ts',
+      content: `${toDocComment([`Schemas of ${title}`]).trimEnd()}\n\n${schemaTypes || 'export {};'}\n`,
+    },
+    { path: 'src/server.ts', content: generateServer(document, framework, routeFiles) },
+    ...routeFiles.map((file) => ({ path: `src/routes/${file.fileName}.ts`, content: file.content })),
+  ];
+};
@@ -0,0 +1,22 @@
+import type { SwaggerServerVariable } from '../types/swagger';
+import { extractPathParameters } from './pathParameterParser';
+
+/**
+ * Sync server variables - adds missing variables and removes ones no longer in the URL
+ * (e.g., https://{region}.api.example.com/{stage}).
+ * Preserves existing variable details (default, enum, description)
+ */
+export const syncServerVariables = (
+  currentVariables: Record<string, SwaggerServerVariable> | undefined,
+  url: string
+): Record<string, SwaggerServerVariable> | undefined => {
+  // Server URLs use the same {name} placeholder syntax as paths
+  const detectedNames = [...new Set(extractPathParameters(url))];
+  if (detectedNames.length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    detectedNames.map((name) => [name, currentVariables?.[name] || { default: '' }])
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * Spectral's core rule functions. Each returns the problems found with a value,
+ * an empty list when it passes.
+ */
+
+export type SpectralFunction = (value: unknown, options: Record<string, unknown>) => string[];
+
+const describe = (value: unknown): string => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+
+// Regexes are written either bare or as /pattern/flags
+const toRegExp = (pattern: unknown): RegExp => {
+  const source = String(pattern);
+  const match = source.match(/^\/(.+)\/([gimsuy]*)$/);
+  return match ? new RegExp(match[1], match[2]) : new RegExp(source);
+};
+
+const CASING_PATTERNS: Record<string, { pattern: string; digitsPattern: string }> = {
+  flat: { pattern: '^[a-z]+$', digitsPattern: '^[a-z][a-z0-9]*$' },
+  camel: { pattern: '^[a-z]+(?:[A-Z][a-z]+)*[A-Z]?$', digitsPattern: '^[a-z][a-z0-9]*(?:[A-Z0-9][a-z0-9]*)*$' },
+  pascal: { pattern: '^(?:[A-Z][a-z]+)+[A-Z]?$', digitsPattern: '^[A-Z][a-z0-9]*(?:[A-Z0-9][a-z0-9]*)*$' },
+  kebab: { pattern: '^[a-z]+(?:-[a-z]+)*$', digitsPattern: '^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$' },
+  cobol: { pattern: '^[A-Z]+(?:-[A-Z]+)*$', digitsPattern: '^[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)*$' },
+  snake: { pattern: '^[a-z]+(?:_[a-z]+)*$', digitsPattern: '^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$' },
+  macro: { pattern: '^[A-Z]+(?:_[A-Z]+)*$', digitsPattern: '^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$' },
+};
+
+const sizeOf = (value: unknown): number | undefined => {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object') return Object.keys(value).length;
+  return undefined;
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean =>
+  typeOf(value) === type || (type === 'number' && typeOf(value) === 'integer');
+
+/**
+ * Checks a value against the commonly used JSON Schema keywords: type, enum, const,
+ * required, properties, additionalProperties, items, min/max lengths, items and properties,
+ * minimum, maximum, pattern, allOf, anyOf, oneOf and not
+ */
+const checkJsonSchema = (value: unknown, schema: unknown, path = ''): string[] => {
+  if (!schema || typeof schema !== 'object') return [];
+  const s = schema as Record<string, unknown>;
+  const at = path || 'value';
+  const errors: string[] = [];
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [String(s.type)];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${at} must be ${types.join(' or ')}`];
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((item) => JSON.stringify(item) === JSON.stringify(value))) {
+    errors.push(`${at} must be one of ${s.enum.map(describe).join(', ')}`);
+  }
+  if ('const' in s && JSON.stringify(s.const) !== JSON.stringify(value)) {
+    errors.push(`${at} must be ${describe(s.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof s.minLength === 'number' && value.length < s.minLength) errors.push(`${at} must have at least ${s.minLength} characters`);
+    if (typeof s.maxLength === 'number' && value.length > s.maxLength) errors.push(`${at} must have at most ${s.maxLength} characters`);
+    if (typeof s.pattern === 'string' && !new RegExp(s.pattern).test(value)) errors.push(`${at} must match "${s.pattern}"`);
+  }
+  if (typeof value === 'number') {
+    if (typeof s.minimum === 'number' && value < s.minimum) errors.push(`${at} must be >= ${s.minimum}`);
+    if (typeof s.maximum === 'number' && value > s.maximum) errors.push(`${at} must be <= ${s.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === 'number' && value.length < s.minItems) errors.push(`${at} must have at least ${s.minItems} items`);
+    if (typeof s.maxItems === 'number' && value.length > s.maxItems) errors.push(`${at} must have at most ${s.maxItems} items`);
+    if (s.items && typeof s.items === 'object') {
+      value.forEach((item, index) => errors.push(...checkJsonSchema(item, s.items, `${at}[${index}]`)));
+    }
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    const properties = (s.properties || {}) as Record<string, unknown>;
+    (Array.isArray(s.required) ? (s.required as string[]) : []).forEach((name) => {
+      if (!(name in object)) errors.push(`${at} must have property "${name}"`);
+    });
+    if (typeof s.minProperties === 'number' && Object.keys(object).length < s.minProperties) {
+      errors.push(`${at} must have at least ${s.minProperties} properties`);
+    }
+    if (typeof s.maxProperties === 'number' && Object.keys(object).length > s.maxProperties) {
+      errors.push(`${at} must have at most ${s.maxProperties} properties`);
+    }
+    Object.entries(object).forEach(([name, propertyValue]) => {
+      const childPath = path ? `${path}.${name}` : name;
+      if (name in properties) {
+        errors.push(...checkJsonSchema(propertyValue, properties[name], childPath));
+      } else if (s.additionalProperties === false) {
+        errors.push(`${at} must not have property "${name}"`);
+      } else if (s.additionalProperties && typeof s.additionalProperties === 'object') {
+        errors.push(...checkJsonSchema(propertyValue, s.additionalProperties, childPath));
+      }
+    });
+  }
+
+  if (Array.isArray(s.allOf)) {
+    s.allOf.forEach((member) => errors.push(...checkJsonSchema(value, member, path)));
+  }
+  if (Array.isArray(s.anyOf) && !s.anyOf.some((member) => checkJsonSchema(value, member, path).length === 0)) {
+    errors.push(`${at} must match at least one allowed schema`);
+  }
+  if (Array.isArray(s.oneOf) && s.oneOf.filter((member) => checkJsonSchema(value, member, path).length === 0).length !== 1) {
+    errors.push(`${at} must match exactly one allowed schema`);
+  }
+  if (s.not && checkJsonSchema(value, s.not, path).length === 0) {
+    errors.push(`${at} must not match the disallowed schema`);
+  }
+  return errors;
+};
+
+export const SPECTRAL_FUNCTIONS: Record<string, SpectralFunction> = {
+  truthy: (value) => (value ? [] : ['must be truthy']),
+  falsy: (value) => (value ? ['must be falsy'] : []),
+  defined: (value) => (value === undefined ? ['must be defined'] : []),
+  undefined: (value) => (value === undefined ? [] : ['must be undefined']),
+  pattern: (value, options) => {
+    if (typeof value !== 'string') return [];
+    const errors: string[] = [];
+    if (options.match !== undefined && !toRegExp(options.match).test(value)) {
+      errors.push(`${describe(value)} must match the pattern "${options.match}"`);
+    }
+    if (options.notMatch !== undefined && toRegExp(options.notMatch).test(value)) {
+      errors.push(`${describe(value)} must not match the pattern "${options.notMatch}"`);
+    }
+    return errors;
+  },
+  casing: (value, options) => {
+    if (typeof value !== 'string' || value === '') return [];
+    const casing = CASING_PATTERNS[String(options.type)];
+    if (!casing) return [`unknown casing type "${options.type}"`];
+    const pattern = options.disallowDigits ? casing.pattern : casing.digitsPattern;
+    return new RegExp(pattern).test(value) ? [] : [`${describe(value)} must be ${options.type} case`];
+  },
+  enumeration: (value, options) => {
+    if (value === undefined) return [];
+    const values = Array.isArray(options.values) ? options.values : [];
+    return values.includes(value) ? [] : [`${describe(value)} must be equal to one of the allowed values: ${values.map(describe).join(', ')}`];
+  },
+  length: (value, options) => {
+    const size = sizeOf(value);
+    if (size === undefined) return [];
+    if (typeof options.min === 'number' && size < options.min) return [`must be longer than ${options.min - 1}`];
+    if (typeof options.max === 'number' && size > options.max) return [`must be shorter than ${options.max + 1}`];
+    return [];
+  },
+  schema: (value, options) => (value === undefined ? [] : checkJsonSchema(value, options.schema)),
+};
@@ -0,0 +1,186 @@
+import yaml from 'yaml';
+import type { LintFinding, LintRule, LintSeverity } from '../types/lint';
+import type { OpenApiObject } from '../types/openapi';
+import { queryJsonPath, type JsonPathMatch } from './jsonPath';
+import { SPECTRAL_FUNCTIONS } from './spectralFunctions';
+
+interface SpectralThen {
+  field?: string;
+  function: string;
+  functionOptions?: Record<string, unknown>;
+}
+
+interface SpectralRuleDefinition {
+  description?: string;
+  message?: string;
+  severity?: string | number;
+  recommended?: boolean;
+  given: string | string[];
+  then: SpectralThen | SpectralThen[];
+}
+
+export interface SpectralImportResult {
+  rules: LintRule[];
+  errors: string[];
+  warnings: string[];
+}
+
+const SEVERITIES: Record<string, LintSeverity> = {
+  error: 'error',
+  warn: 'warning',
+  // The panel only distinguishes errors and warnings
+  info: 'warning',
+  hint: 'warning',
+  off: 'off',
+  '0': 'error',
+  '1': 'warning',
+  '2': 'warning',
+  '3': 'warning',
+  '-1': 'off',
+};
+
+const toArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+const describeValue = (value: unknown): string => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// Replace Spectral's {{placeholders}} in a rule message
+const formatMessage = (
+  template: string,
+  values: { error: string; description: string; path: string[]; value: unknown }
+): string =>
+  template
+    .replace(/\{\{error\}\}/g, values.error)
+    .replace(/\{\{description\}\}/g, values.description)
+    .replace(/\{\{path\}\}/g, values.path.join('.'))
+    .replace(/\{\{property\}\}/g, values.path[values.path.length - 1] || '')
+    .replace(/\{\{value\}\}/g, describeValue(values.value));
+
+/**
+ * The values a `then` applies to: the matched value itself, its key (`@key`),
+ * a dotted field or a JSONPath relative to the match
+ */
+const getTargets = (match: JsonPathMatch, field: string | undefined): JsonPathMatch[] => {
+  if (!field) return [match];
+  if (field === '@key') {
+    return [{ path: match.path, value: match.path[match.path.length - 1] }];
+  }
+  if (field.startsWith('$')) {
+    return queryJsonPath(match.value, field).map((target) => ({ ...target, path: [...match.path, ...target.path] }));
+  }
+  const parts = field.split('.');
+  const value = parts.reduce<unknown>(
+    (current, part) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined),
+    match.value
+  );
+  return [{ path: [...match.path, ...parts], value }];
+};
+
+// Expand `#Alias` references from the ruleset's `aliases` section
+const expandGiven = (given: string, aliases: Record<string, string[]>): string[] => {
+  const alias = given.match(/^#([\w-]+)(.*)$/);
+  if (!alias) return [given];
+  const targets = aliases[alias[1]];
+  if (!targets) throw new Error(`Unknown alias "#${alias[1]}"`);
+  return targets.map((target) => `${target}${alias[2]}`);
+};
+
+const createRule = (
+  id: string,
+  definition: SpectralRuleDefinition,
+  aliases: Record<string, string[]>
+): LintRule => {
+  const givens = toArray(definition.given).flatMap((given) => expandGiven(String(given), aliases));
+  // Fail on import rather than on every validation run
+  givens.forEach((given) => queryJsonPath({}, given));
+  const thens = toArray(definition.then);
+  thens.forEach((then) => {
+    if (!then || !SPECTRAL_FUNCTIONS[then.function]) {
+      throw new Error(`Unsupported function "${then?.function}"`);
+    }
+  });
+
+  const description = definition.description || '';
+  const severity =
+    definition.recommended === false ? 'off' : SEVERITIES[String(definition.severity ?? 'warn')] ?? 'warning';
+
+  return {
+    id,
+    description: description || id,
+    severity,
+    check: (spec: OpenApiObject) => {
+      const findings: LintFinding[] = [];
+      givens.forEach((given) => {
+        queryJsonPath(spec, given).forEach((match) => {
+          thens.forEach((then) => {
+            getTargets(match, then.field).forEach((target) => {
+              SPECTRAL_FUNCTIONS[then.function](target.value, then.functionOptions || {}).forEach((error) => {
+                findings.push({
+                  path: target.path,
+                  message: formatMessage(definition.message || description || '{{error}}', {
+                    error,
+                    description,
+                    path: target.path,
+                    value: target.value,
+                  }),
+                });
+              });
+            });
+          });
+        });
+      });
+      return findings;
+    },
+  };
+};
+
+/**
+ * Parse a Spectral ruleset (`.spectral.yaml` or JSON) into lint rules.
+ * Rules using unsupported selectors or functions are skipped and reported in `errors`.
+ */
+export const parseSpectralRuleset = (content: string): SpectralImportResult => {
+  const result: SpectralImportResult = { rules: [], errors: [], warnings: [] };
+  let ruleset: unknown;
+  try {
+    ruleset = yaml.parse(content);
+  } catch (e) {
+    result.errors.push(`Invalid ruleset: ${(e as Error).message}`);
+    return result;
+  }
+  if (!ruleset || typeof ruleset !== 'object' || !('rules' in ruleset)) {
+    result.errors.push('Invalid ruleset: missing "rules"');
+    return result;
+  }
+
+  const { rules, aliases, extends: extendsRulesets } = ruleset as {
+    rules: Record<string, unknown>;
+    aliases?: Record<string, unknown>;
+    extends?: unknown;
+  };
+  if (extendsRulesets) {
+    result.warnings.push('"extends" is not supported; only rules defined in this file are used');
+  }
+  const aliasTargets = Object.fromEntries(
+    Object.entries(aliases || {})
+      .filter(([, value]) => typeof value === 'string' || Array.isArray(value))
+      .map(([name, value]) => [name, toArray(value as string | string[]).map(String)])
+  );
+
+  Object.entries(rules || {}).forEach(([id, definition]) => {
+    if (!definition || typeof definition !== 'object') {
+      // e.g. `some-rule: off`, which configures a rule from an extended ruleset
+      result.warnings.push(`Rule "${id}" only changes an extended rule and was ignored`);
+      return;
+    }
+    const rule = definition as SpectralRuleDefinition;
+    if (!rule.given || !rule.then) {
+      result.errors.push(`Rule "${id}" needs both "given" and "then"`);
+      return;
+    }
+    try {
+      result.rules.push(createRule(id, rule, aliasTargets));
+    } catch (e) {
+      result.errors.push(`Rule "${id}" skipped: ${(e as Error).message}`);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { SwaggerDocument } from '../types/swagger';
+import { STORAGE_VERSION, migrateStoredDocument } from './storageMigrations';
+
+interface StoredFixture {
+  version?: string;
+  lastSaved: string;
+  document: SwaggerDocument;
+}
+
+// One document per stored version. Releases kept saving version 1.0 until migrations were
+// added at 1.3, so 1.0 and 1.3 are shaped as the app saved them; 1.1 and 1.2 are synthetic
+// documents in the shape each intermediate step expects.
+const fixtures = import.meta.glob<StoredFixture>('./__fixtures__/storage/*.json', { eager: true, import: 'default' });
+
+const loadFixture = (version: string): StoredFixture => {
+  const fixture = fixtures[`./__fixtures__/storage/v${version}.json`];
+  if (!fixture) throw new Error(`Missing storage fixture for version ${version}`);
+  // Migrations must not depend on the fixture object being shared between tests
+  return structuredClone(fixture);
+};
+
+const migrateFixture = (version: string): SwaggerDocument => {
+  const { document, version: storedVersion } = loadFixture(version);
+  return migrateStoredDocument(document, storedVersion);
+};
+
+const EMPTY_LIBRARIES = { parameters: [], responses: [], requestBodies: [], headers: [] };
+
+describe('migrateStoredDocument', () => {
+  it('has a fixture for every version up to the current one', () => {
+    expect(Object.keys(fixtures).sort()).toEqual(
+      ['1.0', '1.1', '1.2', '1.3'].map((version) => `./__fixtures__/storage/v${version}.json`)
+    );
+    expect(STORAGE_VERSION).toBe('1.3');
+  });
+
+  it('upgrades a 1.0 document without a version', () => {
+    const doc = migrateFixture('1.0');
+
+    expect(doc.paths).toEqual([
+      {
+        path: '/pets',
+        operations: [
+          expect.objectContaining({
+            method: 'get',
+            operationId: 'listPets',
+            tags: ['pets'],
+            responses: [{ statusCode: '200', description: 'OK', schemaRef: 'Pet' }],
+            security: [{ oauth: ['pets:read'] }],
+          }),
+        ],
+      },
+      {
+        path: '/pets/{id}',
+        operations: [expect.objectContaining({ method: 'get', operationId: 'getPet' })],
+      },
+    ]);
+    expect(doc.paths[0].operations[0]).not.toHaveProperty('securityScopes');
+    // An empty list was saved for operations without their own security; they keep using the global one
+    expect(doc.paths[1].operations[0].security).toBeUndefined();
+    expect(doc.security).toEqual([{ bearerAuth: [] }, { oauth: [] }]);
+    expect(doc.components).toEqual({ ...EMPTY_LIBRARIES, examples: [] });
+    expect(doc.schemas[0].name).toBe('Pet');
+  });
+
+  it('upgrades a 1.1 document with scheme names as operation security', () => {
+    const doc = migrateFixture('1.1');
+    const operation = doc.paths[0].operations[0];
+
+    expect(operation.security).toEqual([{ apiKey: [] }]);
+    expect(operation.parameters).toHaveLength(1);
+    expect(doc.security).toEqual([{ apiKey: [] }]);
+    expect(doc.components).toEqual({ ...EMPTY_LIBRARIES, examples: [] });
+  });
+
+  it('upgrades a 1.2 document and keeps its security requirements', () => {
+    const doc = migrateFixture('1.2');
+
+    expect(doc.security).toEqual([{ bearerAuth: [] }]);
+    // An empty list makes the operation public and must not be treated as legacy
+    expect(doc.paths[0].operations[0].security).toEqual([]);
+    expect(doc.components).toEqual({ ...EMPTY_LIBRARIES, examples: [] });
+  });
+
+  it('leaves a current document unchanged', () => {
+    const { document } = loadFixture('1.3');
+
+    expect(migrateFixture('1.3')).toEqual(document);
+  });
+
+  it('throws for a version newer than this build', () => {
+    const { document } = loadFixture('1.3');
+
+    expect(() => migrateStoredDocument(document, '2.0')).toThrow('Unsupported storage version 2.0');
+  });
+});
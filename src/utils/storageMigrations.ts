@@ -0,0 +1,124 @@
+import type {
+  SwaggerDocument,
+  SwaggerPath,
+  PathOperation,
+  PathParameter,
+  PathResponse,
+  RequestBody,
+} from '../types/swagger';
+import { createEmptyComponents } from './componentRefs';
+
+/**
+ * Upgrades documents saved by older versions of the app, one version at a time.
+ *
+ * Whenever the stored shape of `SwaggerDocument` changes, add a step here that
+ * upgrades from the previous `to` version; `STORAGE_VERSION` follows the last step.
+ * Steps must tolerate documents that already have the new shape, since versions
+ * were not always bumped together with the model.
+ */
+
+interface StorageMigration {
+  from: string;
+  to: string;
+  migrate: (doc: SwaggerDocument) => SwaggerDocument;
+}
+
+// Documents saved before versions were recorded are treated as the first version
+const INITIAL_STORAGE_VERSION = '1.0';
+
+// Paths used to hold a single operation, with its fields next to `path`
+type LegacyPath = Partial<SwaggerPath> &
+  Partial<Omit<PathOperation, 'security'>> & { security?: unknown[]; securityScopes?: Record<string, string[]> };
+
+const migrateSingleOperationPaths = (doc: SwaggerDocument): SwaggerDocument => ({
+  ...doc,
+  paths: doc.paths.map((path) => {
+    const legacy = path as LegacyPath;
+    if (Array.isArray(legacy.operations) || typeof legacy.method !== 'string') {
+      return path;
+    }
+    // Legacy security is kept as is, with its scopes, for the next step to convert
+    const operation: PathOperation & { securityScopes?: Record<string, string[]> } = {
+      method: legacy.method,
+      tags: legacy.tags || [],
+      summary: legacy.summary || '',
+      operationId: legacy.operationId || '',
+      description: legacy.description || '',
+      parameters: (legacy.parameters as PathParameter[]) || [],
+      responses: (legacy.responses as PathResponse[]) || [],
+      requestBody: legacy.requestBody as RequestBody | undefined,
+      security: legacy.security as PathOperation['security'],
+      deprecated: legacy.deprecated,
+      ...(legacy.securityScopes ? { securityScopes: legacy.securityScopes } : {}),
+    };
+    return { path: legacy.path || '', operations: [operation] };
+  }),
+});
+
+// Operation security used to be a flat list of scheme names,
+// with OAuth scopes kept in a separate securityScopes map. An empty list was saved for
+// every operation without its own security and meant "use the global requirement".
+type LegacyOperation = Omit<PathOperation, 'security'> & {
+  security?: unknown[];
+  securityScopes?: Record<string, string[]>;
+};
+
+const migrateOperationSecurity = (operation: PathOperation): PathOperation => {
+  const legacy = operation as LegacyOperation;
+  const isLegacy =
+    legacy.securityScopes ||
+    legacy.security?.length === 0 ||
+    legacy.security?.some((entry) => typeof entry === 'string');
+  if (!isLegacy) return operation;
+
+  const { securityScopes, ...rest } = legacy;
+  const names = (legacy.security || []).filter((entry): entry is string => typeof entry === 'string');
+  return {
+    ...rest,
+    security: names.length > 0
+      ? [Object.fromEntries(names.map((name) => [name, securityScopes?.[name] || []]))]
+      : undefined,
+  };
+};
+
+const migrateSecurityRequirements = (doc: SwaggerDocument): SwaggerDocument => ({
+  ...doc,
+  // Global security used to be implied by listing every scheme as an alternative
+  security: doc.security ?? (doc.securitySchemes || []).map((scheme) => ({ [scheme.name]: [] })),
+  paths: doc.paths.map((path) => ({
+    ...path,
+    operations: path.operations.map(migrateOperationSecurity),
+  })),
+});
+
+const addComponentLibraries = (doc: SwaggerDocument): SwaggerDocument => ({
+  ...doc,
+  components: { ...createEmptyComponents(), ...doc.components },
+});
+
+const MIGRATIONS: StorageMigration[] = [
+  { from: '1.0', to: '1.1', migrate: migrateSingleOperationPaths },
+  { from: '1.1', to: '1.2', migrate: migrateSecurityRequirements },
+  { from: '1.2', to: '1.3', migrate: addComponentLibraries },
+];
+
+export const STORAGE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+/**
+ * Upgrade a stored document to the current `STORAGE_VERSION`.
+ * Throws for versions this build doesn't know (e.g. saved by a newer release),
+ * so callers never overwrite data they can't read.
+ */
+export const migrateStoredDocument = (document: SwaggerDocument, version?: string): SwaggerDocument => {
+  let current = version || INITIAL_STORAGE_VERSION;
+  let doc = document;
+  while (current !== STORAGE_VERSION) {
+    const step = MIGRATIONS.find((migration) => migration.from === current);
+    if (!step) {
+      throw new Error(`Unsupported storage version ${current} (expected ${STORAGE_VERSION} or older)`);
+    }
+    doc = step.migrate(doc);
+    current = step.to;
+  }
+  return doc;
+};
@@ -0,0 +1,19 @@
+import { expect } from 'vitest';
+import type { SwaggerDocument } from '../types/swagger';
+import { importYamlDocument } from './yamlImporter';
+
+/**
+ * `openapi` and `info` lines of a test spec; tests append their `paths` and `components`
+ */
+export const SPEC_HEADER = `openapi: 3.0.3
+info: { title: Pets, version: 1.0.0 }
+`;
+
+/**
+ * Import a spec written in a test, failing the test if the importer reports errors
+ */
+export const importSpec = (source: string): SwaggerDocument => {
+  const result = importYamlDocument(source);
+  expect(result.errors).toEqual([]);
+  return result.document!;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { withSchemaDependencies } from './schemaDependencies';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { generateTypeScriptTypes } from './typeScriptGenerator';
+
+const SPEC = `${SPEC_HEADER}paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id]
+      properties:
+        id: { type: string, format: uuid }
+        owner: { $ref: '#/components/schemas/Owner' }
+    Owner: { type: object, properties: { nickname: { type: string, nullable: true }, pet: { $ref: '#/components/schemas/Pet' } } }
+    Store: { type: object, properties: { name: { type: string } } }
+`;
+
+describe('generateTypeScriptTypes', () => {
+  it('copies a schema with the schemas it references and nothing else', () => {
+    const schemas = importSpec(SPEC).schemas;
+
+    expect(generateTypeScriptTypes(withSchemaDependencies(schemas, 'Pet'))).toBe(`export interface Pet {
+  /** @format uuid */
+  id: string;
+  owner?: Owner;
+}
+
+export interface Owner {
+  nickname?: string | null;
+  pet?: Pet;
+}`);
+  });
+});
@@ -0,0 +1,178 @@
+import type { SchemaProperty, SwaggerSchema } from '../types/swagger';
+import { parseEnumList, toTypedValue } from './yamlGenerator';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Words that can't name a generated function or variable
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with', 'yield', 'let', 'static', 'await',
+]);
+
+// Global types that generated code (or code importing it) relies on; a schema type must not shadow them
+const RESERVED_TYPE_NAMES = new Set([
+  'Array', 'Blob', 'Boolean', 'Date', 'Error', 'File', 'FormData', 'Headers', 'Map', 'Number', 'Object',
+  'Omit', 'Partial', 'Pick', 'Promise', 'Readonly', 'Record', 'Request', 'RequestInit', 'Required',
+  'Response', 'Set', 'String', 'URL', 'URLSearchParams',
+]);
+
+const SCALAR_TYPES: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+};
+
+/**
+ * PascalCase type name for a schema or operation, e.g. "payment-plan" -> "PaymentPlan"
+ */
+export const toTypeName = (name: string): string => {
+  const typeName = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  if (!typeName) return 'Unnamed';
+  return /^\d/.test(typeName) ? `_${typeName}` : typeName;
+};
+
+/**
+ * Type name for a component schema; names of global types get a suffix, e.g. "Error" -> "ErrorSchema"
+ */
+export const toSchemaTypeName = (name: string): string => {
+  const typeName = toTypeName(name);
+  return RESERVED_TYPE_NAMES.has(typeName) ? `${typeName}Schema` : typeName;
+};
+
+/**
+ * camelCase identifier for a function or variable, e.g. "get_payment-plans" -> "getPaymentPlans"
+ */
+export const toIdentifier = (name: string): string => {
+  const typeName = toTypeName(name);
+  const identifier = typeName.charAt(0).toLowerCase() + typeName.slice(1);
+  return RESERVED_WORDS.has(identifier) ? `${identifier}_` : identifier;
+};
+
+/**
+ * Single-quoted string literal
+ */
+export const toStringLiteral = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+/**
+ * Object key as written in a type literal, quoted when it isn't a plain identifier
+ */
+export const toPropertyKey = (name: string): string => (IDENTIFIER.test(name) ? name : toStringLiteral(name));
+
+/**
+ * A JSDoc block from non-empty lines, indented to sit above a member
+ */
+export const toDocComment = (lines: Array<string | undefined>, indent = ''): string => {
+  const content = lines
+    .filter((line): line is string => Boolean(line))
+    .flatMap((line) => line.replace(/\*\//g, '*\\/').split('\n'));
+  if (content.length === 0) return '';
+  if (content.length === 1) return `${indent}/** ${content[0]} */\n`;
+  return `${indent}/**\n${content.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+};
+
+/**
+ * Type of a string/number/boolean value, narrowed to a union of literals when enum values are set
+ */
+export const toScalarType = (type: string | undefined, enumValues?: string): string => {
+  const values = parseEnumList(enumValues);
+  if (values.length > 0) {
+    return values
+      .map((value) => {
+        const typed = toTypedValue(value, type);
+        return typeof typed === 'string' ? toStringLiteral(typed) : String(typed);
+      })
+      .join(' | ');
+  }
+  if (type === 'array') return 'string[]';
+  return SCALAR_TYPES[type || ''] || 'unknown';
+};
+
+const toPropertyType = (prop: SchemaProperty, indent: string): string => {
+  let type: string;
+  if (prop.type === 'object') {
+    type = prop.$ref ? toSchemaTypeName(prop.$ref) : toObjectType(prop.properties, indent);
+  } else if (prop.type === 'array') {
+    if (prop.items?.$ref) {
+      type = `${toSchemaTypeName(prop.items.$ref)}[]`;
+    } else if (prop.items?.type === 'object') {
+      type = `Array<${toObjectType(prop.items.properties, indent)}>`;
+    } else {
+      type = `${toScalarType(prop.items?.type || 'string')}[]`;
+    }
+  } else {
+    type = toScalarType(prop.type, prop.enumValues);
+  }
+  return prop.nullable ? `${type} | null` : type;
+};
+
+// Validation constraints as JSDoc tags, since the type itself can't express them
+const toConstraintTags = (prop: SchemaProperty): string[] => {
+  const tags: Array<[string, string | number | undefined]> = [
+    ['format', prop.format],
+    ['minLength', prop.minLength],
+    ['maxLength', prop.maxLength],
+    ['minimum', prop.minimum],
+    ['maximum', prop.maximum],
+    ['pattern', prop.pattern],
+  ];
+  return tags
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([tag, value]) => `@${tag} ${value}`);
+};
+
+/**
+ * Type literal for a list of properties; nested objects are written inline
+ */
+const toObjectType = (properties: SchemaProperty[] | undefined, indent: string): string => {
+  const named = (properties || []).filter((prop) => prop.name);
+  if (named.length === 0) return 'Record<string, unknown>';
+  const memberIndent = `${indent}  `;
+  const members = named.map((prop) => {
+    const comment = toDocComment([prop.description, ...toConstraintTags(prop), prop.deprecated ? '@deprecated' : undefined], memberIndent);
+    const modifier = prop.readOnly ? 'readonly ' : '';
+    const optional = prop.required ? '' : '?';
+    return `${comment}${memberIndent}${modifier}${toPropertyKey(prop.name)}${optional}: ${toPropertyType(prop, memberIndent)};`;
+  });
+  return `{\n${members.join('\n')}\n${indent}}`;
+};
+
+/**
+ * TypeScript declaration for a component schema. allOf becomes an intersection with the
+ * schema's own properties, oneOf/anyOf a union of the referenced schemas.
+ */
+export const schemaToTypeScript = (schema: SwaggerSchema): string => {
+  const name = toSchemaTypeName(schema.name);
+  const refs = (schema.compositionRefs || []).filter(Boolean).map(toSchemaTypeName);
+
+  if (schema.composition === 'oneOf' || schema.composition === 'anyOf') {
+    return `export type ${name} = ${refs.join(' | ') || 'unknown'};`;
+  }
+  if (schema.composition === 'allOf') {
+    const members = [...refs, ...(schema.properties.length > 0 ? [toObjectType(schema.properties, '')] : [])];
+    return `export type ${name} = ${members.join(' & ') || 'Record<string, unknown>'};`;
+  }
+  if (schema.type === 'array') {
+    return `export type ${name} = unknown[];`;
+  }
+  if (schema.properties.every((prop) => !prop.name)) {
+    return `export type ${name} = Record<string, unknown>;`;
+  }
+  return `export interface ${name} ${toObjectType(schema.properties, '')}`;
+};
+
+/**
+ * Declarations for all named component schemas, in document order
+ */
+export const generateTypeScriptTypes = (schemas: SwaggerSchema[]): string =>
+  schemas
+    .filter((schema) => schema.name)
+    .map(schemaToTypeScript)
+    .join('\n\n');
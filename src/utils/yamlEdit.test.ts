@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { SwaggerDocument } from '../types/swagger';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { mergeImportedDocument } from './yamlEdit';
+import { buildYamlDocument } from './yamlGenerator';
+
+const SPEC = `${SPEC_HEADER}paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: '#/components/schemas/Pet' } }
+  /pets/{id}:
+    get:
+      operationId: getPet
+      parameters:
+        - { name: id, in: path, required: true, schema: { type: string } }
+      responses:
+        '200': { description: OK }
+components:
+  schemas:
+    Pet: { type: object, properties: { id: { type: string } } }
+  parameters:
+    Limit: { name: limit, in: query, schema: { type: integer } }
+`;
+
+// A document as the form holds it, with editor-only state the YAML doesn't carry
+const createCurrent = (): SwaggerDocument => {
+  const doc = importSpec(SPEC);
+  doc.schemas[0].isTemplate = true;
+  doc.lintRules = { 'path-kebab-case': 'off' };
+  return doc;
+};
+
+// Re-import the current document's YAML output after editing the text
+const editYaml = (doc: SwaggerDocument, edit: (yaml: string) => string = (yaml) => yaml): SwaggerDocument =>
+  importSpec(edit(buildYamlDocument(doc)));
+
+describe('mergeImportedDocument', () => {
+  it('returns the current document when the edit changes nothing', () => {
+    const current = createCurrent();
+
+    expect(mergeImportedDocument(current, editYaml(current))).toBe(current);
+  });
+
+  it('keeps the objects of parts the edit did not change', () => {
+    const current = createCurrent();
+    const merged = mergeImportedDocument(current, editYaml(current, (yaml) => yaml.replace('operationId: getPet', 'operationId: findPet')));
+
+    expect(merged.paths[0]).toBe(current.paths[0]);
+    expect(merged.paths[1]).not.toBe(current.paths[1]);
+    expect(merged.paths[1].operations[0].operationId).toBe('findPet');
+    expect(merged.schemas[0]).toBe(current.schemas[0]);
+    expect(merged.components.parameters[0]).toBe(current.components.parameters[0]);
+    expect(merged.lintRules).toBe(current.lintRules);
+  });
+});
@@ -0,0 +1,76 @@
+import type { ComponentKind, SwaggerComponents, SwaggerDocument } from '../types/swagger';
+import type { OpenApiObject } from '../types/openapi';
+import { getComponentName } from './componentRefs';
+import { toOpenApiObject } from './yamlGenerator';
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aEntries = Object.entries(a).filter(([, value]) => value !== undefined);
+  const bEntries = Object.entries(b).filter(([, value]) => value !== undefined);
+  return (
+    aEntries.length === bEntries.length &&
+    aEntries.every(([key, value]) => isDeepEqual(value, (b as Record<string, unknown>)[key]))
+  );
+};
+
+/**
+ * Items of the imported list, with each item whose output is unchanged swapped for the
+ * current item of the same name
+ */
+const keepUnchanged = <T>(
+  imported: T[],
+  current: T[],
+  nameOf: (item: T) => string,
+  outputOf: (spec: OpenApiObject, name: string) => unknown,
+  specs: { before: OpenApiObject; after: OpenApiObject }
+): T[] =>
+  imported.map((item) => {
+    const name = nameOf(item);
+    const previous = current.find((candidate) => nameOf(candidate) === name);
+    return previous && isDeepEqual(outputOf(specs.before, name), outputOf(specs.after, name)) ? previous : item;
+  });
+
+/**
+ * Fold a document imported from edited YAML or JSON into the current one.
+ * Paths, schemas and components whose output didn't change keep their current objects,
+ * so edits elsewhere in the text don't put them through the import round-trip, and an
+ * edit that changes nothing returns `current` itself. Settings the spec doesn't hold
+ * (lint rules, Spectral ruleset) are kept.
+ */
+export const mergeImportedDocument = (current: SwaggerDocument, imported: SwaggerDocument): SwaggerDocument => {
+  const specs = { before: toOpenApiObject(current), after: toOpenApiObject(imported) };
+  if (isDeepEqual(specs.before, specs.after)) return current;
+
+  const keepComponents = <K extends ComponentKind>(kind: K): SwaggerComponents[K] =>
+    keepUnchanged(
+      imported.components[kind] as SwaggerComponents[K][number][],
+      current.components[kind] as SwaggerComponents[K][number][],
+      (item) => getComponentName(kind, item),
+      (spec, name) => spec.components?.[kind]?.[name],
+      specs
+    ) as SwaggerComponents[K];
+
+  return {
+    ...imported,
+    paths: keepUnchanged(imported.paths, current.paths, (path) => path.path, (spec, name) => spec.paths[name], specs),
+    schemas: keepUnchanged(
+      imported.schemas,
+      current.schemas,
+      (schema) => schema.name,
+      (spec, name) => spec.components?.schemas?.[name],
+      specs
+    ),
+    components: {
+      parameters: keepComponents('parameters'),
+      responses: keepComponents('responses'),
+      requestBodies: keepComponents('requestBodies'),
+      headers: keepComponents('headers'),
+      examples: keepComponents('examples'),
+    },
+    lintRules: current.lintRules,
+    spectralRuleset: current.spectralRuleset,
+  };
+};
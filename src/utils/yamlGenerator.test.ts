@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import yaml from 'yaml';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { buildJsonDocument, buildYamlDocument, toOpenApiObject } from './yamlGenerator';
+
+const SPEC = `${SPEC_HEADER}paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        '200': { description: OK }
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        status: { type: string }
+        rank: { type: integer }
+`;
+
+// The spec with text that breaks hand-written YAML in every field the form edits freely
+const createDocument = () => {
+  const doc = importSpec(SPEC);
+  doc.info.title = 'Pets: the #1 API';
+  doc.paths[0].operations[0].summary = '- list *all* pets';
+  const [status, rank] = doc.schemas[0].properties;
+  status.enumValues = '*new, - old, key: value';
+  rank.enumValues = '1, 2';
+  return doc;
+};
+
+describe('buildYamlDocument', () => {
+  it('serializes the OpenAPI object so special characters survive', () => {
+    const doc = createDocument();
+    const parsed = yaml.parse(buildYamlDocument(doc));
+
+    expect(parsed).toEqual(toOpenApiObject(doc));
+    expect(parsed.info.title).toBe('Pets: the #1 API');
+    expect(parsed.paths['/pets'].get.summary).toBe('- list *all* pets');
+    expect(parsed.components.schemas.Pet.properties.status.enum).toEqual(['*new', '- old', 'key: value']);
+    expect(parsed.components.schemas.Pet.properties.rank.enum).toEqual([1, 2]);
+  });
+
+  it('holds the same object as the JSON output', () => {
+    const doc = createDocument();
+
+    expect(yaml.parse(buildYamlDocument(doc))).toEqual(JSON.parse(buildJsonDocument(doc)));
+  });
+});
@@ -1,335 +1,586 @@
-import type { SwaggerDocument } from '../types/swagger';
+import yaml from 'yaml';
+import type {
+  SwaggerDocument,
+  SwaggerSchema,
+  SchemaProperty,
+  SwaggerSecurityScheme,
+  PathOperation,
+  PathParameter,
+  PathResponse,
+  ResponseHeader,
+  RequestBody,
+  SecurityRequirement,
+  SwaggerServer,
+  SwaggerServerVariable,
+  SchemaDiscriminator,
+  Passthrough,
+  SwaggerComponents,
+  ComponentExample,
+} from '../types/swagger';
+import type {
+  OpenApiObject,
+  OpenApiInfo,
+  OpenApiPathItem,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiRequestBody,
+  OpenApiResponse,
+  OpenApiHeader,
+  OpenApiSchemaObject,
+  OpenApiSecuritySchemeObject,
+  OpenApiOAuthFlow,
+  OpenApiSecurityRequirement,
+  OpenApiServer,
+  OpenApiServerVariable,
+  OpenApiDiscriminator,
+  OpenApiReference,
+  OpenApiMediaType,
+  OpenApiComponents,
+  OpenApiExample,
+} from '../types/openapi';
+import { DEFAULT_REQUEST_CONTENT_TYPE, DEFAULT_RESPONSE_CONTENT_TYPE } from '../constants/contentTypes';
+import { OAUTH_FLOWS } from '../constants/oauthFlows';
+import { mergePassthrough } from './passthrough';
 
 /**
- * Migrate old path format to new format if needed
- * Old format: SwaggerPath with method property
- * New format: SwaggerPath with operations array
+ * Splits a raw comma-separated enum string into trimmed, non-empty values
  */
-function ensureOperationsFormat(doc: SwaggerDocument): SwaggerDocument {
-  return {
-    ...doc,
-    paths: doc.paths.map((path: any) => {
-      // If operations array already exists, return as-is
-      if (Array.isArray(path.operations)) {
-        return path;
-      }
-      // Migrate old format to new format
-      if (path.method) {
-        const operation = {
-          method: path.method,
-          tags: path.tags || [],
-          summary: path.summary || '',
-          operationId: path.operationId || '',
-          description: path.description || '',
-          parameters: path.parameters || [],
-          responses: path.responses || [],
-          requestBody: path.requestBody,
-          security: path.security,
-          deprecated: path.deprecated,
-        };
-        return {
-          path: path.path,
-          operations: [operation],
-        };
-      }
-      return path;
-    }),
-  };
-}
+export const parseEnumList = (raw: string | undefined): string[] =>
+  raw ? raw.split(',').map((v) => v.trim()).filter((v) => v !== '') : [];
 
 /**
- * Formats a description for YAML output.
- * Uses literal block scalar (|) for multi-line content to preserve formatting.
+ * Converts a raw form value into a typed scalar for the given schema type.
+ * Form inputs store everything as strings, so `"10"` on an integer property
+ * becomes `10` and `"true"` on a boolean becomes `true`. Values that do not
+ * fit the type are kept as strings.
  */
-const formatDescription = (description: string, indent: number): string => {
-  if (!description) {
-    return `''`;
+export const toTypedValue = (raw: string, type: string | undefined): unknown => {
+  if ((type === 'number' || type === 'integer') && raw.trim() !== '' && !isNaN(Number(raw))) {
+    return Number(raw);
   }
-
-  // Check if description contains newlines (multi-line content)
-  if (description.includes('\n')) {
-    const indentStr = ' '.repeat(indent);
-    const lines = description.split('\n');
-    // Use literal block scalar (|) to preserve newlines and formatting
-    return `|\n${lines.map(line => `${indentStr}${line}`).join('\n')}`;
+  if (type === 'boolean' && (raw === 'true' || raw === 'false')) {
+    return raw === 'true';
   }
+  return raw;
+};
+
+const schemaRef = (name: string): string => `#/components/schemas/${name}`;
 
-  // Single line - escape single quotes and wrap in quotes
-  return `'${description.replace(/'/g, "''")}'`;
+/**
+ * Builds a $ref to a reusable component. Refs into other documents are stored whole.
+ */
+const componentRef = (kind: string, name: string): OpenApiReference => ({
+  $ref: name.includes('/') ? name : `#/components/${kind}/${name}`,
+});
+
+/**
+ * Builds the edited media type of a response or request body. Without a schema ref, an
+ * object placeholder is used unless the imported spec provides its own inline schema.
+ */
+const toMediaTypeObject = (
+  body: Pick<PathResponse, 'schemaRef' | 'exampleRefs' | 'passthrough'>,
+  contentType: string
+): OpenApiMediaType => {
+  const content = body.passthrough?.content as Record<string, { schema?: unknown }> | undefined;
+  const examples = (body.exampleRefs || []).filter(Boolean);
+  return {
+    ...(body.schemaRef
+      ? { schema: { $ref: schemaRef(body.schemaRef) } }
+      : content?.[contentType]?.schema
+        ? {}
+        : { schema: { type: 'object' } }),
+    ...(examples.length > 0
+      ? { examples: Object.fromEntries(examples.map((name) => [name, componentRef('examples', name)])) }
+      : {}),
+  };
 };
 
-export const buildYamlDocument = (doc: SwaggerDocument): string => {
-  // Ensure paths are in new format (with operations array)
-  const migratedDoc = ensureOperationsFormat(doc);
+/**
+ * Builds the `required` list and `properties` of an object, recursing into nested properties
+ */
+const toObjectProperties = (
+  properties: SchemaProperty[] | undefined
+): Pick<OpenApiSchemaObject, 'required' | 'properties'> => {
+  if (!properties || properties.length === 0) {
+    return {};
+  }
+  const required = properties.filter((prop) => prop.required && prop.name).map((prop) => prop.name);
+  return {
+    ...(required.length > 0 ? { required } : {}),
+    properties: Object.fromEntries(properties.map((prop) => [prop.name, mergePassthrough(toPropertySchema(prop), prop.passthrough)])),
+  };
+};
 
-  let yaml = `openapi: ${migratedDoc.openapi}\n`;
-  yaml += `info:\n`;
-  yaml += `  title: ${migratedDoc.info.title}\n`;
-  yaml += `  description: ${formatDescription(migratedDoc.info.description, 4)}\n`;
-  yaml += `  version: "${migratedDoc.info.version}"\n`;
+/**
+ * Builds the schema object for a single schema property
+ */
+const toPropertySchema = (prop: SchemaProperty): OpenApiSchemaObject => {
+  // Object type with $ref
+  if (prop.type === 'object' && prop.$ref) {
+    return { $ref: schemaRef(prop.$ref) };
+  }
 
-  // Terms of Service
-  if (migratedDoc.info.termsOfService) {
-    yaml += `  termsOfService: ${migratedDoc.info.termsOfService}\n`;
+  // Array type
+  if (prop.type === 'array') {
+    const schema: OpenApiSchemaObject = {
+      type: 'array',
+      items: prop.items?.$ref
+        ? { $ref: schemaRef(prop.items.$ref) }
+        : {
+          type: prop.items?.type || 'string',
+          ...toObjectProperties(prop.items?.type === 'object' ? prop.items.properties : undefined),
+        },
+    };
+    if (prop.description) {
+      schema.description = prop.description;
+    }
+    return schema;
   }
 
-  // Contact
-  if (migratedDoc.info.contact && (migratedDoc.info.contact.name || migratedDoc.info.contact.email || migratedDoc.info.contact.url)) {
-    yaml += `  contact:\n`;
-    if (migratedDoc.info.contact.name) {
-      yaml += `    name: ${migratedDoc.info.contact.name}\n`;
+  // Primitive types and inline objects
+  const schema: OpenApiSchemaObject = {
+    ...(prop.type ? { type: prop.type } : {}),
+    ...toObjectProperties(prop.type === 'object' ? prop.properties : undefined),
+  };
+  if (prop.format) {
+    schema.format = prop.format;
+  }
+  if (prop.nullable) {
+    schema.nullable = true;
+  }
+  if (prop.deprecated) {
+    schema.deprecated = true;
+  }
+  if (prop.readOnly) {
+    schema.readOnly = true;
+  }
+  if (prop.writeOnly) {
+    schema.writeOnly = true;
+  }
+  if (prop.default) {
+    schema.default = toTypedValue(prop.default, prop.type);
+  }
+  if (prop.pattern) {
+    schema.pattern = prop.pattern;
+  }
+  // String constraints
+  if (prop.type === 'string') {
+    if (prop.minLength !== undefined && prop.minLength !== null) {
+      schema.minLength = prop.minLength;
     }
-    if (migratedDoc.info.contact.email) {
-      yaml += `    email: ${migratedDoc.info.contact.email}\n`;
+    if (prop.maxLength !== undefined && prop.maxLength !== null) {
+      schema.maxLength = prop.maxLength;
+    }
+  }
+  // Number constraints
+  if (prop.type === 'number' || prop.type === 'integer') {
+    if (prop.minimum !== undefined && prop.minimum !== null) {
+      schema.minimum = prop.minimum;
     }
-    if (migratedDoc.info.contact.url) {
-      yaml += `    url: ${migratedDoc.info.contact.url}\n`;
+    if (prop.maximum !== undefined && prop.maximum !== null) {
+      schema.maximum = prop.maximum;
     }
   }
+  const enumArray = parseEnumList(prop.enumValues);
+  if (enumArray.length > 0) {
+    schema.enum = enumArray.map((v) => toTypedValue(v, prop.type));
+  }
+  if (prop.description) {
+    schema.description = prop.description;
+  }
+  if (prop.example) {
+    schema.example = toTypedValue(prop.example, prop.type);
+  }
+  return schema;
+};
+
+const toDiscriminatorObject = (discriminator: SchemaDiscriminator): OpenApiDiscriminator => {
+  const mapping = discriminator.mapping.filter((entry) => entry.value && entry.schemaRef);
+  return {
+    propertyName: discriminator.propertyName,
+    ...(mapping.length > 0
+      ? { mapping: Object.fromEntries(mapping.map((entry) => [entry.value, schemaRef(entry.schemaRef)])) }
+      : {}),
+  };
+};
+
+const toSchemaObject = (schema: SwaggerSchema): OpenApiSchemaObject => {
+  const objectProperties = toObjectProperties(schema.properties);
+
+  if (!schema.composition) {
+    return { type: schema.type, ...objectProperties };
+  }
 
-  // License
-  if (migratedDoc.info.license && migratedDoc.info.license.name) {
-    yaml += `  license:\n`;
-    yaml += `    name: ${migratedDoc.info.license.name}\n`;
-    if (migratedDoc.info.license.url) {
-      yaml += `    url: ${migratedDoc.info.license.url}\n`;
-    }
+  const refs = (schema.compositionRefs || [])
+    .filter(Boolean)
+    .map((name): OpenApiSchemaObject => ({ $ref: schemaRef(name) }));
+  // allOf appends the schema's own properties to the referenced base schemas
+  const members =
+    schema.composition === 'allOf' && objectProperties.properties
+      ? [...refs, { type: 'object', ...objectProperties }]
+      : refs;
+
+  return {
+    [schema.composition]: members,
+    ...(schema.discriminator?.propertyName
+      ? { discriminator: toDiscriminatorObject(schema.discriminator) }
+      : {}),
+  };
+};
+
+/**
+ * Whether an imported parameter brings its own schema: parameters described by `content`
+ * have none, and a schema $ref is kept as it was imported
+ */
+const hasImportedSchema = (param: PathParameter): boolean => {
+  const schema = param.passthrough?.schema as { $ref?: unknown } | undefined;
+  return Boolean(param.passthrough?.content) || typeof schema?.$ref === 'string';
+};
+
+const toParameterObject = (param: PathParameter): OpenApiParameter | OpenApiReference => {
+  if (param.$ref) {
+    return componentRef('parameters', param.$ref);
   }
 
-  // Servers
-  if (migratedDoc.servers.length > 0) {
-    yaml += `servers:\n`;
-    migratedDoc.servers.forEach((server) => {
-      yaml += `  - url: ${server.url}\n`;
-      if (server.description) {
-        yaml += `    description: ${formatDescription(server.description, 6)}\n`;
-      }
-    });
+  const schema: OpenApiSchemaObject = { type: param.type };
+  if (param.format) {
+    schema.format = param.format;
   }
+  const enumArray = parseEnumList(param.enum);
+  if (enumArray.length > 0) {
+    schema.enum = enumArray.map((v) => toTypedValue(v, param.type));
+  }
+  if (param.default) {
+    schema.default = toTypedValue(param.default, param.type);
+  }
+
+  const result: OpenApiParameter = {
+    name: param.name,
+    in: param.in,
+    ...(param.required ? { required: true } : {}),
+    ...(hasImportedSchema(param) ? {} : { schema }),
+  };
+  if (param.description) {
+    result.description = param.description;
+  }
+  if (param.deprecated) {
+    result.deprecated = true;
+  }
+  if (param.example) {
+    result.example = toTypedValue(param.example, param.type);
+  }
+  return result;
+};
+
+const toRequestBodyObject = (requestBody: RequestBody): OpenApiRequestBody | OpenApiReference => {
+  if (requestBody.$ref) {
+    return componentRef('requestBodies', requestBody.$ref);
+  }
+
+  const contentType = requestBody.contentType || DEFAULT_REQUEST_CONTENT_TYPE;
+  // An imported body without media types keeps none until a schema is picked
+  const importedContent = requestBody.passthrough?.content as Record<string, unknown> | undefined;
+  const hasNoMediaTypes = importedContent && Object.keys(importedContent).length === 0 && !requestBody.schemaRef;
+  const result: OpenApiRequestBody = {
+    ...(requestBody.required ? { required: true } : {}),
+    content: hasNoMediaTypes ? {} : { [contentType]: toMediaTypeObject(requestBody, contentType) },
+  };
+  if (requestBody.description) {
+    return { description: requestBody.description, ...result };
+  }
+  return result;
+};
 
-  if (migratedDoc.tags.length > 0) {
-    yaml += `tags:\n`;
-    migratedDoc.tags.forEach((tag) => {
-      yaml += `  - name: ${tag.name}\n`;
-      yaml += `    description: ${formatDescription(tag.description, 6)}\n`;
+const toHeaderObject = (header: ResponseHeader): OpenApiHeader | OpenApiReference =>
+  header.$ref
+    ? componentRef('headers', header.$ref)
+    : {
+      ...(header.description ? { description: header.description } : {}),
+      schema: { type: header.schema.type || 'string' },
+    };
+
+const toResponseObject = (resp: Omit<PathResponse, 'statusCode'>): OpenApiResponse | OpenApiReference => {
+  if (resp.$ref) {
+    return componentRef('responses', resp.$ref);
+  }
+
+  const result: OpenApiResponse = { description: resp.description };
+  const headers = (resp.headers || []).filter((header) => header.name);
+  if (headers.length > 0) {
+    result.headers = Object.fromEntries(
+      headers.map((header) => [header.name, mergePassthrough(toHeaderObject(header), header.passthrough)])
+    );
+  }
+  // Responses without a body (e.g. 204) must not declare content
+  if (!resp.noContent) {
+    const contentType = resp.contentType || DEFAULT_RESPONSE_CONTENT_TYPE;
+    result.content = {
+      [contentType]: toMediaTypeObject(resp, contentType),
+    };
+  }
+  return result;
+};
+
+const toSecurityRequirements = (requirements: SecurityRequirement[]): OpenApiSecurityRequirement[] =>
+  requirements.map((requirement) =>
+    Object.fromEntries(
+      Object.entries(requirement).map(([name, scopes]) => [name, scopes.filter(Boolean)])
+    )
+  );
+
+const toOperationObject = (operation: PathOperation): OpenApiOperation => {
+  const result: Omit<OpenApiOperation, 'responses'> = {};
+  if (operation.tags.length > 0) {
+    result.tags = [...operation.tags];
+  }
+  if (operation.summary) {
+    result.summary = operation.summary;
+  }
+  if (operation.operationId) {
+    result.operationId = operation.operationId;
+  }
+  if (operation.description) {
+    result.description = operation.description;
+  }
+  if (operation.deprecated) {
+    result.deprecated = true;
+  }
+  if (operation.parameters.length > 0) {
+    result.parameters = operation.parameters.map((param) => mergePassthrough(toParameterObject(param), param.passthrough));
+  }
+  if (operation.requestBody) {
+    result.requestBody = mergePassthrough(toRequestBodyObject(operation.requestBody), operation.requestBody.passthrough);
+  }
+  // An explicit empty list marks a public operation, so emit it as-is
+  if (operation.security) {
+    result.security = toSecurityRequirements(operation.security);
+  }
+  return {
+    ...result,
+    responses: Object.fromEntries(
+      operation.responses.map((resp) => [resp.statusCode, mergePassthrough(toResponseObject(resp), resp.passthrough)])
+    ),
+  };
+};
+
+const toSecuritySchemeObject = (scheme: SwaggerSecurityScheme): OpenApiSecuritySchemeObject => {
+  if (scheme.type === 'http') {
+    const result: OpenApiSecuritySchemeObject = { type: 'http', scheme: scheme.scheme || 'bearer' };
+    if (scheme.scheme === 'bearer' && scheme.bearerFormat) {
+      result.bearerFormat = scheme.bearerFormat;
+    }
+    return result;
+  }
+  if (scheme.type === 'apiKey') {
+    return {
+      type: 'apiKey',
+      in: scheme.in || 'header',
+      name: scheme.apiKeyName || 'X-API-Key',
+    };
+  }
+  if (scheme.type === 'oauth2') {
+    const flows = OAUTH_FLOWS.flatMap(({ type, urls }) => {
+      const flow = scheme.flows?.[type];
+      if (!flow) return [];
+      const result: OpenApiOAuthFlow = {
+        // Only the URLs the flow type defines are valid, so drop stale ones
+        ...Object.fromEntries(urls.map((field) => [field, flow[field] || ''])),
+        ...(flow.refreshUrl ? { refreshUrl: flow.refreshUrl } : {}),
+        scopes: Object.fromEntries(
+          flow.scopes.filter((scope) => scope.name).map((scope) => [scope.name, scope.description])
+        ),
+      };
+      return [[type, result] as const];
     });
+    return { type: 'oauth2', flows: Object.fromEntries(flows) };
   }
+  return { type: 'openIdConnect', openIdConnectUrl: scheme.openIdConnectUrl || '' };
+};
 
-  if (migratedDoc.paths.length > 0) {
-    yaml += `paths:\n`;
-    migratedDoc.paths.forEach((path) => {
-      yaml += `  '${path.path}':\n`;
-      path.operations.forEach((operation) => {
-        yaml += `    ${operation.method}:\n`;
-        if (operation.tags.length > 0) {
-          yaml += `      tags:\n`;
-          operation.tags.forEach((tag) => {
-            yaml += `        - ${tag}\n`;
-          });
-        }
-        yaml += `      summary: ${operation.summary}\n`;
-        yaml += `      operationId: ${operation.operationId}\n`;
-        yaml += `      description: ${formatDescription(operation.description, 8)}\n`;
+const toServerVariableObject = (variable: SwaggerServerVariable): OpenApiServerVariable => {
+  const enumValues = (variable.enum || []).map((value) => value.trim()).filter(Boolean);
+  return {
+    // `default` is required by the spec; fall back to the first allowed value
+    default: variable.default || enumValues[0] || '',
+    ...(enumValues.length > 0 ? { enum: enumValues } : {}),
+    ...(variable.description ? { description: variable.description } : {}),
+  };
+};
 
-        // Deprecated flag
-        if (operation.deprecated) {
-          yaml += `      deprecated: true\n`;
+const toServerObject = (server: SwaggerServer): OpenApiServer => {
+  const variables = Object.entries(server.variables || {});
+  return {
+    url: server.url,
+    ...(server.description ? { description: server.description } : {}),
+    ...(variables.length > 0
+      ? {
+          variables: Object.fromEntries(
+            variables.map(([name, variable]) => [name, toServerVariableObject(variable)])
+          ),
         }
+      : {}),
+  };
+};
 
-        if (operation.parameters.length > 0) {
-          yaml += `      parameters:\n`;
-          operation.parameters.forEach((param) => {
-            yaml += `        - name: ${param.name}\n`;
-            yaml += `          in: ${param.in}\n`;
-            yaml += `          description: ${formatDescription(param.description, 12)}\n`;
-            yaml += `          required: ${param.required}\n`;
-            if (param.deprecated) {
-              yaml += `          deprecated: true\n`;
-            }
-            yaml += `          schema:\n`;
-            yaml += `            type: ${param.type}\n`;
-            if (param.format) {
-              yaml += `            format: ${param.format}\n`;
-            }
-            if (param.enum) {
-              const enumArray = param.enum.split(',').map((v) => v.trim()).filter((v) => v !== '');
-              if (enumArray.length > 0) {
-                yaml += `            enum:\n`;
-                enumArray.forEach((enumValue) => {
-                  yaml += `              - ${enumValue}\n`;
-                });
-              }
-            }
-            if (param.default) {
-              yaml += `            default: ${param.default}\n`;
-            }
-            if (param.example) {
-              yaml += `          example: ${param.example}\n`;
-            }
-          });
-        }
+/**
+ * Parses the example value as JSON/YAML, falling back to the raw text
+ */
+export const toExampleValue = (value: string): unknown => {
+  try {
+    return yaml.parse(value);
+  } catch {
+    return value;
+  }
+};
 
-        // Request Body
-        if (operation.requestBody) {
-          yaml += `      requestBody:\n`;
-          if (operation.requestBody.description) {
-            yaml += `        description: ${formatDescription(operation.requestBody.description, 10)}\n`;
-          }
-          yaml += `        required: ${operation.requestBody.required}\n`;
-          yaml += `        content:\n`;
-          yaml += `          ${operation.requestBody.contentType || 'application/json'}:\n`;
-          yaml += `            schema:\n`;
-          if (operation.requestBody.schemaRef) {
-            yaml += `              $ref: '#/components/schemas/${operation.requestBody.schemaRef}'\n`;
-          } else {
-            yaml += `              type: object\n`;
-          }
-        }
+const toExampleObject = (example: ComponentExample): OpenApiExample => ({
+  ...(example.summary ? { summary: example.summary } : {}),
+  ...(example.description ? { description: example.description } : {}),
+  ...(example.value.trim() ? { value: toExampleValue(example.value) } : {}),
+});
 
-        if (operation.responses.length > 0) {
-          yaml += `      responses:\n`;
-          operation.responses.forEach((resp) => {
-            yaml += `        '${resp.statusCode}':\n`;
-            yaml += `          description: ${formatDescription(resp.description, 12)}\n`;
-            yaml += `          content:\n`;
-            yaml += `            application/vnd.api+json:\n`;
-            yaml += `              schema:\n`;
-            if (resp.schemaRef) {
-              yaml += `                $ref: '#/components/schemas/${resp.schemaRef}'\n`;
-            } else {
-              yaml += `                type: object\n`;
-            }
-          });
-        }
-      });
-    });
+/**
+ * Builds the reusable parameters, responses, request bodies, headers and examples,
+ * leaving out empty libraries
+ */
+const toComponentLibraries = (components: SwaggerComponents): OpenApiComponents => {
+  const libraries: OpenApiComponents = {};
+  const named = <T extends { passthrough?: Passthrough }, R extends object>(
+    items: T[],
+    getName: (item: T) => string,
+    build: (item: T) => R
+  ): Record<string, R> | undefined =>
+    items.length > 0
+      ? Object.fromEntries(items.map((item) => [getName(item), mergePassthrough(build(item), item.passthrough)]))
+      : undefined;
+
+  const parameters = named(components.parameters, (param) => param.key, toParameterObject);
+  const responses = named(components.responses, (resp) => resp.name, toResponseObject);
+  const requestBodies = named(components.requestBodies, (body) => body.name, toRequestBodyObject);
+  const headers = named(components.headers, (header) => header.name, toHeaderObject);
+  const examples = named(components.examples, (example) => example.name, toExampleObject);
+  if (parameters) libraries.parameters = parameters;
+  if (responses) libraries.responses = responses;
+  if (requestBodies) libraries.requestBodies = requestBodies;
+  if (headers) libraries.headers = headers;
+  if (examples) libraries.examples = examples;
+  return libraries;
+};
+
+/**
+ * Converts the editor model into a plain OpenAPI 3.0 object.
+ * The result can be serialized directly (YAML or JSON) or handed to
+ * consumers such as the validator and Swagger UI without re-parsing.
+ */
+export const toOpenApiObject = (doc: SwaggerDocument): OpenApiObject => {
+  const { info } = doc;
+
+  const openApiInfo: OpenApiInfo = {
+    title: info.title,
+    ...(info.description ? { description: info.description } : {}),
+    version: info.version,
+  };
+  if (info.termsOfService) {
+    openApiInfo.termsOfService = info.termsOfService;
+  }
+  if (info.contact && (info.contact.name || info.contact.email || info.contact.url)) {
+    openApiInfo.contact = {};
+    if (info.contact.name) {
+      openApiInfo.contact.name = info.contact.name;
+    }
+    if (info.contact.email) {
+      openApiInfo.contact.email = info.contact.email;
+    }
+    if (info.contact.url) {
+      openApiInfo.contact.url = info.contact.url;
+    }
+  }
+  if (info.license && info.license.name) {
+    openApiInfo.license = { name: info.license.name };
+    if (info.license.url) {
+      openApiInfo.license.url = info.license.url;
+    }
   }
 
-  // Components section (schemas + securitySchemes)
-  const hasSchemas = migratedDoc.schemas.length > 0;
-  const hasSecuritySchemes = migratedDoc.securitySchemes.length > 0;
+  const servers = doc.servers.map((server) => mergePassthrough(toServerObject(server), server.passthrough));
+  const tags = doc.tags.map((tag) =>
+    mergePassthrough(
+      {
+        name: tag.name,
+        ...(tag.description ? { description: tag.description } : {}),
+      },
+      tag.passthrough
+    )
+  );
+
+  const result: OpenApiObject = {
+    openapi: doc.openapi,
+    info: mergePassthrough(openApiInfo, info.passthrough),
+    ...(servers.length > 0 ? { servers } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    paths: {},
+  };
+
+  doc.paths.forEach((path) => {
+    const pathItem: OpenApiPathItem = {};
+    path.operations.forEach((operation) => {
+      pathItem[operation.method] = mergePassthrough(toOperationObject(operation), operation.passthrough);
+    });
+    result.paths[path.path] = mergePassthrough(pathItem, path.passthrough);
+  });
 
-  if (hasSchemas || hasSecuritySchemes) {
-    yaml += `components:\n`;
+  // Components section (securitySchemes, schemas and the reusable libraries)
+  const hasSchemas = doc.schemas.length > 0;
+  const hasSecuritySchemes = doc.securitySchemes.length > 0;
+  const libraries = toComponentLibraries(doc.components);
 
-    // Security Schemes
+  if (hasSchemas || hasSecuritySchemes || Object.keys(libraries).length > 0) {
+    result.components = {};
     if (hasSecuritySchemes) {
-      yaml += `  securitySchemes:\n`;
-      migratedDoc.securitySchemes.forEach((scheme) => {
-        yaml += `    ${scheme.name}:\n`;
-        yaml += `      type: ${scheme.type}\n`;
-        if (scheme.type === 'http') {
-          yaml += `      scheme: ${scheme.scheme || 'bearer'}\n`;
-          if (scheme.scheme === 'bearer' && scheme.bearerFormat) {
-            yaml += `      bearerFormat: ${scheme.bearerFormat}\n`;
-          }
-        } else if (scheme.type === 'apiKey') {
-          yaml += `      in: ${scheme.in || 'header'}\n`;
-          yaml += `      name: ${scheme.apiKeyName || 'X-API-Key'}\n`;
-        }
-      });
+      result.components.securitySchemes = Object.fromEntries(
+        doc.securitySchemes.map((scheme) => [
+          scheme.name,
+          mergePassthrough(toSecuritySchemeObject(scheme), scheme.passthrough),
+        ])
+      );
     }
-
-    // Schemas
     if (hasSchemas) {
-      yaml += `  schemas:\n`;
-      migratedDoc.schemas.forEach((schema) => {
-        yaml += `    ${schema.name}:\n`;
-        yaml += `      type: ${schema.type}\n`;
-        if (schema.properties.length > 0) {
-          yaml += `      properties:\n`;
-          schema.properties.forEach((prop) => {
-            yaml += `        ${prop.name}:\n`;
-
-            // Handle object type with $ref
-            if (prop.type === 'object' && prop.$ref) {
-              yaml += `          $ref: '#/components/schemas/${prop.$ref}'\n`;
-            }
-            // Handle array type
-            else if (prop.type === 'array') {
-              yaml += `          type: array\n`;
-              yaml += `          items:\n`;
-              if (prop.items?.$ref) {
-                yaml += `            $ref: '#/components/schemas/${prop.items.$ref}'\n`;
-              } else {
-                yaml += `            type: ${prop.items?.type || 'string'}\n`;
-              }
-              if (prop.description) {
-                yaml += `          description: ${formatDescription(prop.description, 10)}\n`;
-              }
-            }
-            // Handle primitive types
-            else {
-              yaml += `          type: ${prop.type}\n`;
-              if (prop.format) {
-                yaml += `          format: ${prop.format}\n`;
-              }
-              if (prop.nullable) {
-                yaml += `          nullable: true\n`;
-              }
-              if (prop.deprecated) {
-                yaml += `          deprecated: true\n`;
-              }
-              if (prop.readOnly) {
-                yaml += `          readOnly: true\n`;
-              }
-              if (prop.writeOnly) {
-                yaml += `          writeOnly: true\n`;
-              }
-              if (prop.default) {
-                yaml += `          default: ${prop.default}\n`;
-              }
-              if (prop.pattern) {
-                yaml += `          pattern: '${prop.pattern}'\n`;
-              }
-              // String constraints
-              if (prop.type === 'string') {
-                if (prop.minLength !== undefined && prop.minLength !== null) {
-                  yaml += `          minLength: ${prop.minLength}\n`;
-                }
-                if (prop.maxLength !== undefined && prop.maxLength !== null) {
-                  yaml += `          maxLength: ${prop.maxLength}\n`;
-                }
-              }
-              // Number constraints
-              if (prop.type === 'number' || prop.type === 'integer') {
-                if (prop.minimum !== undefined && prop.minimum !== null) {
-                  yaml += `          minimum: ${prop.minimum}\n`;
-                }
-                if (prop.maximum !== undefined && prop.maximum !== null) {
-                  yaml += `          maximum: ${prop.maximum}\n`;
-                }
-              }
-              // Parse enumValues string into array for YAML output
-              const enumArray = prop.enumValues
-                ? prop.enumValues.split(',').map((v) => v.trim()).filter((v) => v !== '')
-                : [];
-              if (enumArray.length > 0) {
-                yaml += `          enum:\n`;
-                enumArray.forEach((enumValue) => {
-                  yaml += `            - ${enumValue}\n`;
-                });
-              }
-              if (prop.description) {
-                yaml += `          description: ${formatDescription(prop.description, 10)}\n`;
-              }
-              if (prop.example) {
-                yaml += `          example: ${prop.example}\n`;
-              }
-            }
-          });
-        }
-      });
+      result.components.schemas = Object.fromEntries(
+        doc.schemas.map((schema) => [schema.name, mergePassthrough(toSchemaObject(schema), schema.passthrough)])
+      );
     }
+    Object.assign(result.components, libraries);
   }
 
-  // Global security (if security schemes defined)
-  if (hasSecuritySchemes) {
-    yaml += `security:\n`;
-    doc.securitySchemes.forEach((scheme) => {
-      yaml += `  - ${scheme.name}: []\n`;
-    });
+  // Global security
+  if (doc.security && doc.security.length > 0) {
+    result.security = toSecurityRequirements(doc.security);
   }
 
-  return yaml;
-};
\ No newline at end of file
+  // Root-level extensions, externalDocs and unmodeled components from an imported spec
+  return mergePassthrough(result, doc.passthrough);
+};
+
+export type OutputFormat = 'yaml' | 'json';
+
+/**
+ * Serializes an OpenAPI object in the requested format
+ */
+export const serializeOpenApiObject = (spec: OpenApiObject, format: OutputFormat): string => {
+  if (format === 'json') {
+    return `${JSON.stringify(spec, null, 2)}\n`;
+  }
+  return yaml.stringify(spec, { lineWidth: 0, aliasDuplicateObjects: false });
+};
+
+/**
+ * Serializes the document as OpenAPI YAML
+ */
+export const buildYamlDocument = (doc: SwaggerDocument): string =>
+  serializeOpenApiObject(toOpenApiObject(doc), 'yaml');
+
+/**
+ * Serializes the document as OpenAPI JSON
+ */
+export const buildJsonDocument = (doc: SwaggerDocument): string =>
+  serializeOpenApiObject(toOpenApiObject(doc), 'json');
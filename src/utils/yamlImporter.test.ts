@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { toOpenApiObject } from './yamlGenerator';
+
+// Import `get /pets` with the given parameters and export it again
+const roundTripParameters = (parameters: string) =>
+  toOpenApiObject(importSpec(`${SPEC_HEADER}paths:
+  /pets:
+    get:
+      parameters:
+${parameters}
+      responses:
+        '200': { description: OK }
+components:
+  schemas:
+    Status: { type: string, enum: [available, sold] }
+`)).paths['/pets'].get!.parameters;
+
+// Import `post /pets` with the given request body and export it again
+const roundTripRequestBody = (requestBody: string) =>
+  toOpenApiObject(importSpec(`${SPEC_HEADER}paths:
+  /pets:
+    post:
+      requestBody: ${requestBody}
+      responses:
+        '201': { description: Created }
+`)).paths['/pets'].post!.requestBody;
+
+describe('import then export', () => {
+  it('keeps a parameter described by content without adding a schema', () => {
+    const parameters = roundTripParameters(`        - name: filter
+          in: query
+          content:
+            application/json:
+              schema: { type: object }`);
+
+    expect(parameters).toEqual([
+      { name: 'filter', in: 'query', content: { 'application/json': { schema: { type: 'object' } } } },
+    ]);
+  });
+
+  it('keeps a parameter schema reference as it was', () => {
+    const parameters = roundTripParameters(`        - { name: status, in: query, schema: { $ref: '#/components/schemas/Status' } }`);
+
+    expect(parameters).toEqual([{ name: 'status', in: 'query', schema: { $ref: '#/components/schemas/Status' } }]);
+  });
+
+  it('writes required only when it is true or was in the source', () => {
+    const parameters = roundTripParameters(`        - { name: id, in: path, required: true, schema: { type: string } }
+        - { name: limit, in: query, schema: { type: integer } }
+        - { name: offset, in: query, required: false, schema: { type: integer } }`);
+
+    expect(parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'limit', in: 'query', schema: { type: 'integer' } },
+      { name: 'offset', in: 'query', schema: { type: 'integer' }, required: false },
+    ]);
+  });
+
+  it('keeps a request body without media types or requiredness as it was', () => {
+    expect(roundTripRequestBody('{ description: Nothing yet, content: {} }')).toEqual({
+      description: 'Nothing yet',
+      content: {},
+    });
+  });
+
+  it('writes request body required only when it is true or was in the source', () => {
+    const content = "content: { application/json: { schema: { $ref: '#/components/schemas/Pet' } } }";
+    const expectedContent = { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } };
+
+    expect(roundTripRequestBody(`{ ${content} }`)).toEqual({ content: expectedContent });
+    expect(roundTripRequestBody(`{ required: false, ${content} }`)).toEqual({ required: false, content: expectedContent });
+    expect(roundTripRequestBody(`{ required: true, ${content} }`)).toEqual({ required: true, content: expectedContent });
+  });
+});
@@ -3,6 +3,7 @@ import type {
   SwaggerDocument,
   SwaggerInfo,
   SwaggerServer,
+  SwaggerServerVariable,
   SwaggerSecurityScheme,
   SwaggerTag,
   SwaggerPath,
@@ -11,8 +12,18 @@ import type {
   SchemaProperty,
   PathParameter,
   PathResponse,
+  ResponseHeader,
   RequestBody,
+  OAuthFlow,
+  SecurityRequirement,
+  SchemaComposition,
+  Passthrough,
+  SwaggerComponents,
+  ComponentExample,
 } from '../types/swagger';
+import { OAUTH_FLOWS } from '../constants/oauthFlows';
+import { syncServerVariables } from './serverVariableParser';
+import { isScalar, pickMapPassthrough, pickPassthrough, withPassthrough } from './passthrough';
 
 interface OpenApiDocument {
   openapi?: string;
@@ -20,10 +31,25 @@ interface OpenApiDocument {
     title?: string;
     description?: string;
     version?: string;
+    termsOfService?: string;
+    contact?: {
+      name?: string;
+      url?: string;
+      email?: string;
+    };
+    license?: {
+      name?: string;
+      url?: string;
+    };
   };
   servers?: Array<{
     url?: string;
     description?: string;
+    variables?: Record<string, {
+      default?: unknown;
+      enum?: unknown[];
+      description?: string;
+    }>;
   }>;
   tags?: Array<{
     name?: string;
@@ -33,6 +59,11 @@ interface OpenApiDocument {
   components?: {
     schemas?: Record<string, unknown>;
     securitySchemes?: Record<string, unknown>;
+    parameters?: Record<string, unknown>;
+    responses?: Record<string, unknown>;
+    requestBodies?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
+    examples?: Record<string, unknown>;
   };
   security?: Array<Record<string, unknown[]>>;
 }
@@ -54,6 +85,16 @@ function extractSchemaRef(ref: string | undefined): string {
   return match ? match[1] : '';
 }
 
+/**
+ * Extract the component name from a local $ref to a reusable parameter, response, ...
+ * e.g., "#/components/parameters/PageSize" -> "PageSize".
+ * Refs to other documents are kept whole.
+ */
+function extractComponentRef(ref: string, kind: string): string {
+  const prefix = `#/components/${kind}/`;
+  return ref.startsWith(prefix) ? ref.slice(prefix.length) : ref;
+}
+
 /**
  * Parse security schemes from OpenAPI format
  */
@@ -77,12 +118,56 @@ function parseSecuritySchemes(
     } else if (s.type === 'apiKey') {
       result.in = (s.in as 'header' | 'query' | 'cookie') || 'header';
       result.apiKeyName = (s.name as string) || '';
+    } else if (s.type === 'oauth2') {
+      result.flows = parseOAuthFlows(s.flows as Record<string, unknown> | undefined);
+    } else if (s.type === 'openIdConnect') {
+      result.openIdConnectUrl = (s.openIdConnectUrl as string) || '';
     }
 
-    return result;
+    return withPassthrough(
+      result,
+      pickPassthrough(s, ['type', 'scheme', 'bearerFormat', 'in', 'name', 'flows', 'openIdConnectUrl'], {
+        flows: pickMapPassthrough(s.flows, (flow) =>
+          pickPassthrough(flow, ['authorizationUrl', 'tokenUrl', 'refreshUrl', 'scopes'])
+        ),
+      })
+    );
   });
 }
 
+/**
+ * Parse OAuth2 flows from OpenAPI format
+ */
+function parseOAuthFlows(flows: Record<string, unknown> | undefined): SwaggerSecurityScheme['flows'] {
+  const result: SwaggerSecurityScheme['flows'] = {};
+  if (!flows) return result;
+
+  for (const { type } of OAUTH_FLOWS) {
+    const f = flows[type] as Record<string, unknown> | undefined;
+    if (!f) continue;
+
+    const scopes = (f.scopes as Record<string, unknown> | undefined) || {};
+    const flow: OAuthFlow = {
+      scopes: Object.entries(scopes).map(([name, description]) => ({
+        name,
+        description: description ? String(description) : '',
+      })),
+    };
+    if (f.authorizationUrl) {
+      flow.authorizationUrl = f.authorizationUrl as string;
+    }
+    if (f.tokenUrl) {
+      flow.tokenUrl = f.tokenUrl as string;
+    }
+    if (f.refreshUrl) {
+      flow.refreshUrl = f.refreshUrl as string;
+    }
+    result[type] = flow;
+  }
+
+  return result;
+}
+
 /**
  * Parse a schema property from OpenAPI format
  */
@@ -95,18 +180,18 @@ function parseSchemaProperty(
     name,
     type: '' as SchemaProperty['type'],
     description: (prop.description as string) || '',
-    example: prop.example !== undefined ? String(prop.example) : '',
+    example: isScalar(prop.example) ? String(prop.example) : '',
     required: requiredFields.includes(name),
     $ref: '',
     items: { type: 'string', $ref: '' },
     enumValues: '',
   };
 
-  // Handle $ref at property level (object reference)
+  // Handle $ref at property level (object reference); siblings such as description are kept as-is
   if (prop.$ref) {
     result.type = 'object';
     result.$ref = extractSchemaRef(prop.$ref as string);
-    return result;
+    return withPassthrough(result, pickPassthrough(prop, result.$ref ? ['$ref'] : []));
   }
 
   // Set the type
@@ -115,27 +200,87 @@ function parseSchemaProperty(
     result.type = propType as SchemaProperty['type'];
   }
 
+  // Handle array items
+  if (propType === 'array') {
+    let itemsPassthrough: Passthrough | undefined;
+    if (prop.items) {
+      const items = prop.items as Record<string, unknown>;
+      if (items.$ref) {
+        result.items = { type: 'object', $ref: extractSchemaRef(items.$ref as string) };
+        itemsPassthrough = pickPassthrough(items, ['$ref']);
+      } else if (items.properties) {
+        result.items = { type: 'object', $ref: '', properties: parseInlineProperties(items) };
+        itemsPassthrough = pickPassthrough(items, ['type', 'properties', 'required']);
+      } else {
+        result.items = { type: (items.type as string) || 'string', $ref: '' };
+        itemsPassthrough = pickPassthrough(items, ['type']);
+      }
+    }
+    // Arrays only emit their type, items and description
+    return withPassthrough(
+      result,
+      pickPassthrough(prop, ['type', 'items', 'description'], { items: itemsPassthrough })
+    );
+  }
+
+  const modeledKeys = ['type', 'format', 'description', 'nullable', 'readOnly', 'writeOnly', 'deprecated', 'pattern'];
+
   // Handle format
   if (prop.format) {
     result.format = prop.format as string;
   }
 
-  // Handle enum values
-  if (prop.enum && Array.isArray(prop.enum)) {
+  // Handle enum values (edited as a comma-separated string, so values containing commas stay as-is)
+  if (Array.isArray(prop.enum) && prop.enum.every((v) => isScalar(v) && !String(v).includes(','))) {
     result.enumValues = prop.enum.join(', ');
+    modeledKeys.push('enum');
   }
 
-  // Handle array items
-  if (propType === 'array' && prop.items) {
-    const items = prop.items as Record<string, unknown>;
-    if (items.$ref) {
-      result.items = { type: 'object', $ref: extractSchemaRef(items.$ref as string) };
-    } else {
-      result.items = { type: (items.type as string) || 'string', $ref: '' };
-    }
+  if (isScalar(prop.example)) {
+    modeledKeys.push('example');
+  }
+  if (isScalar(prop.default) && prop.default !== '') {
+    result.default = String(prop.default);
+    modeledKeys.push('default');
   }
 
-  return result;
+  // Flags and constraints
+  if (prop.nullable) result.nullable = true;
+  if (prop.readOnly) result.readOnly = true;
+  if (prop.writeOnly) result.writeOnly = true;
+  if (prop.deprecated) result.deprecated = true;
+  if (typeof prop.pattern === 'string') {
+    result.pattern = prop.pattern;
+  }
+  if (propType === 'string') {
+    if (typeof prop.minLength === 'number') result.minLength = prop.minLength;
+    if (typeof prop.maxLength === 'number') result.maxLength = prop.maxLength;
+    modeledKeys.push('minLength', 'maxLength');
+  }
+  if (propType === 'number' || propType === 'integer') {
+    if (typeof prop.minimum === 'number') result.minimum = prop.minimum;
+    if (typeof prop.maximum === 'number') result.maximum = prop.maximum;
+    modeledKeys.push('minimum', 'maximum');
+  }
+
+  // Handle inline object properties (untyped schemas with properties are objects too)
+  if (prop.properties && (!propType || propType === 'object')) {
+    result.type = 'object';
+    result.properties = parseInlineProperties(prop);
+    modeledKeys.push('properties', 'required');
+  }
+
+  return withPassthrough(result, pickPassthrough(prop, modeledKeys));
+}
+
+/**
+ * Parse the nested properties of an inline object schema
+ */
+function parseInlineProperties(schema: Record<string, unknown>): SchemaProperty[] {
+  const requiredFields = (schema.required as string[]) || [];
+  return Object.entries(schema.properties as Record<string, unknown>).map(([propName, propDef]) =>
+    parseSchemaProperty(propName, propDef as Record<string, unknown>, requiredFields)
+  );
 }
 
 /**
@@ -162,10 +307,75 @@ function parseSchemas(schemas: Record<string, unknown> | undefined): SwaggerSche
       );
     }
 
-    return result;
+    // Parse composition: referenced members become compositionRefs, inline allOf
+    // members contribute their properties to the schema itself. Compositions the
+    // editor can't represent (e.g. inline oneOf members) are kept as-is.
+    const composition = (['allOf', 'oneOf', 'anyOf'] as const).find(
+      (key) => Array.isArray(s[key]) && (s[key] as unknown[]).every((member) => isModeledMember(key, member))
+    );
+    if (!composition) {
+      return withPassthrough(result, pickPassthrough(s, ['type', 'properties', 'required']));
+    }
+
+    const members = s[composition] as Record<string, unknown>[];
+    result.composition = composition;
+    result.compositionRefs = members
+      .filter((member) => member.$ref)
+      .map((member) => extractSchemaRef(member.$ref as string));
+    if (composition === 'allOf') {
+      for (const member of members) {
+        if (member.$ref || !member.properties) continue;
+        const memberRequired = (member.required as string[]) || [];
+        result.properties.push(
+          ...Object.entries(member.properties as Record<string, unknown>).map(([propName, propDef]) =>
+            parseSchemaProperty(propName, propDef as Record<string, unknown>, memberRequired)
+          )
+        );
+      }
+    } else {
+      // oneOf/anyOf schemas don't emit their own properties
+      result.properties = [];
+    }
+
+    let discriminatorPassthrough: Passthrough | undefined;
+    if (s.discriminator && typeof s.discriminator === 'object') {
+      const d = s.discriminator as { propertyName?: string; mapping?: Record<string, string> };
+      result.discriminator = {
+        propertyName: d.propertyName || '',
+        mapping: Object.entries(d.mapping || {}).map(([value, ref]) => ({
+          value,
+          schemaRef: extractSchemaRef(ref) || ref, // mapping values may also be bare schema names
+        })),
+      };
+      discriminatorPassthrough = pickPassthrough(d, ['propertyName', 'mapping']);
+    }
+
+    const modeledKeys: string[] = [composition, 'discriminator'];
+    if (composition === 'allOf') {
+      modeledKeys.push('properties', 'required');
+    }
+    return withPassthrough(result, pickPassthrough(s, modeledKeys, { discriminator: discriminatorPassthrough }));
   });
 }
 
+/**
+ * Whether a composition member can be represented by the editor: a reference to a
+ * named schema, or (for allOf) an inline object that only adds properties
+ */
+function isModeledMember(composition: SchemaComposition, member: unknown): boolean {
+  if (!member || typeof member !== 'object') return false;
+  const keys = Object.keys(member);
+  const m = member as Record<string, unknown>;
+  if (m.$ref) {
+    return keys.length === 1 && Boolean(extractSchemaRef(m.$ref as string));
+  }
+  return (
+    composition === 'allOf' &&
+    keys.every((key) => ['type', 'properties', 'required'].includes(key)) &&
+    (m.type === undefined || m.type === 'object')
+  );
+}
+
 /**
  * Parse parameters from OpenAPI path operation
  */
@@ -174,15 +384,108 @@ function parseParameters(params: unknown[] | undefined): PathParameter[] {
 
   return params.map((param) => {
     const p = param as Record<string, unknown>;
-    const schema = p.schema as Record<string, unknown> | undefined;
+    if (typeof p.$ref === 'string') {
+      return { $ref: extractComponentRef(p.$ref, 'parameters'), name: '', in: 'query', description: '', required: false, type: 'string' };
+    }
 
-    return {
+    const schema = (p.schema || {}) as Record<string, unknown>;
+    const type = schema.type ? String(schema.type) : 'string';
+    const result: PathParameter = {
       name: (p.name as string) || '',
       in: (p.in as 'path' | 'query' | 'header' | 'cookie') || 'path',
       description: (p.description as string) || '',
       required: (p.required as boolean) ?? false,
-      type: schema?.type ? String(schema.type) : 'string',
+      type,
     };
+
+    // An explicit `required: false` is only written back through the passthrough
+    const modeledKeys = ['name', 'in', 'description', 'deprecated', 'schema', ...(p.required === false ? [] : ['required'])];
+    const modeledSchemaKeys = ['type', 'format'];
+    if (p.deprecated) {
+      result.deprecated = true;
+    }
+    if (isScalar(p.example) && p.example !== '') {
+      result.example = String(p.example);
+      modeledKeys.push('example');
+    }
+    if (schema.format) {
+      result.format = String(schema.format);
+    }
+    if (Array.isArray(schema.enum) && schema.enum.every((v) => isScalar(v) && !String(v).includes(','))) {
+      result.enum = schema.enum.join(', ');
+      modeledSchemaKeys.push('enum');
+    }
+    if (isScalar(schema.default) && schema.default !== '') {
+      result.default = String(schema.default);
+      modeledSchemaKeys.push('default');
+    }
+
+    return withPassthrough(
+      result,
+      pickPassthrough(p, modeledKeys, { schema: pickPassthrough(p.schema, modeledSchemaKeys) })
+    );
+  });
+}
+
+/**
+ * Collect the unmodeled parts of a media type map: every media type except the
+ * edited one is kept whole, and the edited one loses only a plain schema $ref
+ */
+function pickContentPassthrough(content: Record<string, unknown>, contentType: string): Passthrough | undefined {
+  const mediaType = content[contentType] as Record<string, unknown> | undefined;
+  return pickPassthrough(content, [contentType], {
+    [contentType]: pickPassthrough(mediaType, isSchemaRef(mediaType) ? ['schema', 'examples'] : ['examples'], {
+      examples: pickPassthrough(mediaType?.examples, parseExampleRefs(mediaType)),
+    }),
+  });
+}
+
+/**
+ * Names of the reusable examples a media type refers to.
+ * Only entries keyed by the example's own name are picked up, the rest stay as passthrough.
+ */
+function parseExampleRefs(mediaType: unknown): string[] {
+  const examples = (mediaType as Record<string, unknown> | undefined)?.examples;
+  if (!examples || typeof examples !== 'object') return [];
+
+  return Object.entries(examples as Record<string, unknown>)
+    .filter(([name, example]) => {
+      const e = example as Record<string, unknown> | undefined;
+      return Boolean(e) && Object.keys(e!).length === 1 && e!.$ref === `#/components/examples/${name}`;
+    })
+    .map(([name]) => name);
+}
+
+/**
+ * Whether a media type's schema is a bare reference to a named schema
+ */
+function isSchemaRef(mediaType: unknown): boolean {
+  const schema = (mediaType as Record<string, unknown> | undefined)?.schema as Record<string, unknown> | undefined;
+  return Boolean(schema && Object.keys(schema).length === 1 && extractSchemaRef(schema.$ref as string));
+}
+
+/**
+ * Parse response headers from OpenAPI format
+ */
+function parseResponseHeaders(headers: Record<string, unknown> | undefined): ResponseHeader[] {
+  if (!headers) return [];
+
+  return Object.entries(headers).map(([name, header]) => {
+    const h = header as Record<string, unknown>;
+    if (typeof h.$ref === 'string') {
+      return { $ref: extractComponentRef(h.$ref, 'headers'), name, description: '', schema: { type: 'string' } };
+    }
+    const schema = h.schema as Record<string, unknown> | undefined;
+
+    // Header extras (examples, required, schema formats, ...) stay with the header
+    return withPassthrough(
+      {
+        name,
+        description: (h.description as string) || '',
+        schema: { type: schema?.type ? String(schema.type) : 'string' },
+      },
+      pickPassthrough(h, ['description', 'schema'], { schema: pickPassthrough(schema, ['type']) })
+    );
   });
 }
 
@@ -194,43 +497,74 @@ function parseResponses(responses: Record<string, unknown> | undefined): PathRes
 
   return Object.entries(responses).map(([statusCode, response]) => {
     const r = response as Record<string, unknown>;
-    let schemaRef = '';
-
-    // Try to extract schema ref from content
-    if (r.content && typeof r.content === 'object') {
-      const content = r.content as Record<string, unknown>;
-      // Check common content types
-      const contentTypes = ['application/json', 'application/vnd.api+json', '*/*'];
-      for (const ct of contentTypes) {
-        if (content[ct]) {
-          const mediaType = content[ct] as Record<string, unknown>;
-          if (mediaType.schema) {
-            const schema = mediaType.schema as Record<string, unknown>;
-            if (schema.$ref) {
-              schemaRef = extractSchemaRef(schema.$ref as string);
-              break;
-            }
-          }
-        }
-      }
+    if (typeof r.$ref === 'string') {
+      return { $ref: extractComponentRef(r.$ref, 'responses'), statusCode, description: '', schemaRef: '' };
     }
 
-    return {
-      statusCode,
-      description: (r.description as string) || '',
-      schemaRef,
-    };
+    const content = (r.content && typeof r.content === 'object' ? r.content : {}) as Record<string, unknown>;
+    const contentTypes = Object.keys(content);
+    const headers = parseResponseHeaders(r.headers as Record<string, unknown> | undefined);
+
+    // No content block means the response has no body (e.g. 204)
+    if (contentTypes.length === 0) {
+      return withPassthrough(
+        {
+          statusCode,
+          description: (r.description as string) || '',
+          schemaRef: '',
+          headers,
+          noContent: true,
+        },
+        pickPassthrough(r, ['description', 'headers', 'content'])
+      );
+    }
+
+    // Use the first declared media type
+    const contentType = contentTypes[0];
+    const mediaType = (content[contentType] || {}) as Record<string, unknown>;
+    const schema = mediaType.schema as Record<string, unknown> | undefined;
+    const exampleRefs = parseExampleRefs(mediaType);
+
+    return withPassthrough(
+      {
+        statusCode,
+        description: (r.description as string) || '',
+        schemaRef: isSchemaRef(mediaType) ? extractSchemaRef(schema?.$ref as string | undefined) : '',
+        contentType,
+        headers,
+        ...(exampleRefs.length > 0 ? { exampleRefs } : {}),
+      },
+      pickPassthrough(r, ['description', 'headers', 'content'], {
+        content: pickContentPassthrough(content, contentType),
+      })
+    );
   });
 }
 
+function isEmptyObject(value: unknown): boolean {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0;
+}
+
 /**
  * Parse request body from OpenAPI path operation
  */
 function parseRequestBody(requestBody: Record<string, unknown> | undefined): RequestBody | undefined {
   if (!requestBody) return undefined;
 
+  if (typeof requestBody.$ref === 'string') {
+    return {
+      $ref: extractComponentRef(requestBody.$ref, 'requestBodies'),
+      description: '',
+      required: true,
+      schemaRef: '',
+      contentType: 'application/json',
+    };
+  }
+
   let schemaRef = '';
   let contentType = 'application/json';
+  let exampleRefs: string[] = [];
+  let contentPassthrough: Passthrough | undefined;
 
   if (requestBody.content && typeof requestBody.content === 'object') {
     const content = requestBody.content as Record<string, unknown>;
@@ -239,30 +573,105 @@ function parseRequestBody(requestBody: Record<string, unknown> | undefined): Req
     if (contentTypes.length > 0) {
       contentType = contentTypes[0];
       const mediaType = content[contentType] as Record<string, unknown>;
-      if (mediaType.schema) {
-        const schema = mediaType.schema as Record<string, unknown>;
-        if (schema.$ref) {
-          schemaRef = extractSchemaRef(schema.$ref as string);
-        }
+      if (isSchemaRef(mediaType)) {
+        schemaRef = extractSchemaRef((mediaType.schema as Record<string, unknown>).$ref as string);
       }
+      exampleRefs = parseExampleRefs(mediaType);
+      contentPassthrough = pickContentPassthrough(content, contentType);
     }
   }
 
+  // An explicit `required: false` and a content map without media types are only written
+  // back through the passthrough
+  const emptyContent = isEmptyObject(requestBody.content);
+  const modeledKeys = [
+    'description',
+    ...(requestBody.required === false ? [] : ['required']),
+    ...(emptyContent ? [] : ['content']),
+  ];
+  return withPassthrough(
+    {
+      description: (requestBody.description as string) || '',
+      required: requestBody.required === true,
+      schemaRef,
+      contentType,
+      ...(exampleRefs.length > 0 ? { exampleRefs } : {}),
+    },
+    pickPassthrough(requestBody, modeledKeys, { content: contentPassthrough })
+  );
+}
+
+/**
+ * Parse security requirements, normalizing scopes to strings
+ */
+function parseSecurityRequirements(requirements: Array<Record<string, unknown[]>>): SecurityRequirement[] {
+  if (!Array.isArray(requirements)) return [];
+
+  return requirements.map((requirement) =>
+    Object.fromEntries(
+      Object.entries(requirement || {}).map(([name, scopes]) => [
+        name,
+        Array.isArray(scopes) ? scopes.map(String) : [],
+      ])
+    )
+  );
+}
+
+/**
+ * Parse an example component, keeping its value as editable JSON text
+ */
+function parseExample(name: string, example: unknown): ComponentExample {
+  const e = (example || {}) as Record<string, unknown>;
+  return withPassthrough(
+    {
+      name,
+      summary: (e.summary as string) || '',
+      description: (e.description as string) || '',
+      value: e.value === undefined ? '' : JSON.stringify(e.value, null, 2),
+    },
+    pickPassthrough(e, ['summary', 'description', 'value'])
+  );
+}
+
+/**
+ * Parse the reusable parameters, responses, request bodies, headers and examples
+ */
+function parseComponents(components: OpenApiDocument['components']): SwaggerComponents {
   return {
-    description: (requestBody.description as string) || '',
-    required: (requestBody.required as boolean) ?? true,
-    schemaRef,
-    contentType,
+    parameters: Object.entries(components?.parameters || {}).map(([key, param]) => ({
+      ...parseParameters([param])[0],
+      key,
+    })),
+    // Response components are keyed by name where operations use status codes
+    responses: parseResponses(components?.responses).map(({ statusCode, ...response }) => ({
+      ...response,
+      name: statusCode,
+    })),
+    requestBodies: Object.entries(components?.requestBodies || {}).map(([name, body]) => ({
+      ...parseRequestBody((body || {}) as Record<string, unknown>)!,
+      name,
+    })),
+    headers: parseResponseHeaders(components?.headers),
+    examples: Object.entries(components?.examples || {}).map(([name, example]) => parseExample(name, example)),
   };
 }
 
+const OPERATION_KEYS = [
+  'tags',
+  'summary',
+  'operationId',
+  'description',
+  'deprecated',
+  'parameters',
+  'responses',
+  'requestBody',
+  'security',
+];
+
 /**
  * Parse paths from OpenAPI format
  */
-function parsePaths(
-  paths: Record<string, Record<string, unknown>> | undefined,
-  globalSecurity: Array<Record<string, unknown[]>> | undefined
-): SwaggerPath[] {
+function parsePaths(paths: Record<string, Record<string, unknown>> | undefined): SwaggerPath[] {
   if (!paths) return [];
 
   const result: SwaggerPath[] = [];
@@ -275,12 +684,8 @@ function parsePaths(
       if (pathItem[method]) {
         const operation = pathItem[method] as Record<string, unknown>;
 
-        // Parse security - use operation security or fall back to global
-        const operationSecurity = operation.security as Array<Record<string, unknown[]>> | undefined;
-        const securityToUse = operationSecurity ?? globalSecurity;
-        const security = securityToUse
-          ? securityToUse.flatMap((s) => Object.keys(s))
-          : [];
+        // Operation-level security overrides the global one; absent means inherit
+        const security = operation.security as Array<Record<string, unknown[]>> | undefined;
 
         // Parse tags
         const tags = (operation.tags as string[]) || [];
@@ -291,21 +696,21 @@ function parsePaths(
           summary: (operation.summary as string) || '',
           operationId: (operation.operationId as string) || '',
           description: (operation.description as string) || '',
+          ...(operation.deprecated ? { deprecated: true } : {}),
           parameters: parseParameters(operation.parameters as unknown[]),
           responses: parseResponses(operation.responses as Record<string, unknown>),
           requestBody: parseRequestBody(operation.requestBody as Record<string, unknown>),
-          security: security.length > 0 ? security : undefined,
+          security: security ? parseSecurityRequirements(security) : undefined,
         };
 
-        operations.push(pathOperation);
+        operations.push(withPassthrough(pathOperation, pickPassthrough(operation, OPERATION_KEYS)));
       }
     }
 
-    if (operations.length > 0) {
-      result.push({
-        path: pathKey,
-        operations,
-      });
+    // Path-level parameters, servers, summary and extensions are kept as-is
+    const passthrough = pickPassthrough(pathItem, httpMethods);
+    if (operations.length > 0 || passthrough) {
+      result.push(withPassthrough({ path: pathKey, operations }, passthrough));
     }
   }
 
@@ -350,45 +755,96 @@ export function importYamlDocument(yamlContent: string): ImportResult {
   }
 
   // Build the SwaggerDocument
-  const info: SwaggerInfo = {
-    title: parsed.info?.title || '',
-    description: parsed.info?.description || '',
-    version: parsed.info?.version || '1.0.0',
-  };
-
-  const servers: SwaggerServer[] = (parsed.servers || []).map((s) => ({
-    url: s.url || '',
-    description: s.description || '',
-  }));
+  const { contact, license } = parsed.info || {};
+  const info: SwaggerInfo = withPassthrough(
+    {
+      title: parsed.info?.title || '',
+      description: parsed.info?.description || '',
+      version: parsed.info?.version || '1.0.0',
+      ...(parsed.info?.termsOfService ? { termsOfService: parsed.info.termsOfService } : {}),
+      ...(contact ? { contact: { name: contact.name, url: contact.url, email: contact.email } } : {}),
+      ...(license?.name ? { license: { name: license.name, url: license.url } } : {}),
+    },
+    pickPassthrough(parsed.info, ['title', 'description', 'version', 'termsOfService', 'contact', 'license'], {
+      contact: pickPassthrough(contact, ['name', 'url', 'email']),
+      license: pickPassthrough(license, ['name', 'url']),
+    })
+  );
+
+  const servers: SwaggerServer[] = (parsed.servers || []).map((s) => {
+    const url = s.url || '';
+    // Keep declared variables, and pick up any placeholders the source didn't declare
+    const declared = Object.fromEntries(
+      Object.entries(s.variables || {}).map(([name, variable]): [string, SwaggerServerVariable] => [
+        name,
+        {
+          default: variable.default !== undefined ? String(variable.default) : '',
+          ...(Array.isArray(variable.enum) ? { enum: variable.enum.map(String) } : {}),
+          ...(variable.description ? { description: variable.description } : {}),
+        },
+      ])
+    );
+    const variables = syncServerVariables(declared, url);
+    return withPassthrough(
+      {
+        url,
+        description: s.description || '',
+        ...(variables ? { variables } : {}),
+      },
+      pickPassthrough(s, ['url', 'description', 'variables'], {
+        variables: pickMapPassthrough(s.variables, (variable) =>
+          pickPassthrough(variable, ['default', 'enum', 'description'])
+        ),
+      })
+    );
+  });
 
-  const tags: SwaggerTag[] = (parsed.tags || []).map((t) => ({
-    name: t.name || '',
-    description: t.description || '',
-  }));
+  const tags: SwaggerTag[] = (parsed.tags || []).map((t) =>
+    withPassthrough(
+      {
+        name: t.name || '',
+        description: t.description || '',
+      },
+      pickPassthrough(t, ['name', 'description'])
+    )
+  );
 
   const securitySchemes = parseSecuritySchemes(parsed.components?.securitySchemes);
   const schemas = parseSchemas(parsed.components?.schemas);
-  const paths = parsePaths(parsed.paths, parsed.security);
-
-  // Add warnings for unsupported features
-  if (parsed.components) {
-    const components = parsed.components as Record<string, unknown>;
-    const unsupportedComponents = ['responses', 'parameters', 'examples', 'requestBodies', 'headers', 'links', 'callbacks'];
-    for (const comp of unsupportedComponents) {
-      if (components[comp]) {
-        warnings.push(`Component "${comp}" is not fully supported and may not be imported correctly`);
-      }
-    }
+  const components = parseComponents(parsed.components);
+  const paths = parsePaths(parsed.paths);
+  const security = parsed.security ? parseSecurityRequirements(parsed.security) : [];
+
+  // Anything else (extensions, externalDocs, links, callbacks, ...) is preserved as-is
+  const componentsPassthrough = pickPassthrough(parsed.components, [
+    'schemas',
+    'securitySchemes',
+    'parameters',
+    'responses',
+    'requestBodies',
+    'headers',
+    'examples',
+  ]);
+  for (const comp of Object.keys(componentsPassthrough || {})) {
+    warnings.push(`Component "${comp}" can't be edited here and will be exported unchanged`);
   }
+  const passthrough = pickPassthrough(
+    parsed,
+    ['openapi', 'info', 'servers', 'tags', 'paths', 'components', 'security'],
+    { components: componentsPassthrough }
+  );
 
   const document: SwaggerDocument = {
     openapi: parsed.openapi || '3.0.0',
     info,
     servers,
     securitySchemes,
+    security,
     tags,
     paths,
     schemas,
+    components,
+    ...(passthrough ? { passthrough } : {}),
   };
 
   return {
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { SPEC_HEADER, importSpec } from './testHelpers';
+import { generateZodSchemas } from './zodGenerator';
+
+const SPEC = `${SPEC_HEADER}paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id: { type: string, format: uuid }
+        name: { type: string, minLength: 1, maxLength: 40 }
+        email: { type: string, format: email, nullable: true }
+        age: { type: integer, maximum: 30 }
+        status: { type: string, enum: [available, sold] }
+        tags: { type: array, items: { $ref: '#/components/schemas/Tag' } }
+    Tag: { type: object, properties: { label: { type: string, pattern: '^[a-z]+$' } } }
+    Owner: { type: object, properties: { pets: { type: array, items: { $ref: '#/components/schemas/Owner' } } } }
+`;
+
+describe('generateZodSchemas', () => {
+  const zod = generateZodSchemas(importSpec(SPEC).schemas);
+
+  it('maps property constraints, formats and nullability onto validators', () => {
+    expect(zod).toContain(`export const PetSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(40),
+  email: z.string().email().nullable().optional(),
+  age: z.number().int().max(30).optional(),
+  status: z.enum(['available', 'sold']).optional(),
+  tags: z.array(TagSchema).optional(),
+});
+export type Pet = z.infer<typeof PetSchema>;`);
+    expect(zod).toContain(`label: z.string().regex(new RegExp('^[a-z]+$')).optional(),`);
+  });
+
+  it('declares referenced schemas before the schemas that use them', () => {
+    expect(zod.indexOf('export const TagSchema')).toBeLessThan(zod.indexOf('export const PetSchema'));
+  });
+
+  it('types recursive schemas through an interface and z.lazy', () => {
+    expect(zod).toContain('export interface Owner {');
+    expect(zod).toContain(`export const OwnerSchema: z.ZodType<Owner> = z.lazy(() =>
+  z.object({
+    pets: z.array(OwnerSchema).optional(),
+  })
+);`);
+  });
+});
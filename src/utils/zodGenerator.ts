@@ -0,0 +1,180 @@
+import type { SchemaProperty, SwaggerSchema } from '../types/swagger';
+import { getReferencedSchemaNames } from './schemaDependencies';
+import {
+  schemaToTypeScript,
+  toDocComment,
+  toPropertyKey,
+  toSchemaTypeName,
+  toStringLiteral,
+  toTypeName,
+} from './typeScriptGenerator';
+import { parseEnumList, toTypedValue } from './yamlGenerator';
+
+// String formats with a matching Zod check; other formats are left to the pattern, if any
+const STRING_FORMATS: Record<string, string> = {
+  email: '.email()',
+  uuid: '.uuid()',
+  'date-time': '.datetime({ offset: true })',
+  date: '.date()',
+  uri: '.url()',
+};
+
+interface Constraints {
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+}
+
+const isSet = (value: number | undefined): value is number => value !== undefined && value !== null;
+
+/**
+ * Name of the Zod schema constant for a component schema, e.g. "Pet" -> "PetSchema"
+ */
+export const toZodSchemaName = (name: string): string => `${toTypeName(name)}Schema`;
+
+const toEnumZod = (values: string[], type: string | undefined): string => {
+  const typed = values.map((value) => toTypedValue(value, type));
+  if (typed.every((value) => typeof value === 'string')) {
+    return `z.enum([${typed.map((value) => toStringLiteral(value as string)).join(', ')}])`;
+  }
+  const literals = typed.map((value) => `z.literal(${typeof value === 'string' ? toStringLiteral(value) : String(value)})`);
+  return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+};
+
+/**
+ * Zod schema for a string/number/boolean value with its constraints
+ */
+const toScalarZod = (type: string | undefined, constraints: Constraints = {}, enumValues?: string): string => {
+  const values = parseEnumList(enumValues);
+  if (values.length > 0) return toEnumZod(values, type);
+
+  if (type === 'string') {
+    const checks = [
+      constraints.format ? STRING_FORMATS[constraints.format] || '' : '',
+      isSet(constraints.minLength) ? `.min(${constraints.minLength})` : '',
+      isSet(constraints.maxLength) ? `.max(${constraints.maxLength})` : '',
+      constraints.pattern ? `.regex(new RegExp(${toStringLiteral(constraints.pattern)}))` : '',
+    ];
+    return `z.string()${checks.join('')}`;
+  }
+  if (type === 'number' || type === 'integer') {
+    const checks = [
+      type === 'integer' ? '.int()' : '',
+      isSet(constraints.minimum) ? `.min(${constraints.minimum})` : '',
+      isSet(constraints.maximum) ? `.max(${constraints.maximum})` : '',
+    ];
+    return `z.number()${checks.join('')}`;
+  }
+  if (type === 'boolean') return 'z.boolean()';
+  return 'z.unknown()';
+};
+
+// Reference to another schema's constant; references to schemas outside the export accept anything
+const toRefZod = (name: string, known: Set<string>): string => (known.has(name) ? toZodSchemaName(name) : 'z.unknown()');
+
+const toPropertyZod = (prop: SchemaProperty, indent: string, known: Set<string>): string => {
+  let schema: string;
+  if (prop.type === 'object') {
+    schema = prop.$ref ? toRefZod(prop.$ref, known) : toObjectZod(prop.properties, indent, known);
+  } else if (prop.type === 'array') {
+    if (prop.items?.$ref) {
+      schema = `z.array(${toRefZod(prop.items.$ref, known)})`;
+    } else if (prop.items?.type === 'object') {
+      schema = `z.array(${toObjectZod(prop.items.properties, indent, known)})`;
+    } else {
+      schema = `z.array(${toScalarZod(prop.items?.type || 'string')})`;
+    }
+  } else {
+    schema = toScalarZod(prop.type, prop, prop.enumValues);
+  }
+  if (prop.nullable) schema += '.nullable()';
+  if (!prop.required) schema += '.optional()';
+  return schema;
+};
+
+/**
+ * z.object() for a list of properties; nested objects are written inline
+ */
+const toObjectZod = (properties: SchemaProperty[] | undefined, indent: string, known: Set<string>): string => {
+  const named = (properties || []).filter((prop) => prop.name);
+  if (named.length === 0) return 'z.record(z.string(), z.unknown())';
+  const memberIndent = `${indent}  `;
+  const members = named.map((prop) => {
+    const comment = toDocComment([prop.description, prop.deprecated ? '@deprecated' : undefined], memberIndent);
+    return `${comment}${memberIndent}${toPropertyKey(prop.name)}: ${toPropertyZod(prop, memberIndent, known)},`;
+  });
+  return `z.object({\n${members.join('\n')}\n${indent}})`;
+};
+
+const schemaToZodExpression = (schema: SwaggerSchema, indent: string, known: Set<string>): string => {
+  const refs = (schema.compositionRefs || []).filter(Boolean).map((ref) => toRefZod(ref, known));
+
+  if (schema.composition === 'oneOf' || schema.composition === 'anyOf') {
+    if (refs.length === 0) return 'z.unknown()';
+    return refs.length === 1 ? refs[0] : `z.union([${refs.join(', ')}])`;
+  }
+  if (schema.composition === 'allOf') {
+    const members = [...refs, ...(schema.properties.length > 0 ? [toObjectZod(schema.properties, indent, known)] : [])];
+    if (members.length === 0) return 'z.record(z.string(), z.unknown())';
+    return members.slice(1).reduce((intersection, member) => `${intersection}.and(${member})`, members[0]);
+  }
+  if (schema.type === 'array') return 'z.array(z.unknown())';
+  return toObjectZod(schema.properties, indent, known);
+};
+
+/**
+ * Order schemas so each one follows the schemas it references. Schemas that reach
+ * themselves through their references are marked recursive: they are declared lazily,
+ * with an explicit type, since Zod can't infer a recursive type.
+ */
+const orderSchemas = (schemas: SwaggerSchema[]): Array<{ schema: SwaggerSchema; recursive: boolean }> => {
+  const byName = new Map(schemas.map((schema) => [schema.name, schema]));
+  const dependencies = (schema: SwaggerSchema) => getReferencedSchemaNames(schema).filter((name) => byName.has(name));
+
+  const reachesItself = (start: SwaggerSchema): boolean => {
+    const visited = new Set<string>();
+    const pending = dependencies(start);
+    while (pending.length > 0) {
+      const name = pending.pop() as string;
+      if (name === start.name) return true;
+      if (visited.has(name)) continue;
+      visited.add(name);
+      pending.push(...dependencies(byName.get(name) as SwaggerSchema));
+    }
+    return false;
+  };
+
+  const ordered: SwaggerSchema[] = [];
+  const visited = new Set<string>();
+  const visit = (schema: SwaggerSchema) => {
+    if (visited.has(schema.name)) return;
+    visited.add(schema.name);
+    dependencies(schema).forEach((name) => visit(byName.get(name) as SwaggerSchema));
+    ordered.push(schema);
+  };
+  schemas.forEach(visit);
+  return ordered.map((schema) => ({ schema, recursive: reachesItself(schema) }));
+};
+
+/**
+ * Zod schemas for the named component schemas, each with its inferred TypeScript type.
+ * References to schemas outside the list become z.unknown().
+ */
+export const generateZodSchemas = (schemas: SwaggerSchema[]): string => {
+  const named = schemas.filter((schema) => schema.name);
+  const known = new Set(named.map((schema) => schema.name));
+  const declarations = orderSchemas(named).map(({ schema, recursive }) => {
+    const typeName = toSchemaTypeName(schema.name);
+    const constName = toZodSchemaName(schema.name);
+    if (recursive) {
+      return `${schemaToTypeScript(schema)}\n\n` +
+        `export const ${constName}: z.ZodType<${typeName}> = z.lazy(() =>\n  ${schemaToZodExpression(schema, '  ', known)}\n);`;
+    }
+    return `export const ${constName} = ${schemaToZodExpression(schema, '', known)};\n` +
+      `export type ${typeName} = z.infer<typeof ${constName}>;`;
+  });
+  return ["import { z } from 'zod';", ...declarations].join('\n\n');
+};